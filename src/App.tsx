@@ -1,21 +1,124 @@
 import type { ChangeEventHandler } from 'react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { TrackComponentDefinition, TrackComponentType } from './types/trackSystem'
-import { pikoA_H0 } from './data/pikoA_H0'
-import { Canvas, type CanvasHandle } from './components/Layout/Canvas'
+import {
+  Canvas,
+  type CanvasHandle,
+  type CanvasHighlight,
+  type CanvasLevels,
+  type CanvasSelectionTool,
+} from './components/Layout/Canvas'
+import { ClearanceReportPanel } from './components/Layout/ClearanceReportPanel'
+import { ClosureReportPanel } from './components/Layout/ClosureReportPanel'
+import { ElevationReportPanel } from './components/Layout/ElevationReportPanel'
+import { LayoutAnalysisPanel } from './components/Layout/LayoutAnalysisPanel'
+import { RouteFinderPanel } from './components/Layout/RouteFinderPanel'
+import { PolarityReportPanel } from './components/Layout/PolarityReportPanel'
+import { BlocksPanel } from './components/Layout/BlocksPanel'
+import { InspectorPanel, type ItemTransformPatch } from './components/Layout/InspectorPanel'
+import { SwitchListPanel } from './components/Layout/SwitchListPanel'
+import { ComponentEditorPanel } from './components/Layout/ComponentEditorPanel'
 import { ComponentsSidebar } from './components/Layout/ComponentsSidebar'
+import { GapSolverPanel } from './components/Layout/GapSolverPanel'
+import { LayoutGeneratorPanel } from './components/Layout/LayoutGeneratorPanel'
+import { HelixPanel } from './components/Layout/HelixPanel'
+import { ParallelTrackPanel } from './components/Layout/ParallelTrackPanel'
 import { ProjectsSidebar } from './components/Layout/ProjectsSidebar'
 import { TopToolbar } from './components/Layout/TopToolbar'
 import { TrackUsageCounter } from './components/Layout/TrackUsageCounter'
 import { useProjectsState } from './state/projectsState'
+import { useCatalogLibraryState } from './state/catalogLibraryState'
+import { useSubAssemblyLibraryState } from './state/subAssemblyLibraryState'
 import { buildLayoutSvgString } from './export/exportSvg'
+import { buildSwitchListCsv } from './export/exportSwitchList'
 import type { EndpointRef } from './types/trackSystem'
-import type { ShapeType } from './types/layout'
-import { ROTATION_STEP_DEG } from './constants/layout'
+import type {
+  CanvasShape,
+  ElectricalBlock,
+  EndpointConnection,
+  LayoutState,
+  PlacedItem,
+  ShapeType,
+  SwitchOperation,
+} from './types/layout'
+import type { ReportPanelType } from './types/analysis'
+import type { SubAssembly } from './types/subAssembly'
+import { BLOCK_COLORS, ROTATION_STEP_DEG } from './constants/layout'
 import { TRACK_COMPONENT_TYPES } from './constants/trackUsage'
+import { getDefaultFlexControlPoints, getFlexLength, isFlexControlPoints } from './geometry/flexTrack'
+import { solveGap, type GapCandidate, type GapSolverOptions } from './geometry/gapSolver'
+import {
+  generateLayout,
+  type LayoutGeneratorOptions,
+  type LayoutGeneratorResult,
+} from './geometry/layoutGenerators'
+import { buildHelix, type HelixOptions, type HelixResult } from './geometry/helix'
+import { PARALLEL_TOLERANCE_MM, proposeParallelTrack, type ParallelSide } from './geometry/parallelTrack'
+import { getPlacedEndpointPose, layChain } from './geometry/trackChain'
+import { getTrackSystemMetrics } from './geometry/trackSystemMetrics'
+import { normalizeAngle, rotatePointLocal } from './geometry/trackGeometry'
+import {
+  DEFAULT_CLOSURE_REPORT_OPTIONS,
+  findNearMissEndpoints,
+  getEndpointGapKey,
+  type ClosureReportOptions,
+} from './analysis/closureReport'
+import {
+  findClearanceConflicts,
+  getClearanceConflictKey,
+  getDefaultClearanceHalfWidth,
+  type ClearanceEnvelopes,
+  type TrackProximity,
+} from './analysis/clearanceReport'
+import {
+  DEFAULT_MAX_GRADE_PERCENT,
+  computeLayoutElevation,
+  findSteepPieces,
+  findUnderpassItemIds,
+  findVerticalClearanceIssues,
+  getDefaultVerticalClearance,
+  getHeightDifference,
+  getSteepPieceKey,
+  getVerticalClearanceKey,
+  type ElevationOptions,
+} from './analysis/elevation'
+import { analyzeTopology, buildTrackTopology, getTopologyNodeId } from './analysis/topology'
+import { findRoute, findUnreachableEnds } from './analysis/routeFinder'
+import { findReversingSections } from './analysis/polarity'
+import { summarizeBlocks } from './analysis/blockReport'
+import { listSwitches, storeDefaultSwitchOperations, validateSwitchAddresses } from './analysis/switchInventory'
 import type { TrackUsageComponentCount, TrackUsageSummary } from './types/trackUsage'
-import { connectionMatchesEndpoints } from './utils/connectionUtils'
-import { buildProjectExport, parseProjectImport } from './utils/projectSerialization'
+import { buildConnectionGraph, connectionMatchesEndpoints, getConnectedItemIds } from './utils/connectionUtils'
+import {
+  buildClipboardExport,
+  buildProjectExport,
+  parseClipboardImport,
+  parseProjectImport,
+} from './utils/projectSerialization'
+import { copyLayoutSelection, instantiateClipboard, mergeLayoutSelection } from './utils/layoutClipboard'
+import { createSubAssembly } from './utils/subAssembly'
+import {
+  buildCatalogExport,
+  parseCatalogCsv,
+  parseCatalogImport,
+  type CatalogCsvSkippedRow,
+} from './utils/catalogSerialization'
+import {
+  activateTrackSystem,
+  buildComponentLookup,
+  getComponentKey,
+  getItemComponentKey,
+  isBuiltInTrackSystemId,
+  listAvailableTrackSystems,
+  removeCustomComponent,
+  resolveTrackSystems,
+  upsertCustomComponent,
+} from './utils/trackSystemUtils'
+
+const createItemId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `item-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
 
 function App() {
   const {
@@ -25,7 +128,7 @@ function App() {
     createProject,
     renameProject,
     deleteProject,
-    updateActiveProjectLayout,
+    updateActiveProjectLayout: updateProjectLayout,
     reloadFromLocalStorage,
     undo,
     redo,
@@ -33,24 +136,56 @@ function App() {
     canRedo,
     addImportedProject,
   } = useProjectsState()
+  const { catalogs: libraryCatalogs, saveCatalog, removeCatalog } = useCatalogLibraryState()
+
+  // Switches get their default name in the same step that places them, so it never changes afterwards
+  const updateActiveProjectLayout = useCallback<typeof updateProjectLayout>(
+    (updater, options) =>
+      updateProjectLayout((layout) => {
+        const updated = updater(layout)
+        return storeDefaultSwitchOperations(updated, resolveTrackSystems(updated))
+      }, options),
+    [updateProjectLayout],
+  )
+  const { subAssemblies, saveSubAssembly, removeSubAssembly } = useSubAssemblyLibraryState()
 
   const activeLayout = activeProject?.layout ?? null
   const canvasRef = useRef<CanvasHandle | null>(null)
   const importInputRef = useRef<HTMLInputElement | null>(null)
+  const catalogImportInputRef = useRef<HTMLInputElement | null>(null)
   const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set())
   const [selectedEndpoints, setSelectedEndpoints] = useState<EndpointRef[]>([])
+  const [selectedShapeIds, setSelectedShapeIds] = useState<string[]>([])
   const [debugMode, setDebugMode] = useState(false)
   const [showColors, setShowColors] = useState(true)
   const [drawingTool, setDrawingTool] = useState<ShapeType | null>(null)
+  const [selectionTool, setSelectionTool] = useState<CanvasSelectionTool | null>(null)
+  // null while closed; `component: null` opens the editor for a new custom component
+  const [componentEditor, setComponentEditor] = useState<{ component: TrackComponentDefinition | null } | null>(null)
+  // Endpoints the gap solver was opened for; they stay fixed even if the canvas selection changes
+  const [gapEndpoints, setGapEndpoints] = useState<[EndpointRef, EndpointRef] | null>(null)
+  const [isGeneratorOpen, setIsGeneratorOpen] = useState(false)
+  const [isHelixOpen, setIsHelixOpen] = useState(false)
+  const [isParallelOpen, setIsParallelOpen] = useState(false)
+  const [parallelPreview, setParallelPreview] = useState<ParallelSide | null>(null)
+  const [gapPreview, setGapPreview] = useState<GapCandidate | null>(null)
+  const [reportPanel, setReportPanel] = useState<ReportPanelType | null>(null)
+  const [closureOptions, setClosureOptions] = useState<ClosureReportOptions>(DEFAULT_CLOSURE_REPORT_OPTIONS)
+  const [clearanceEnvelopes, setClearanceEnvelopes] = useState<ClearanceEnvelopes>({})
+  const [elevationOptions, setElevationOptions] = useState<Partial<ElevationOptions>>({})
+  const [focusedReportKey, setFocusedReportKey] = useState<string | null>(null)
+  const [isRouteReversed, setIsRouteReversed] = useState(false)
 
-  const activeTrackSystem = useMemo(() => {
-    const system = activeLayout?.trackSystems.find((system) => system.id === activeLayout.activeTrackSystemId) ?? null
-    // Always use the fresh definition for Piko A H0 to ensure we have the latest metadata (colors, etc)
-    if (system?.id === pikoA_H0.id) {
-      return pikoA_H0
-    }
-    return system
-  }, [activeLayout])
+  const layoutTrackSystems = useMemo(() => resolveTrackSystems(activeLayout), [activeLayout])
+  const availableTrackSystems = useMemo(
+    () => listAvailableTrackSystems(activeLayout, libraryCatalogs),
+    [activeLayout, libraryCatalogs],
+  )
+
+  const activeTrackSystem = useMemo(
+    () => layoutTrackSystems.find((system) => system.id === activeLayout?.activeTrackSystemId) ?? null,
+    [activeLayout, layoutTrackSystems],
+  )
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -82,13 +217,59 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [canUndo, canRedo, undo, redo])
 
+  // Last copied selection, kept outside the system clipboard so it also survives switching projects
+  // in browsers that do not hand clipboard data to paste events
+  const clipboardRef = useRef<LayoutState | null>(null)
+
+  useEffect(() => {
+    const isEditingText = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLElement && target.isContentEditable)
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (!activeLayout || isEditingText(event.target)) return
+      if (selectedItemIds.size === 0 && selectedShapeIds.length === 0) return
+      const copied = copyLayoutSelection(activeLayout, selectedItemIds, new Set(selectedShapeIds))
+      clipboardRef.current = copied
+      event.clipboardData?.setData('text/plain', buildClipboardExport(copied))
+      event.preventDefault()
+      if (event.type === 'cut') canvasRef.current?.deleteSelectedItem()
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!activeLayout || isEditingText(event.target)) return
+      const text = event.clipboardData?.getData('text/plain') ?? ''
+      // Other text on the system clipboard is newer than anything copied here, so it wins
+      const clipboard = text ? parseClipboardImport(text) : clipboardRef.current
+      if (!clipboard) return
+      event.preventDefault()
+      const position = canvasRef.current?.getPastePosition() ?? { x: 0, y: 0 }
+      const pasted = instantiateClipboard(clipboard, position, createItemId)
+      updateActiveProjectLayout((layout) => mergeLayoutSelection(layout, pasted))
+      canvasRef.current?.selectItems(
+        pasted.placedItems.map((item) => item.id),
+        pasted.shapes.map((shape) => shape.id),
+      )
+    }
+
+    window.addEventListener('copy', handleCopy)
+    window.addEventListener('cut', handleCopy)
+    window.addEventListener('paste', handlePaste)
+    return () => {
+      window.removeEventListener('copy', handleCopy)
+      window.removeEventListener('cut', handleCopy)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [activeLayout, selectedItemIds, selectedShapeIds, updateActiveProjectLayout])
+
   const trackUsageSummary = useMemo<TrackUsageSummary>(() => {
     const countsByType = TRACK_COMPONENT_TYPES.reduce<Record<TrackComponentType, number>>((acc, type) => {
       acc[type] = 0
       return acc
     }, {} as Record<TrackComponentType, number>)
 
-    if (!activeLayout || !activeTrackSystem) {
+    if (!activeLayout) {
       return {
         totalCount: 0,
         countsByType,
@@ -98,25 +279,40 @@ function App() {
 
     const componentCountMap = new Map<string, TrackUsageComponentCount>()
 
-    activeTrackSystem.components.forEach((component) => {
-      componentCountMap.set(component.id, {
-        componentId: component.id,
-        label: component.label,
-        type: component.type,
-        article: component.article,
-        count: 0,
+    layoutTrackSystems.forEach((system) => {
+      system.components.forEach((component) => {
+        componentCountMap.set(getComponentKey(system.id, component.id), {
+          trackSystemId: system.id,
+          trackSystemName: system.name,
+          componentId: component.id,
+          label: component.label,
+          type: component.type,
+          article: component.article,
+          count: 0,
+        })
       })
     })
 
+    const componentMap = buildComponentLookup(layoutTrackSystems)
+
     activeLayout.placedItems.forEach((item) => {
-      const existingEntry = componentCountMap.get(item.componentId)
+      const key = getItemComponentKey(item)
+      const existingEntry = componentCountMap.get(key)
       const type = existingEntry?.type ?? 'other'
       countsByType[type] += 1
 
-      if (existingEntry) {
+      const component = componentMap.get(key)
+      if (existingEntry && component?.type === 'flex') {
+        const controlPoints = isFlexControlPoints(item.controlPoints)
+          ? item.controlPoints
+          : getDefaultFlexControlPoints(component)
+        existingEntry.usedLengthMm = (existingEntry.usedLengthMm ?? 0) + getFlexLength(controlPoints)
+      } else if (existingEntry) {
         existingEntry.count += 1
       } else {
-        componentCountMap.set(item.componentId, {
+        componentCountMap.set(key, {
+          trackSystemId: item.trackSystemId,
+          trackSystemName: item.trackSystemId,
           componentId: item.componentId,
           label: item.componentId,
           type,
@@ -125,6 +321,13 @@ function App() {
       }
     })
 
+    // Flex track is bought by the piece: round the laid length up to whole stock lengths
+    componentCountMap.forEach((entry, key) => {
+      const stockLengthMm = componentMap.get(key)?.lengthMm
+      if (entry.usedLengthMm === undefined || !stockLengthMm) return
+      entry.count = Math.ceil(entry.usedLengthMm / stockLengthMm - 1e-6)
+    })
+
     const componentCounts = Array.from(componentCountMap.values()).filter((entry) => entry.count > 0)
 
     return {
@@ -132,7 +335,7 @@ function App() {
       countsByType,
       componentCounts,
     }
-  }, [activeLayout, activeTrackSystem])
+  }, [activeLayout, layoutTrackSystems])
 
   const { totalCount: usageTotalCount, countsByType, componentCounts } = trackUsageSummary
 
@@ -185,7 +388,7 @@ function App() {
   }
 
   const handleExportSvg = () => {
-    if (!activeProject || !activeLayout || !activeTrackSystem) {
+    if (!activeProject || !activeLayout) {
       console.warn('Nothing to export yet')
       return
     }
@@ -197,14 +400,34 @@ function App() {
       count: entry.count,
     }))
 
-    const svg = buildLayoutSvgString(activeLayout, activeTrackSystem, { trackUsage: trackUsageData })
+    const reversingSections = findReversingSections(buildTrackTopology(activeLayout, layoutTrackSystems))
+
+    const svg = buildLayoutSvgString(activeLayout, layoutTrackSystems, {
+      trackUsage: trackUsageData,
+      reversingSections,
+    })
+    openSvgDocument(svg, 'Track Plan')
+  }
+
+  const handleExportWiringSvg = () => {
+    if (!activeLayout) return
+    const topology = buildTrackTopology(activeLayout, layoutTrackSystems)
+    const svg = buildLayoutSvgString(activeLayout, layoutTrackSystems, {
+      wiring: summarizeBlocks(activeLayout, topology),
+      reversingSections: findReversingSections(topology),
+    })
+    openSvgDocument(svg, 'Wiring Diagram')
+  }
+
+  const openSvgDocument = (svg: string, title: string) => {
+    if (!activeProject) return
 
     // Wrap SVG in HTML document for proper sizing
     const htmlWrapper = `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
-  <title>${activeProject.name ?? 'Layout'} - Track Plan</title>
+  <title>${activeProject.name ?? 'Layout'} - ${title}</title>
   <style>
     body {
       margin: 0;
@@ -263,6 +486,23 @@ function App() {
     URL.revokeObjectURL(url)
   }
 
+  const handleExportSwitchCsv = () => {
+    if (!activeProject || !activeLayout) return
+
+    // Layouts saved before names were stored get theirs now, so the list matches the canvas from here on
+    const namedLayout = storeDefaultSwitchOperations(activeLayout, layoutTrackSystems)
+    if (namedLayout !== activeLayout) {
+      updateActiveProjectLayout(() => namedLayout, { recordHistory: false })
+    }
+    const blob = new Blob([buildSwitchListCsv(listSwitches(namedLayout, layoutTrackSystems))], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = buildFileName(`${activeProject.name ?? 'layout'}-switches`, 'csv')
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
   const handleImportRequest = () => {
     importInputRef.current?.click()
   }
@@ -288,6 +528,93 @@ function App() {
     }
   }
 
+  const handleCatalogImportRequest = () => {
+    catalogImportInputRef.current?.click()
+  }
+
+  const handleCatalogImportFile: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      const content = await file.text()
+      let parsed: ReturnType<typeof parseCatalogImport>
+      let skippedRows: CatalogCsvSkippedRow[] = []
+      if (file.name.toLowerCase().endsWith('.csv')) {
+        if (!activeTrackSystem) {
+          window.alert('Select a track system first; the CSV catalog uses its scale and gauge.')
+          return
+        }
+        const name = window.prompt('Catalog name', file.name.replace(/\.csv$/i, ''))?.trim()
+        if (!name) return
+        const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+        const csvResult = parseCatalogCsv(content, {
+          id: `catalog-${slug || Date.now()}`,
+          name,
+          scale: activeTrackSystem.scale,
+          ratio: activeTrackSystem.ratio,
+          gaugeMm: activeTrackSystem.gaugeMm,
+          parallelSpacingMm: activeTrackSystem.parallelSpacingMm,
+          moduleLengthMm: activeTrackSystem.moduleLengthMm,
+          sleeperWidthMm: activeTrackSystem.sleeperWidthMm,
+        })
+        parsed = csvResult
+        if (csvResult.ok) skippedRows = csvResult.skippedRows
+      } else {
+        parsed = parseCatalogImport(content)
+      }
+
+      if (!parsed.ok) {
+        window.alert(`Catalog import failed: ${parsed.error}`)
+        return
+      }
+      if (isBuiltInTrackSystemId(parsed.trackSystem.id)) {
+        window.alert(`"${parsed.trackSystem.id}" is a built-in catalog and cannot be replaced.`)
+        return
+      }
+
+      const importedSystem = parsed.trackSystem
+      saveCatalog(importedSystem)
+      if (activeProject) {
+        updateActiveProjectLayout((layout) => activateTrackSystem(layout, importedSystem))
+      }
+      if (skippedRows.length > 0) {
+        const details = skippedRows.map(({ row, reason }) => `Row ${row}: ${reason}`).join('\n')
+        window.alert(
+          `Imported ${importedSystem.components.length} articles into "${importedSystem.name}". ` +
+            `Skipped ${skippedRows.length} rows:\n${details}`,
+        )
+      }
+    } catch (error) {
+      console.error('Failed to import catalog', error)
+      window.alert('Failed to import catalog. Please check the console for details.')
+    } finally {
+      event.target.value = ''
+    }
+  }
+
+  const handleExportCatalog = () => {
+    if (!activeTrackSystem) return
+
+    const exportString = buildCatalogExport(activeTrackSystem)
+    const blob = new Blob([exportString], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = buildFileName(`${activeTrackSystem.name}-catalog`, 'json')
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const isActiveSystemInLibrary = libraryCatalogs.some((catalog) => catalog.id === activeTrackSystem?.id)
+
+  const handleRemoveCatalogFromLibrary = () => {
+    if (!activeTrackSystem || !isActiveSystemInLibrary) return
+    if (window.confirm(`Remove "${activeTrackSystem.name}" from the catalog library? Projects using it keep their copy.`)) {
+      removeCatalog(activeTrackSystem.id)
+    }
+  }
+
   const addComponentToLayout = useCallback(
     (component: TrackComponentDefinition, position?: { x: number; y: number }) => {
       if (!activeTrackSystem) return
@@ -317,6 +644,725 @@ function App() {
     addComponentToLayout(component)
   }
 
+  const handleSaveSubAssembly = () => {
+    if (!activeLayout || selectedItemIds.size === 0) return
+    const name = window.prompt('Sub-assembly name', `Sub-assembly ${subAssemblies.length + 1}`)?.trim()
+    if (!name) return
+    saveSubAssembly(createSubAssembly(activeLayout, selectedItemIds, name, createItemId))
+  }
+
+  // Placed pieces stay selected so the assembly can be dragged onto open ends right away
+  const handlePlaceSubAssembly = (subAssembly: SubAssembly, position?: { x: number; y: number }) => {
+    if (!activeLayout) return
+    const placed = instantiateClipboard(
+      subAssembly.layout,
+      position ?? canvasRef.current?.getPastePosition() ?? { x: 0, y: 0 },
+      createItemId,
+    )
+    updateActiveProjectLayout((layout) => mergeLayoutSelection(layout, placed))
+    canvasRef.current?.selectItems(placed.placedItems.map((item) => item.id), [])
+  }
+
+  const handleDeleteSubAssembly = (subAssembly: SubAssembly) => {
+    if (window.confirm(`Delete the sub-assembly "${subAssembly.name}"? Pieces already placed stay in their projects.`)) {
+      removeSubAssembly(subAssembly.id)
+    }
+  }
+
+  const handleSelectTrackSystem = (trackSystemId: string) => {
+    const system = availableTrackSystems.find((candidate) => candidate.id === trackSystemId)
+    if (!system || system.id === activeLayout?.activeTrackSystemId) return
+    updateActiveProjectLayout((layout) => activateTrackSystem(layout, system))
+  }
+
+  const handleSaveCustomComponent = (component: TrackComponentDefinition, previousId?: string) => {
+    if (!activeTrackSystem) return
+    updateActiveProjectLayout((layout) => upsertCustomComponent(layout, activeTrackSystem.id, component, previousId))
+    setComponentEditor(null)
+  }
+
+  const handleDeleteCustomComponent = (componentId: string) => {
+    if (!activeTrackSystem) return
+    updateActiveProjectLayout((layout) => removeCustomComponent(layout, activeTrackSystem.id, componentId))
+    setComponentEditor(null)
+  }
+
+  const editedComponentUsage = useMemo(() => {
+    const editedComponent = componentEditor?.component
+    if (!editedComponent || !activeTrackSystem) return 0
+    return componentCounts.find(
+      (entry) => entry.trackSystemId === activeTrackSystem.id && entry.componentId === editedComponent.id,
+    )?.count ?? 0
+  }, [activeTrackSystem, componentCounts, componentEditor])
+
+  const getEndpointTrackSystem = useCallback(
+    (endpoint: EndpointRef) => {
+      const item = activeLayout?.placedItems.find((candidate) => candidate.id === endpoint.itemId)
+      return layoutTrackSystems.find((system) => system.id === item?.trackSystemId) ?? null
+    },
+    [activeLayout, layoutTrackSystems],
+  )
+
+  // The gap is filled from the system of its two ends, whichever system is active
+  const gapTrackSystem = useMemo(() => {
+    if (!gapEndpoints) return null
+    const [first, second] = gapEndpoints.map(getEndpointTrackSystem)
+    return first && first.id === second?.id ? first : null
+  }, [gapEndpoints, getEndpointTrackSystem])
+
+  const handleOpenGapSolver = () => {
+    if (selectedEndpoints.length !== 2) return
+    const [firstSystem, secondSystem] = selectedEndpoints.map(getEndpointTrackSystem)
+    if (!firstSystem || firstSystem.id !== secondSystem?.id) {
+      window.alert('Both ends must belong to the same track system to close the gap between them.')
+      return
+    }
+    setGapEndpoints([selectedEndpoints[0], selectedEndpoints[1]])
+    setGapPreview(null)
+    setIsGeneratorOpen(false)
+    setIsHelixOpen(false)
+    setIsParallelOpen(false)
+  }
+
+  const handleCloseGapSolver = () => {
+    setGapEndpoints(null)
+    setGapPreview(null)
+  }
+
+  const getEndpointWorldPose = useCallback(
+    (endpoint: EndpointRef) => {
+      const item = activeLayout?.placedItems.find((candidate) => candidate.id === endpoint.itemId)
+      if (!item) return null
+      const component = buildComponentLookup(layoutTrackSystems).get(getItemComponentKey(item))
+      return component ? getPlacedEndpointPose(item, component, endpoint.connectorKey) : null
+    },
+    [activeLayout, layoutTrackSystems],
+  )
+
+  const handleSolveGap = (options: GapSolverOptions): GapCandidate[] => {
+    if (!gapEndpoints || !gapTrackSystem) return []
+    const from = getEndpointWorldPose(gapEndpoints[0])
+    const to = getEndpointWorldPose(gapEndpoints[1])
+    if (!from || !to) return []
+    return solveGap(from, to, gapTrackSystem, options)
+  }
+
+  const layGapCandidate = useCallback(
+    (candidate: GapCandidate, createId: () => string) => {
+      if (!gapEndpoints || !gapTrackSystem) return null
+      const from = getEndpointWorldPose(gapEndpoints[0])
+      if (!from) return null
+      return layChain(from, candidate.steps, {
+        trackSystemId: gapTrackSystem.id,
+        widthMm: getTrackSystemMetrics(gapTrackSystem).sleeperWidthMm,
+        createId,
+      })
+    },
+    [gapEndpoints, gapTrackSystem, getEndpointWorldPose],
+  )
+
+  const gapPreviewItems = useMemo<PlacedItem[]>(() => {
+    if (!gapPreview) return []
+    let index = 0
+    return layGapCandidate(gapPreview, () => `gap-preview-${index++}`)?.items ?? []
+  }, [gapPreview, layGapCandidate])
+
+  const handlePlaceGapCandidate = (candidate: GapCandidate) => {
+    if (!gapEndpoints) return
+    const chain = layGapCandidate(candidate, createItemId)
+    if (!chain?.first || !chain.last) return
+    const [from, to] = gapEndpoints
+    const first = chain.first
+    const last = chain.last
+
+    // Pieces and all their joints, including both ends, land in one undo step
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: [...layout.placedItems, ...chain.items],
+      connections: [
+        ...(layout.connections ?? []),
+        { endpoints: [from, first] },
+        ...chain.connections,
+        { endpoints: [last, to] },
+      ],
+    }))
+    handleCloseGapSolver()
+  }
+
+  const handleOpenGenerator = () => {
+    handleCloseGapSolver()
+    setIsParallelOpen(false)
+    setIsHelixOpen(false)
+    setIsGeneratorOpen(true)
+  }
+
+  const handleGenerateLayout = (options: LayoutGeneratorOptions): LayoutGeneratorResult => {
+    if (!activeTrackSystem) return { error: 'Pick a track system first.' }
+    const result = generateLayout(
+      activeTrackSystem,
+      options,
+      canvasRef.current?.getPastePosition() ?? { x: 0, y: 0 },
+      {
+        trackSystemId: activeTrackSystem.id,
+        widthMm: getTrackSystemMetrics(activeTrackSystem).sleeperWidthMm,
+        createId: createItemId,
+      },
+    )
+    if ('error' in result) return result
+
+    // The whole plan is one undo step
+    const { items, connections } = result.layout
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: [...layout.placedItems, ...items],
+      connections: [...(layout.connections ?? []), ...connections],
+    }))
+    canvasRef.current?.selectItems(items.map((item) => item.id), [])
+    return result
+  }
+
+  const handleOpenHelix = () => {
+    handleCloseGapSolver()
+    setIsParallelOpen(false)
+    setIsGeneratorOpen(false)
+    setIsHelixOpen(true)
+  }
+
+  const handlePlaceHelix = (options: HelixOptions): HelixResult => {
+    if (!activeTrackSystem) return { error: 'Pick a track system first.' }
+    const result = buildHelix(activeTrackSystem, options, canvasRef.current?.getPastePosition() ?? { x: 0, y: 0 }, {
+      trackSystemId: activeTrackSystem.id,
+      widthMm: getTrackSystemMetrics(activeTrackSystem).sleeperWidthMm,
+      createId: createItemId,
+    })
+    if ('error' in result) return result
+
+    const { items, connections } = result
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: [...layout.placedItems, ...items],
+      connections: [...(layout.connections ?? []), ...connections],
+    }))
+    canvasRef.current?.selectItems(items.map((item) => item.id), [])
+    return result
+  }
+
+  const handleOpenParallel = () => {
+    handleCloseGapSolver()
+    setIsGeneratorOpen(false)
+    setIsHelixOpen(false)
+    setParallelPreview(null)
+    setIsParallelOpen(true)
+  }
+
+  const handleCloseParallel = () => {
+    setIsParallelOpen(false)
+    setParallelPreview(null)
+  }
+
+  const parallelResult = useMemo(
+    () =>
+      isParallelOpen && activeLayout ? proposeParallelTrack(activeLayout, selectedItemIds, layoutTrackSystems) : null,
+    [activeLayout, isParallelOpen, layoutTrackSystems, selectedItemIds],
+  )
+
+  const layParallelTrack = useCallback(
+    (side: ParallelSide, createId: () => string) => {
+      if (!parallelResult || 'error' in parallelResult) return null
+      const proposal = parallelResult.proposals.find((candidate) => candidate.side === side)
+      if (!proposal) return null
+      const chain = layChain(proposal.start, proposal.steps, {
+        trackSystemId: parallelResult.trackSystem.id,
+        widthMm: getTrackSystemMetrics(parallelResult.trackSystem).sleeperWidthMm,
+        createId,
+      })
+      const closesLoop =
+        parallelResult.isLoop &&
+        Math.hypot(
+          chain.endPose.position.xMm - proposal.start.position.xMm,
+          chain.endPose.position.yMm - proposal.start.position.yMm,
+        ) <= PARALLEL_TOLERANCE_MM
+      return { chain, closesLoop }
+    },
+    [parallelResult],
+  )
+
+  const parallelPreviewItems = useMemo<PlacedItem[]>(() => {
+    if (!parallelPreview) return []
+    let index = 0
+    return layParallelTrack(parallelPreview, () => `parallel-preview-${index++}`)?.chain.items ?? []
+  }, [layParallelTrack, parallelPreview])
+
+  const canvasPreviewItems = useMemo(
+    () => [...gapPreviewItems, ...parallelPreviewItems],
+    [gapPreviewItems, parallelPreviewItems],
+  )
+
+  const handlePlaceParallel = (side: ParallelSide) => {
+    const laid = layParallelTrack(side, createItemId)
+    if (!laid) return
+    const { chain, closesLoop } = laid
+    const connections: EndpointConnection[] =
+      closesLoop && chain.first && chain.last
+        ? [...chain.connections, { endpoints: [chain.last, chain.first] }]
+        : chain.connections
+
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: [...layout.placedItems, ...chain.items],
+      connections: [...(layout.connections ?? []), ...connections],
+    }))
+    setParallelPreview(null)
+    // Selecting the new track lets the next parallel follow it
+    canvasRef.current?.selectItems(chain.items.map((item) => item.id), [])
+  }
+
+  const closureGaps = useMemo(
+    () =>
+      reportPanel === 'closure' && activeLayout
+        ? findNearMissEndpoints(activeLayout, layoutTrackSystems, closureOptions)
+        : [],
+    [activeLayout, closureOptions, layoutTrackSystems, reportPanel],
+  )
+
+  const clearanceEnvelopeRows = useMemo(() => {
+    const usedSystemIds = new Set(activeLayout?.placedItems.map((item) => item.trackSystemId))
+    return layoutTrackSystems
+      .filter((system) => usedSystemIds.has(system.id))
+      .map((system) => ({
+        system,
+        halfWidthMm: clearanceEnvelopes[system.id] ?? getDefaultClearanceHalfWidth(system),
+      }))
+  }, [activeLayout, clearanceEnvelopes, layoutTrackSystems])
+
+  const layoutTopology = useMemo(
+    () =>
+      reportPanel && reportPanel !== 'closure' && reportPanel !== 'clearance' && activeLayout
+        ? buildTrackTopology(activeLayout, layoutTrackSystems)
+        : null,
+    [activeLayout, layoutTrackSystems, reportPanel],
+  )
+  const topologyReport = useMemo(
+    () => (layoutTopology && activeLayout ? analyzeTopology(layoutTopology, activeLayout) : null),
+    [activeLayout, layoutTopology],
+  )
+
+  // Needed beyond the elevation panel: the canvas stacks levels and the inspector shows heights
+  const layoutElevation = useMemo(() => {
+    if (!activeLayout) return null
+    const hasHeights = activeLayout.placedItems.some((item) => item.heightsMm)
+    if (!hasHeights && selectedItemIds.size !== 1 && reportPanel !== 'elevation') return null
+    return computeLayoutElevation(activeLayout, layoutTopology ?? buildTrackTopology(activeLayout, layoutTrackSystems))
+  }, [activeLayout, layoutTopology, layoutTrackSystems, reportPanel, selectedItemIds])
+  const isMultiLevel = layoutElevation !== null && layoutElevation.maxLevelMm > layoutElevation.minLevelMm
+
+  const resolvedElevationOptions = useMemo<ElevationOptions>(
+    () => ({
+      maxGradePercent: DEFAULT_MAX_GRADE_PERCENT,
+      verticalClearanceMm: getDefaultVerticalClearance(activeTrackSystem),
+      ...elevationOptions,
+    }),
+    [activeTrackSystem, elevationOptions],
+  )
+
+  const canvasLevels = useMemo<CanvasLevels | null>(() => {
+    if (!activeLayout || !layoutElevation || !isMultiLevel) return null
+    return {
+      levelByItemId: new Map(Array.from(layoutElevation.pieces.values(), (piece) => [piece.itemId, piece.levelMm])),
+      underpassItemIds: findUnderpassItemIds(activeLayout, layoutTrackSystems, layoutElevation, clearanceEnvelopes),
+    }
+  }, [activeLayout, clearanceEnvelopes, isMultiLevel, layoutElevation, layoutTrackSystems])
+
+  const steepPieces = useMemo(
+    () =>
+      reportPanel === 'elevation' && layoutElevation
+        ? findSteepPieces(layoutElevation, resolvedElevationOptions.maxGradePercent)
+        : [],
+    [layoutElevation, reportPanel, resolvedElevationOptions],
+  )
+  const verticalClearanceIssues = useMemo(
+    () =>
+      reportPanel === 'elevation' && activeLayout && layoutElevation && isMultiLevel
+        ? findVerticalClearanceIssues(
+            activeLayout,
+            layoutTrackSystems,
+            layoutElevation,
+            resolvedElevationOptions.verticalClearanceMm,
+            clearanceEnvelopes,
+          )
+        : [],
+    [
+      activeLayout,
+      clearanceEnvelopes,
+      isMultiLevel,
+      layoutElevation,
+      layoutTrackSystems,
+      reportPanel,
+      resolvedElevationOptions,
+    ],
+  )
+
+  const clearanceConflicts = useMemo(() => {
+    if (reportPanel !== 'clearance' || !activeLayout) return []
+    // Track running high enough over another is a bridge, not a conflict
+    const isPassingOver =
+      layoutElevation && isMultiLevel
+        ? (proximity: TrackProximity) =>
+            Math.abs(getHeightDifference(layoutElevation, proximity)) >= resolvedElevationOptions.verticalClearanceMm
+        : undefined
+    return findClearanceConflicts(activeLayout, layoutTrackSystems, clearanceEnvelopes, isPassingOver)
+  }, [
+    activeLayout,
+    clearanceEnvelopes,
+    isMultiLevel,
+    layoutElevation,
+    layoutTrackSystems,
+    reportPanel,
+    resolvedElevationOptions,
+  ])
+
+  const reversingSections = useMemo(
+    () => (reportPanel === 'polarity' && layoutTopology ? findReversingSections(layoutTopology) : []),
+    [layoutTopology, reportPanel],
+  )
+
+  const blockReport = useMemo(
+    () => (reportPanel === 'blocks' && layoutTopology && activeLayout ? summarizeBlocks(activeLayout, layoutTopology) : null),
+    [activeLayout, layoutTopology, reportPanel],
+  )
+
+  const switchInventory = useMemo(
+    () => (activeLayout ? listSwitches(activeLayout, layoutTrackSystems) : []),
+    [activeLayout, layoutTrackSystems],
+  )
+  const switchIssues = useMemo(() => validateSwitchAddresses(switchInventory), [switchInventory])
+  const inspectedItem = useMemo(() => {
+    if (!activeLayout || selectedItemIds.size !== 1) return null
+    const [itemId] = Array.from(selectedItemIds)
+    const item = activeLayout.placedItems.find((candidate) => candidate.id === itemId)
+    if (!item) return null
+    const system = layoutTrackSystems.find((candidate) => candidate.id === item.trackSystemId)
+    const groupIds = getConnectedItemIds(buildConnectionGraph(activeLayout.connections ?? []), item.id)
+    return {
+      item,
+      component: system?.components.find((candidate) => candidate.id === item.componentId) ?? null,
+      trackSystemName: system?.name ?? null,
+      groupIds,
+      isGroupGrounded: activeLayout.placedItems.some((candidate) => candidate.isGrounded && groupIds.includes(candidate.id)),
+    }
+  }, [activeLayout, layoutTrackSystems, selectedItemIds])
+  // The inspector edits a shape only when it is the whole selection
+  const selectedShape = useMemo(() => {
+    if (selectedShapeIds.length !== 1 || selectedItemIds.size > 0) return null
+    return activeLayout?.shapes.find((shape) => shape.id === selectedShapeIds[0]) ?? null
+  }, [activeLayout, selectedItemIds, selectedShapeIds])
+  const selectedSwitch = useMemo(() => {
+    if (selectedItemIds.size !== 1) return null
+    const [itemId] = Array.from(selectedItemIds)
+    return switchInventory.find((entry) => entry.itemId === itemId) ?? null
+  }, [selectedItemIds, switchInventory])
+
+  const routeEndpoints = useMemo<[EndpointRef, EndpointRef] | null>(() => {
+    if (selectedEndpoints.length !== 2) return null
+    const [first, second] = selectedEndpoints
+    return isRouteReversed ? [second, first] : [first, second]
+  }, [isRouteReversed, selectedEndpoints])
+
+  const routeAnalysis = useMemo(() => {
+    if (reportPanel !== 'route' || !layoutTopology || !topologyReport || !routeEndpoints) return null
+    return {
+      route: findRoute(layoutTopology, routeEndpoints[0], routeEndpoints[1]),
+      unreachableEnds: findUnreachableEnds(layoutTopology, routeEndpoints[0], topologyReport.openEnds),
+    }
+  }, [layoutTopology, reportPanel, routeEndpoints, topologyReport])
+
+  const canvasHighlights = useMemo<CanvasHighlight[]>(() => {
+    if (reportPanel === 'route') {
+      if (!routeAnalysis) return []
+      const highlights: CanvasHighlight[] = [{ color: '#f59e0b', endpoints: routeAnalysis.unreachableEnds }]
+      if (routeAnalysis.route) {
+        highlights.push({ color: '#22c55e', itemIds: routeAnalysis.route.steps.map((step) => step.itemId) })
+      }
+      return highlights
+    }
+    if (reportPanel === 'switches') {
+      const highlights: CanvasHighlight[] = [
+        { color: '#f59e0b', itemIds: switchIssues.flatMap((issue) => issue.itemIds) },
+      ]
+      const [kind, value] = focusedReportKey?.split(/:(.*)/) ?? []
+      if (kind === 'switch' && value) {
+        highlights.push({ color: '#ef4444', itemIds: [value] })
+      } else if (kind === 'issue') {
+        highlights.push({ color: '#ef4444', itemIds: switchIssues[Number(value)]?.itemIds })
+      }
+      return highlights
+    }
+    if (reportPanel === 'blocks') {
+      if (!blockReport) return []
+      const highlights: CanvasHighlight[] = [
+        {
+          color: '#f59e0b',
+          endpoints: blockReport.uninsulatedBoundaries.flatMap((connection) => connection.endpoints),
+        },
+      ]
+      const [kind, value] = focusedReportKey?.split(/:(.*)/) ?? []
+      if (kind === 'block') {
+        const summary = blockReport.blocks.find((candidate) => candidate.block?.id === value)
+        if (summary) highlights.push({ color: '#ef4444', itemIds: summary.itemIds })
+      } else if (kind === 'unassigned') {
+        highlights.push({ color: '#ef4444', itemIds: blockReport.unassigned.itemIds })
+      } else if (kind === 'border') {
+        const connection = blockReport.uninsulatedBoundaries[Number(value)]
+        if (connection) {
+          highlights.push({
+            color: '#ef4444',
+            itemIds: connection.endpoints.map((endpoint) => endpoint.itemId),
+            endpoints: connection.endpoints,
+          })
+        }
+      }
+      return highlights
+    }
+    if (reportPanel === 'polarity') {
+      const highlights: CanvasHighlight[] = [
+        {
+          color: '#f59e0b',
+          endpoints: reversingSections.flatMap((section) =>
+            section.insulatedJoints.flatMap((joint) => joint.endpoints),
+          ),
+        },
+      ]
+      const focusedSection = reversingSections[Number(focusedReportKey?.replace('section:', ''))]
+      if (focusedReportKey && focusedSection) {
+        highlights.push({
+          color: '#ef4444',
+          itemIds: focusedSection.itemIds,
+          endpoints: focusedSection.insulatedJoints.flatMap((joint) => joint.endpoints),
+        })
+      }
+      return highlights
+    }
+    if (reportPanel === 'topology' && topologyReport) {
+      const highlights: CanvasHighlight[] = [{ color: '#f59e0b', endpoints: topologyReport.openEnds }]
+      const [kind, value] = focusedReportKey?.split(/:(.*)/) ?? []
+      if (kind === 'network') {
+        highlights.push({ color: '#ef4444', itemIds: topologyReport.networks[Number(value)]?.itemIds })
+      } else if (kind === 'open') {
+        const endpoint = topologyReport.openEnds.find((candidate) => getTopologyNodeId(candidate) === value)
+        if (endpoint) highlights.push({ color: '#ef4444', itemIds: [endpoint.itemId], endpoints: [endpoint] })
+      } else if (kind === 'isolated' && value) {
+        highlights.push({ color: '#ef4444', itemIds: [value] })
+      }
+      return highlights
+    }
+    if (reportPanel === 'elevation') {
+      const highlights: CanvasHighlight[] = [
+        {
+          color: '#f59e0b',
+          itemIds: [
+            ...steepPieces.map((piece) => piece.itemId),
+            ...verticalClearanceIssues.flatMap((issue) => issue.itemIds),
+          ],
+          points: verticalClearanceIssues.map((issue) => issue.point),
+        },
+      ]
+      const focusedPiece = steepPieces.find((piece) => getSteepPieceKey(piece) === focusedReportKey)
+      const focusedIssue = verticalClearanceIssues.find((issue) => getVerticalClearanceKey(issue) === focusedReportKey)
+      if (focusedPiece) highlights.push({ color: '#ef4444', itemIds: [focusedPiece.itemId] })
+      if (focusedIssue) highlights.push({ color: '#ef4444', itemIds: focusedIssue.itemIds, points: [focusedIssue.point] })
+      return highlights
+    }
+    if (reportPanel === 'clearance') {
+      const highlights: CanvasHighlight[] = [
+        {
+          color: '#f59e0b',
+          itemIds: clearanceConflicts.flatMap((conflict) => conflict.itemIds),
+          points: clearanceConflicts.map((conflict) => conflict.point),
+        },
+      ]
+      const focusedConflict = clearanceConflicts.find(
+        (conflict) => getClearanceConflictKey(conflict) === focusedReportKey,
+      )
+      if (focusedConflict) {
+        highlights.push({
+          color: '#ef4444',
+          itemIds: focusedConflict.itemIds,
+          shapeIds: focusedConflict.shapeId ? [focusedConflict.shapeId] : [],
+          points: [focusedConflict.point],
+        })
+      }
+      return highlights
+    }
+    if (reportPanel !== 'closure') return []
+    const focusedGap = closureGaps.find((gap) => getEndpointGapKey(gap) === focusedReportKey)
+    const highlights: CanvasHighlight[] = [
+      { color: '#f59e0b', endpoints: closureGaps.flatMap((gap) => gap.endpoints) },
+    ]
+    if (focusedGap) {
+      highlights.push({
+        color: '#ef4444',
+        itemIds: focusedGap.endpoints.map((endpoint) => endpoint.itemId),
+        endpoints: focusedGap.endpoints,
+      })
+    }
+    return highlights
+  }, [
+    blockReport,
+    clearanceConflicts,
+    closureGaps,
+    focusedReportKey,
+    reportPanel,
+    reversingSections,
+    routeAnalysis,
+    steepPieces,
+    switchIssues,
+    topologyReport,
+    verticalClearanceIssues,
+  ])
+
+  const describeItem = (itemId: string) =>
+    activeLayout?.placedItems.find((item) => item.id === itemId)?.componentId ?? itemId
+
+  const handleRemoveDanglingConnections = () => {
+    if (!topologyReport) return
+    const dangling = topologyReport.danglingConnections.map(({ connection }) => connection.endpoints)
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      connections: (layout.connections ?? []).filter(
+        (connection) => !dangling.some((endpoints) => connectionMatchesEndpoints(connection, endpoints)),
+      ),
+    }))
+  }
+
+  const handleAddBlock = () => {
+    updateActiveProjectLayout((layout) => {
+      const blocks = layout.blocks ?? []
+      const block: ElectricalBlock = {
+        id: createItemId(),
+        name: `Block ${blocks.length + 1}`,
+        color: BLOCK_COLORS[blocks.length % BLOCK_COLORS.length],
+      }
+      return { ...layout, blocks: [...blocks, block] }
+    })
+  }
+
+  const handleUpdateBlock = (blockId: string, patch: Partial<Omit<ElectricalBlock, 'id'>>) => {
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      blocks: (layout.blocks ?? []).map((block) => (block.id === blockId ? { ...block, ...patch } : block)),
+    }))
+  }
+
+  const handleDeleteBlock = (blockId: string) => {
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      blocks: (layout.blocks ?? []).filter((block) => block.id !== blockId),
+      placedItems: layout.placedItems.map((item) =>
+        item.blockId === blockId ? { ...item, blockId: undefined } : item,
+      ),
+    }))
+    setFocusedReportKey(null)
+  }
+
+  const handleAssignSelectionToBlock = (blockId: string | null) => {
+    if (selectedItemIds.size === 0) return
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: layout.placedItems.map((item) =>
+        selectedItemIds.has(item.id) ? { ...item, blockId: blockId ?? undefined } : item,
+      ),
+    }))
+  }
+
+  const handleToggleFeeders = () => {
+    if (selectedItemIds.size === 0) return
+    updateActiveProjectLayout((layout) => {
+      const selected = layout.placedItems.filter((item) => selectedItemIds.has(item.id))
+      const hasFeeder = !selected.every((item) => item.hasFeeder)
+      return {
+        ...layout,
+        placedItems: layout.placedItems.map((item) =>
+          selectedItemIds.has(item.id) ? { ...item, hasFeeder: hasFeeder || undefined } : item,
+        ),
+      }
+    })
+  }
+
+  const handleToggleInsulatedJoint = () => {
+    if (selectedEndpoints.length !== 2) return
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      connections: (layout.connections ?? []).map((connection) =>
+        connectionMatchesEndpoints(connection, selectedEndpoints)
+          ? { endpoints: connection.endpoints, ...(connection.insulated ? {} : { insulated: true }) }
+          : connection,
+      ),
+    }))
+  }
+
+  const handleSetItemTransform = (itemId: string, patch: ItemTransformPatch) => {
+    updateActiveProjectLayout((layout) => {
+      const anchor = layout.placedItems.find((item) => item.id === itemId)
+      if (!anchor) return layout
+      const groupIds = new Set(getConnectedItemIds(buildConnectionGraph(layout.connections ?? []), itemId))
+      if (layout.placedItems.some((item) => groupIds.has(item.id) && item.isGrounded)) return layout
+
+      // Rotate and translate the whole connected group around the edited piece so joints stay closed
+      const deltaRotation = normalizeAngle((patch.rotationDeg ?? anchor.rotationDeg) - anchor.rotationDeg)
+      const pivotAfter = { x: patch.x ?? anchor.x, y: patch.y ?? anchor.y }
+      return {
+        ...layout,
+        placedItems: layout.placedItems.map((item) => {
+          if (!groupIds.has(item.id)) return item
+          const rotated = rotatePointLocal(item.x - anchor.x, item.y - anchor.y, deltaRotation)
+          return {
+            ...item,
+            x: pivotAfter.x + rotated.x,
+            y: pivotAfter.y + rotated.y,
+            rotationDeg: normalizeAngle(item.rotationDeg + deltaRotation),
+          }
+        }),
+      }
+    })
+  }
+
+  const handleUpdateShape = (shapeId: string, patch: Partial<CanvasShape>) => {
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      shapes: layout.shapes.map((shape) => (shape.id === shapeId ? ({ ...shape, ...patch } as CanvasShape) : shape)),
+    }))
+  }
+
+  const handleUpdateSwitchOperation = (itemId: string, operation: SwitchOperation) => {
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: layout.placedItems.map((item) =>
+        item.id === itemId ? { ...item, switchOperation: operation } : item,
+      ),
+    }))
+  }
+
+  /** Sets or, with `null`, clears the rail height at one connector; clearing lets it be interpolated again. */
+  const handleSetConnectorHeight = (itemId: string, connectorKey: string, heightMm: number | null) => {
+    updateActiveProjectLayout((layout) => ({
+      ...layout,
+      placedItems: layout.placedItems.map((item) => {
+        if (item.id !== itemId) return item
+        const heightsMm = { ...item.heightsMm }
+        if (heightMm === null) delete heightsMm[connectorKey]
+        else heightsMm[connectorKey] = heightMm
+        const next: PlacedItem = { ...item, heightsMm }
+        if (Object.keys(heightsMm).length === 0) delete next.heightsMm
+        return next
+      }),
+    }))
+  }
+
+  const handleReportPanelChange = (panel: ReportPanelType | null) => {
+    setReportPanel(panel)
+    setFocusedReportKey(null)
+  }
+
   const handleRotateSelected = (deltaDeg: number) => {
     canvasRef.current?.rotateSelected(deltaDeg)
   }
@@ -351,10 +1397,11 @@ function App() {
     }))
   }
 
-  const canRotateSelection = selectedItemIds.size > 0 && !selectedItemsConnected && !isSelectionGrounded
-  // Note: Shape deletion is handled internally by Canvas, so we only check for item selection here
-  const canDeleteSelection = selectedItemIds.size > 0
+  const canRotateSelection =
+    selectedShapeIds.length > 0 || (selectedItemIds.size > 0 && !selectedItemsConnected && !isSelectionGrounded)
+  const canDeleteSelection = selectedItemIds.size > 0 || selectedShapeIds.length > 0
   const canConnectEndpoints = selectedEndpoints.length === 2
+  const canCloseGap = canConnectEndpoints && Boolean(activeTrackSystem)
   const canDisconnectEndpoints = useMemo(() => {
     if (!activeLayout) return false
     if (selectedEndpoints.length !== 2) return false
@@ -365,6 +1412,13 @@ function App() {
     )
   }, [activeLayout, selectedEndpoints])
   const canToggleGroundSelection = selectedItemIds.size > 0
+  const selectedJoint = useMemo(() => {
+    if (!activeLayout || selectedEndpoints.length !== 2) return null
+    const connection = activeLayout.connections?.find((candidate) =>
+      connectionMatchesEndpoints(candidate, selectedEndpoints),
+    )
+    return connection ? { insulated: Boolean(connection.insulated) } : null
+  }, [activeLayout, selectedEndpoints])
 
   return (
     <div className="app-root flex h-screen flex-col bg-slate-950 text-slate-100">
@@ -378,6 +1432,10 @@ function App() {
         onImport={handleImportRequest}
         onConnectEndpoints={handleConnectEndpoints}
         onDisconnectEndpoints={handleDisconnectEndpoints}
+        onCloseGap={handleOpenGapSolver}
+        onOpenGenerator={handleOpenGenerator}
+        onOpenHelix={handleOpenHelix}
+        onOpenParallel={handleOpenParallel}
         onRotateSelectedLeft={() => handleRotateSelected(-ROTATION_STEP_DEG)}
         onRotateSelectedRight={() => handleRotateSelected(ROTATION_STEP_DEG)}
         onDeleteSelected={handleDeleteSelected}
@@ -389,6 +1447,9 @@ function App() {
         onToggleColors={() => setShowColors((prev) => !prev)}
         canConnectEndpoints={canConnectEndpoints}
         canDisconnectEndpoints={canDisconnectEndpoints}
+        canCloseGap={canCloseGap}
+        canGenerate={Boolean(activeProject && activeTrackSystem)}
+        canOpenParallel={selectedItemIds.size > 0}
         canRotateSelection={canRotateSelection}
         canDeleteSelection={canDeleteSelection}
         canUndo={canUndo}
@@ -398,8 +1459,18 @@ function App() {
         canExportProject={Boolean(activeProject)}
         debugMode={debugMode}
         drawingTool={drawingTool}
-        onDrawingToolChange={setDrawingTool}
+        onDrawingToolChange={(tool) => {
+          setDrawingTool(tool)
+          if (tool) setSelectionTool(null)
+        }}
+        selectionTool={selectionTool}
+        onSelectionToolChange={(tool) => {
+          setSelectionTool(tool)
+          if (tool) setDrawingTool(null)
+        }}
         onDimensionAction={handleDimensionAction}
+        reportPanel={reportPanel}
+        onReportPanelChange={handleReportPanelChange}
       />
 
       <input
@@ -410,6 +1481,14 @@ function App() {
         onChange={handleImportFile}
       />
 
+      <input
+        ref={catalogImportInputRef}
+        type="file"
+        accept="application/json,.json,text/csv,.csv"
+        className="hidden"
+        onChange={handleCatalogImportFile}
+      />
+
       <div className="app-main-row flex flex-1 min-h-0 overflow-hidden">
         <ProjectsSidebar
           projects={projectsState.projects}
@@ -424,20 +1503,208 @@ function App() {
           <Canvas
             ref={canvasRef}
             layout={activeLayout}
-            trackSystem={activeTrackSystem}
+            trackSystems={layoutTrackSystems}
             onUpdateLayout={updateActiveProjectLayout}
             onSelectionChange={(ids) => setSelectedItemIds(new Set(ids))}
             onSelectedEndpointsChange={setSelectedEndpoints}
+            onSelectedShapesChange={setSelectedShapeIds}
+            previewItems={canvasPreviewItems}
+            highlights={canvasHighlights}
+            levels={canvasLevels}
             debugMode={debugMode}
             showColors={showColors}
+            showWiring={reportPanel === 'blocks'}
             drawingTool={drawingTool}
+            selectionTool={selectionTool}
+            onDropSubAssembly={(subAssemblyId, position) => {
+              const subAssembly = subAssemblies.find((candidate) => candidate.id === subAssemblyId)
+              if (subAssembly) handlePlaceSubAssembly(subAssembly, position)
+            }}
             undo={undo}
             redo={redo}
           />
         </div>
 
-        <ComponentsSidebar trackSystem={activeTrackSystem} onComponentClick={handleComponentClick} />
+        <ComponentsSidebar
+          trackSystem={activeTrackSystem}
+          availableTrackSystems={availableTrackSystems}
+          onSelectTrackSystem={handleSelectTrackSystem}
+          onComponentClick={handleComponentClick}
+          onCreateCustomComponent={() => setComponentEditor({ component: null })}
+          onEditCustomComponent={(component) => setComponentEditor({ component })}
+          onImportCatalog={handleCatalogImportRequest}
+          onExportCatalog={handleExportCatalog}
+          onRemoveCatalog={isActiveSystemInLibrary ? handleRemoveCatalogFromLibrary : undefined}
+          subAssemblies={subAssemblies}
+          canSaveSubAssembly={selectedItemIds.size > 0}
+          onSaveSubAssembly={handleSaveSubAssembly}
+          onPlaceSubAssembly={handlePlaceSubAssembly}
+          onDeleteSubAssembly={handleDeleteSubAssembly}
+        />
       </div>
+      {componentEditor && activeTrackSystem && (
+        <ComponentEditorPanel
+          key={componentEditor.component?.id ?? 'new'}
+          trackSystem={activeTrackSystem}
+          component={componentEditor.component}
+          usageCount={editedComponentUsage}
+          onSave={handleSaveCustomComponent}
+          onDelete={handleDeleteCustomComponent}
+          onClose={() => setComponentEditor(null)}
+        />
+      )}
+      {reportPanel === 'closure' && activeLayout && (
+        <ClosureReportPanel
+          gaps={closureGaps}
+          options={closureOptions}
+          onOptionsChange={setClosureOptions}
+          focusedGapKey={focusedReportKey}
+          onFocusGap={setFocusedReportKey}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'clearance' && activeLayout && (
+        <ClearanceReportPanel
+          conflicts={clearanceConflicts}
+          envelopes={clearanceEnvelopeRows}
+          onEnvelopeChange={(trackSystemId, halfWidthMm) =>
+            setClearanceEnvelopes((previous) => ({ ...previous, [trackSystemId]: halfWidthMm }))
+          }
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'elevation' && activeLayout && (
+        <ElevationReportPanel
+          isFlat={!isMultiLevel}
+          steepPieces={steepPieces}
+          clearanceIssues={verticalClearanceIssues}
+          options={resolvedElevationOptions}
+          onOptionsChange={(patch) => setElevationOptions((previous) => ({ ...previous, ...patch }))}
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'topology' && topologyReport && (
+        <LayoutAnalysisPanel
+          report={topologyReport}
+          describeItem={describeItem}
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onRemoveDanglingConnections={handleRemoveDanglingConnections}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'route' && (
+        <RouteFinderPanel
+          endpoints={routeEndpoints}
+          route={routeAnalysis?.route ?? null}
+          unreachableEnds={routeAnalysis?.unreachableEnds ?? []}
+          describeItem={describeItem}
+          onSwap={() => setIsRouteReversed((previous) => !previous)}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'polarity' && activeLayout && (
+        <PolarityReportPanel
+          sections={reversingSections}
+          describeItem={describeItem}
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'blocks' && blockReport && (
+        <BlocksPanel
+          report={blockReport}
+          describeItem={describeItem}
+          selectedItemCount={selectedItemIds.size}
+          selectedJoint={selectedJoint}
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onAddBlock={handleAddBlock}
+          onUpdateBlock={handleUpdateBlock}
+          onDeleteBlock={handleDeleteBlock}
+          onAssignSelection={handleAssignSelectionToBlock}
+          onToggleFeeders={handleToggleFeeders}
+          onToggleInsulatedJoint={handleToggleInsulatedJoint}
+          onExportWiring={handleExportWiringSvg}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {reportPanel === 'switches' && (
+        <SwitchListPanel
+          entries={switchInventory}
+          issues={switchIssues}
+          focusedKey={focusedReportKey}
+          onFocus={setFocusedReportKey}
+          onExportCsv={handleExportSwitchCsv}
+          onClose={() => handleReportPanelChange(null)}
+        />
+      )}
+      {(selectedItemIds.size > 0 || selectedShapeIds.length > 0) && (
+        <InspectorPanel
+          selectedItemCount={selectedItemIds.size}
+          selectedShapeCount={selectedShapeIds.length}
+          item={inspectedItem?.item ?? null}
+          component={inspectedItem?.component ?? null}
+          trackSystemName={inspectedItem?.trackSystemName ?? null}
+          groupSize={inspectedItem?.groupIds.length ?? 0}
+          isGroupGrounded={inspectedItem?.isGroupGrounded ?? false}
+          onItemTransformChange={(patch) => inspectedItem && handleSetItemTransform(inspectedItem.item.id, patch)}
+          switchEntry={selectedSwitch}
+          switchIssues={
+            selectedSwitch ? switchIssues.filter((issue) => issue.itemIds.includes(selectedSwitch.itemId)) : []
+          }
+          onSwitchOperationChange={(operation) =>
+            selectedSwitch && handleUpdateSwitchOperation(selectedSwitch.itemId, operation)
+          }
+          elevation={(inspectedItem && layoutElevation?.pieces.get(inspectedItem.item.id)) ?? null}
+          maxGradePercent={resolvedElevationOptions.maxGradePercent}
+          onHeightChange={(connectorKey, heightMm) =>
+            inspectedItem && handleSetConnectorHeight(inspectedItem.item.id, connectorKey, heightMm)
+          }
+          shape={selectedShape}
+          onShapeChange={(patch) => selectedShape && handleUpdateShape(selectedShape.id, patch)}
+        />
+      )}
+      {gapEndpoints && gapTrackSystem && (
+        <GapSolverPanel
+          key={`${gapEndpoints[0].itemId}:${gapEndpoints[0].connectorKey}-${gapEndpoints[1].itemId}:${gapEndpoints[1].connectorKey}`}
+          trackSystem={gapTrackSystem}
+          onSolve={handleSolveGap}
+          onPreview={setGapPreview}
+          onPlace={handlePlaceGapCandidate}
+          onClose={handleCloseGapSolver}
+        />
+      )}
+      {isGeneratorOpen && activeTrackSystem && (
+        <LayoutGeneratorPanel
+          key={activeTrackSystem.id}
+          trackSystem={activeTrackSystem}
+          onGenerate={handleGenerateLayout}
+          onClose={() => setIsGeneratorOpen(false)}
+        />
+      )}
+      {isHelixOpen && activeTrackSystem && (
+        <HelixPanel
+          key={activeTrackSystem.id}
+          trackSystem={activeTrackSystem}
+          maxGradePercent={resolvedElevationOptions.maxGradePercent}
+          onPlace={handlePlaceHelix}
+          onClose={() => setIsHelixOpen(false)}
+        />
+      )}
+      {parallelResult && (
+        <ParallelTrackPanel
+          result={parallelResult}
+          onPreview={setParallelPreview}
+          onPlace={handlePlaceParallel}
+          onClose={handleCloseParallel}
+        />
+      )}
       <TrackUsageCounter
         totalCount={usageTotalCount}
         typeCounts={countsByType}
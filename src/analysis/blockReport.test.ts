@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { summarizeBlocks } from './blockReport'
+import { buildTrackTopology } from './topology'
+import { createDefaultLayoutState } from '../state/layoutState'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { EndpointConnection, LayoutState, PlacedItem } from '../types/layout'
+
+const place = (id: string, componentId: string, blockId: string): PlacedItem => ({
+  id,
+  trackSystemId: pikoA_H0.id,
+  componentId,
+  x: 0,
+  y: 0,
+  rotationDeg: 0,
+  blockId,
+})
+
+const join = (first: string, firstKey: string, second: string, secondKey: string): EndpointConnection => ({
+  endpoints: [
+    { itemId: first, connectorKey: firstKey },
+    { itemId: second, connectorKey: secondKey },
+  ],
+})
+
+describe('summarizeBlocks', () => {
+  it('counts feeder tracks and treats the start of an isolating track as insulated', () => {
+    const layout: LayoutState = {
+      ...createDefaultLayoutState(),
+      blocks: [
+        { id: 'a', name: 'A', color: '#f00' },
+        { id: 'b', name: 'B', color: '#0f0' },
+        { id: 'c', name: 'C', color: '#00f' },
+      ],
+      placedItems: [place('plain', 'G231', 'a'), place('isolating', 'G231-I', 'b'), place('feeder', 'G231-F', 'c')],
+      connections: [join('plain', 'end', 'isolating', 'start'), join('isolating', 'end', 'feeder', 'start')],
+    }
+
+    const report = summarizeBlocks(layout, buildTrackTopology(layout, [pikoA_H0]))
+    expect(report.blocks.map((summary) => summary.feederCount)).toEqual([0, 0, 1])
+    expect(report.uninsulatedBoundaries).toEqual([layout.connections[1]])
+  })
+})
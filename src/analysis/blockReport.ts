@@ -0,0 +1,63 @@
+import type { ElectricalBlock, EndpointConnection, LayoutState } from '../types/layout'
+import { getItemTrackLengths, type TrackTopology } from './topology'
+import { isFeederTrack, isInsulatedByTrack } from './electricalAccessories'
+
+export interface BlockSummary {
+  /** The block, or null for pieces not assigned to any block */
+  block: ElectricalBlock | null
+  itemIds: string[]
+  lengthMm: number
+  feederCount: number
+}
+
+export interface BlockReport {
+  blocks: BlockSummary[]
+  unassigned: BlockSummary
+  /** Joints between two different blocks that still conduct */
+  uninsulatedBoundaries: EndpointConnection[]
+}
+
+/**
+ * Pieces, track length and feeders of every block, plus block borders that are missing insulated joiners.
+ * Feeder and isolating accessory tracks count as a feeder and as an insulated joint respectively.
+ */
+export function summarizeBlocks(layout: LayoutState, topology: TrackTopology): BlockReport {
+  const itemLengths = getItemTrackLengths(topology)
+  const blocks = layout.blocks ?? []
+  const summaries = new Map<string | null, BlockSummary>([
+    [null, { block: null, itemIds: [], lengthMm: 0, feederCount: 0 }],
+    ...blocks.map((block): [string, BlockSummary] => [block.id, { block, itemIds: [], lengthMm: 0, feederCount: 0 }]),
+  ])
+
+  const componentByItem = new Map(
+    Array.from(topology.nodes.values(), (endpoint) => [endpoint.ref.itemId, endpoint.component] as const),
+  )
+  const blockByItem = new Map<string, string | null>()
+  layout.placedItems.forEach((item) => {
+    const blockId = item.blockId && summaries.has(item.blockId) ? item.blockId : null
+    blockByItem.set(item.id, blockId)
+    const summary = summaries.get(blockId)!
+    summary.itemIds.push(item.id)
+    summary.lengthMm += itemLengths.get(item.id) ?? 0
+    if (item.hasFeeder || isFeederTrack(componentByItem.get(item.id))) summary.feederCount += 1
+  })
+
+  const uninsulatedBoundaries = (layout.connections ?? []).filter((connection) => {
+    if (connection.insulated) return false
+    const isIsolatingTrack = connection.endpoints.some((ref) => {
+      const node = topology.resolveNode(ref)
+      const endpoint = node && topology.nodes.get(node)
+      return Boolean(endpoint && isInsulatedByTrack(endpoint))
+    })
+    if (isIsolatingTrack) return false
+    // Unassigned pieces are still being planned, so only borders between two blocks count
+    const [first, second] = connection.endpoints.map((endpoint) => blockByItem.get(endpoint.itemId))
+    return Boolean(first && second && first !== second)
+  })
+
+  return {
+    blocks: blocks.map((block) => summaries.get(block.id)!),
+    unassigned: summaries.get(null)!,
+    uninsulatedBoundaries,
+  }
+}
@@ -0,0 +1,248 @@
+import type { CanvasPrimitiveShape, LayoutState, PlacedItem } from '../types/layout'
+import type { TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { toRad, transformPoint, type Vec2 } from '../geometry/geometryUtils'
+import { getPolylineBounds, samplePathD, type Bounds, type Polyline } from '../geometry/pathSampling'
+import { getPlacedItemGeometry } from '../geometry/trackGeometry'
+import { DEFAULT_TRACK_SYSTEM_METRICS, getTrackSystemMetrics } from '../geometry/trackSystemMetrics'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+
+/** Half width of the clearance envelope per track system id; systems without an entry use their default */
+export type ClearanceEnvelopes = Record<string, number>
+
+export interface ClearanceConflict {
+  /** `crossing`: two centre lines intersect; `track`: two tracks too close; `shape`: a track too close to an object */
+  kind: 'crossing' | 'track' | 'shape'
+  itemIds: string[]
+  /** Component ids of the pieces, for display */
+  componentIds: string[]
+  shapeId?: string
+  /** Closest distance between the centre lines, or from the centre line to the object's outline */
+  distanceMm: number
+  /** Distance the envelopes need */
+  requiredMm: number
+  /** Midpoint of the closest approach */
+  point: Vec2
+}
+
+type TrackOutline = {
+  item: PlacedItem
+  component: TrackComponentDefinition
+  polylines: Polyline[]
+  bounds: Bounds
+  halfWidthMm: number
+}
+
+type Closest = { distanceMm: number; point: Vec2 }
+
+export const getClearanceConflictKey = (conflict: ClearanceConflict) =>
+  [conflict.kind, ...conflict.itemIds, conflict.shapeId ?? ''].join(':')
+
+export const getDefaultClearanceHalfWidth = (system: TrackSystemDefinition | undefined) =>
+  (system ? getTrackSystemMetrics(system) : DEFAULT_TRACK_SYSTEM_METRICS).clearanceHalfWidthMm
+
+const boundsOverlap = (a: Bounds, b: Bounds, marginMm: number) =>
+  a.minX - marginMm <= b.maxX && b.minX - marginMm <= a.maxX && a.minY - marginMm <= b.maxY && b.minY - marginMm <= a.maxY
+
+const closestOnSegment = (point: Vec2, a: Vec2, b: Vec2): Vec2 => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq))
+  return { x: a.x + t * dx, y: a.y + t * dy }
+}
+
+const cross = (o: Vec2, a: Vec2, b: Vec2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+/** Proper crossing only; touching segments are caught by the distance check. */
+const segmentsCross = (a: Vec2, b: Vec2, c: Vec2, d: Vec2) =>
+  cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0
+
+function closestBetweenSegments(a: Vec2, b: Vec2, c: Vec2, d: Vec2): Closest {
+  if (segmentsCross(a, b, c, d)) {
+    // Both segments are a few mm long, so the midpoint of the four ends is close enough to mark the spot
+    return { distanceMm: 0, point: { x: (a.x + b.x + c.x + d.x) / 4, y: (a.y + b.y + c.y + d.y) / 4 } }
+  }
+  let best: Closest = { distanceMm: Infinity, point: a }
+  const candidates: [Vec2, Vec2, Vec2][] = [
+    [a, c, d],
+    [b, c, d],
+    [c, a, b],
+    [d, a, b],
+  ]
+  for (const [point, start, end] of candidates) {
+    const onSegment = closestOnSegment(point, start, end)
+    const distanceMm = Math.hypot(point.x - onSegment.x, point.y - onSegment.y)
+    if (distanceMm < best.distanceMm) {
+      best = { distanceMm, point: { x: (point.x + onSegment.x) / 2, y: (point.y + onSegment.y) / 2 } }
+    }
+  }
+  return best
+}
+
+function closestBetweenTracks(a: TrackOutline, b: TrackOutline): Closest {
+  let best: Closest = { distanceMm: Infinity, point: { x: 0, y: 0 } }
+  for (const first of a.polylines) {
+    for (const second of b.polylines) {
+      for (let i = 1; i < first.length; i += 1) {
+        for (let j = 1; j < second.length; j += 1) {
+          const candidate = closestBetweenSegments(first[i - 1], first[i], second[j - 1], second[j])
+          if (candidate.distanceMm < best.distanceMm) best = candidate
+          if (best.distanceMm === 0) return best
+        }
+      }
+    }
+  }
+  return best
+}
+
+/** Distance from a point to the outline of a rectangle or circle; zero inside it. */
+function distanceToShape(point: Vec2, shape: CanvasPrimitiveShape): number {
+  const dx = point.x - shape.x
+  const dy = point.y - shape.y
+  if (shape.type === 'circle') return Math.max(0, Math.hypot(dx, dy) - shape.width / 2)
+  const rad = toRad(-shape.rotationDeg)
+  const localX = dx * Math.cos(rad) - dy * Math.sin(rad)
+  const localY = dx * Math.sin(rad) + dy * Math.cos(rad)
+  const outsideX = Math.max(0, Math.abs(localX) - shape.width / 2)
+  const outsideY = Math.max(0, Math.abs(localY) - (shape.height ?? shape.width) / 2)
+  return Math.hypot(outsideX, outsideY)
+}
+
+function closestToShape(track: TrackOutline, shape: CanvasPrimitiveShape): Closest {
+  let best: Closest = { distanceMm: Infinity, point: { x: shape.x, y: shape.y } }
+  track.polylines.forEach((polyline) =>
+    polyline.forEach((point) => {
+      const distanceMm = distanceToShape(point, shape)
+      if (distanceMm < best.distanceMm) best = { distanceMm, point }
+    }),
+  )
+  return best
+}
+
+const getShapeBounds = (shape: CanvasPrimitiveShape): Bounds => {
+  // Generous for rotated rectangles, which is fine for a pre-filter
+  const radius = Math.hypot(shape.width, shape.height ?? shape.width) / 2
+  return { minX: shape.x - radius, maxX: shape.x + radius, minY: shape.y - radius, maxY: shape.y + radius }
+}
+
+/** Two tracks that cross or come closer than their clearance envelopes allow */
+export interface TrackProximity {
+  itemIds: [string, string]
+  componentIds: [string, string]
+  distanceMm: number
+  requiredMm: number
+  point: Vec2
+}
+
+function getTrackOutlines(
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  envelopes: ClearanceEnvelopes,
+): TrackOutline[] {
+  const componentMap = buildComponentLookup(trackSystems)
+  const systemById = new Map(trackSystems.map((system) => [system.id, system]))
+
+  const tracks: TrackOutline[] = []
+  layout.placedItems.forEach((item) => {
+    const component = componentMap.get(getItemComponentKey(item))
+    if (!component) return
+    const system = systemById.get(item.trackSystemId)
+    const widthMm = (system ? getTrackSystemMetrics(system) : DEFAULT_TRACK_SYSTEM_METRICS).sleeperWidthMm
+    const rad = toRad(item.rotationDeg)
+    const polylines = samplePathD(getPlacedItemGeometry(component, item, widthMm).buildPathD()).map((polyline) =>
+      polyline.map((point) => transformPoint(point, rad, { x: item.x, y: item.y })),
+    )
+    const bounds = getPolylineBounds(polylines)
+    if (!bounds) return
+    const halfWidthMm = envelopes[item.trackSystemId] ?? getDefaultClearanceHalfWidth(system)
+    tracks.push({ item, component, polylines, bounds, halfWidthMm })
+  })
+  return tracks
+}
+
+function findProximities(layout: LayoutState, tracks: TrackOutline[]): TrackProximity[] {
+  const neighbours = new Map<string, Set<string>>()
+  const link = (a: string, b: string) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Set())
+    neighbours.get(a)!.add(b)
+  }
+  ;(layout.connections ?? []).forEach(({ endpoints: [a, b] }) => {
+    link(a.itemId, b.itemId)
+    link(b.itemId, a.itemId)
+  })
+  const isNearby = (a: string, b: string) => {
+    const direct = neighbours.get(a)
+    if (!direct) return false
+    if (direct.has(b)) return true
+    for (const between of direct) {
+      if (neighbours.get(between)?.has(b)) return true
+    }
+    return false
+  }
+
+  const proximities: TrackProximity[] = []
+  tracks.forEach((a, index) => {
+    for (const b of tracks.slice(index + 1)) {
+      const requiredMm = a.halfWidthMm + b.halfWidthMm
+      if (!boundsOverlap(a.bounds, b.bounds, requiredMm) || isNearby(a.item.id, b.item.id)) continue
+      const closest = closestBetweenTracks(a, b)
+      if (closest.distanceMm >= requiredMm) continue
+      proximities.push({
+        itemIds: [a.item.id, b.item.id],
+        componentIds: [a.component.id, b.component.id],
+        distanceMm: closest.distanceMm,
+        requiredMm,
+        point: closest.point,
+      })
+    }
+  })
+  return proximities
+}
+
+/** Track pairs that would conflict if they were at the same height; joined pieces are skipped as below. */
+export const findTrackProximities = (
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  envelopes: ClearanceEnvelopes = {},
+) => findProximities(layout, getTrackOutlines(layout, trackSystems, envelopes))
+
+/**
+ * Tracks that cross or come closer than their clearance envelopes allow, and tracks too close to
+ * rectangles and circles (walls, pillars). Pieces joined to each other, directly or through one piece in
+ * between, are skipped: diverging legs of a switch are meant to be that close. So are pairs
+ * `isPassingOver` accepts, where one track runs high enough above the other. Worst conflicts first.
+ */
+export function findClearanceConflicts(
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  envelopes: ClearanceEnvelopes = {},
+  isPassingOver?: (proximity: TrackProximity) => boolean,
+): ClearanceConflict[] {
+  const tracks = getTrackOutlines(layout, trackSystems, envelopes)
+  const conflicts: ClearanceConflict[] = findProximities(layout, tracks)
+    .filter((proximity) => !isPassingOver?.(proximity))
+    .map((proximity) => ({ kind: proximity.distanceMm === 0 ? 'crossing' : 'track', ...proximity }))
+
+  const obstacles = layout.shapes.filter(
+    (shape): shape is CanvasPrimitiveShape => shape.type === 'rectangle' || shape.type === 'circle',
+  )
+  obstacles.forEach((shape) => {
+    const shapeBounds = getShapeBounds(shape)
+    tracks.forEach((track) => {
+      if (!boundsOverlap(track.bounds, shapeBounds, track.halfWidthMm)) return
+      const closest = closestToShape(track, shape)
+      if (closest.distanceMm >= track.halfWidthMm) return
+      conflicts.push({
+        kind: 'shape',
+        itemIds: [track.item.id],
+        componentIds: [track.component.id],
+        shapeId: shape.id,
+        distanceMm: closest.distanceMm,
+        requiredMm: track.halfWidthMm,
+        point: closest.point,
+      })
+    })
+  })
+
+  return conflicts.sort((a, b) => a.distanceMm - a.requiredMm - (b.distanceMm - b.requiredMm))
+}
@@ -0,0 +1,96 @@
+import type { LayoutState } from '../types/layout'
+import type { TrackSystemDefinition } from '../types/trackSystem'
+import type { EndpointGap } from '../types/analysis'
+import { toDeg } from '../geometry/geometryUtils'
+import { listLayoutEndpoints, type LayoutEndpoint } from './layoutEndpoints'
+
+export interface ClosureReportOptions {
+  /** Open ends further apart than this are not considered a near miss */
+  maxGapMm: number
+  maxAngleDeg: number
+}
+
+export const DEFAULT_CLOSURE_REPORT_OPTIONS: ClosureReportOptions = {
+  maxGapMm: 16,
+  maxAngleDeg: 15,
+}
+
+/** Below these a joint counts as exact; anything above relies on joint slop. */
+export const EXACT_JOINT_GAP_MM = 0.01
+export const EXACT_JOINT_ANGLE_DEG = 0.01
+
+export const getEndpointGapKey = (gap: EndpointGap) =>
+  gap.endpoints.map((endpoint) => `${endpoint.itemId}:${endpoint.connectorKey}`).join('|')
+
+const measure = (a: LayoutEndpoint, b: LayoutEndpoint) => {
+  const positionGapMm = Math.hypot(
+    a.pose.position.xMm - b.pose.position.xMm,
+    a.pose.position.yMm - b.pose.position.yMm,
+  )
+  // Mating connectors point in opposite directions
+  const dot = -(a.pose.direction.x * b.pose.direction.x + a.pose.direction.y * b.pose.direction.y)
+  const angleErrorDeg = toDeg(Math.acos(Math.min(1, Math.max(-1, dot))))
+  return { positionGapMm, angleErrorDeg }
+}
+
+const isExact = ({ positionGapMm, angleErrorDeg }: { positionGapMm: number; angleErrorDeg: number }) =>
+  positionGapMm <= EXACT_JOINT_GAP_MM && angleErrorDeg <= EXACT_JOINT_ANGLE_DEG
+
+/**
+ * Every joint that does not close exactly: connected pairs with any residual error, and open ends of
+ * different pieces that are close enough to be mistaken for a joint. Sorted by gap, largest first.
+ */
+export function findNearMissEndpoints(
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  options: ClosureReportOptions = DEFAULT_CLOSURE_REPORT_OPTIONS,
+): EndpointGap[] {
+  const endpoints = listLayoutEndpoints(layout, trackSystems)
+  const endpointByKey = new Map<string, LayoutEndpoint>()
+  endpoints.forEach((endpoint) => {
+    for (const key of [endpoint.ref.connectorKey, ...endpoint.aliasKeys]) {
+      endpointByKey.set(`${endpoint.ref.itemId}:${key}`, endpoint)
+    }
+  })
+
+  const gaps: EndpointGap[] = []
+  const connectedEndpoints = new Set<LayoutEndpoint>()
+
+  for (const connection of layout.connections ?? []) {
+    const [first, second] = connection.endpoints
+    const a = endpointByKey.get(`${first.itemId}:${first.connectorKey}`)
+    const b = endpointByKey.get(`${second.itemId}:${second.connectorKey}`)
+    // Connections to deleted pieces are a topology problem, not a closure error
+    if (!a || !b) continue
+    connectedEndpoints.add(a)
+    connectedEndpoints.add(b)
+    const error = measure(a, b)
+    if (isExact(error)) continue
+    gaps.push({
+      endpoints: [a.ref, b.ref],
+      componentIds: [a.component.id, b.component.id],
+      ...error,
+      connected: true,
+    })
+  }
+
+  const openEndpoints = endpoints.filter((endpoint) => !connectedEndpoints.has(endpoint))
+  openEndpoints.forEach((a, index) => {
+    for (const b of openEndpoints.slice(index + 1)) {
+      if (a.ref.itemId === b.ref.itemId || a.widthMm !== b.widthMm) continue
+      if (Math.abs(a.pose.position.xMm - b.pose.position.xMm) > options.maxGapMm) continue
+      const error = measure(a, b)
+      if (error.positionGapMm > options.maxGapMm || error.angleErrorDeg > options.maxAngleDeg || isExact(error)) {
+        continue
+      }
+      gaps.push({
+        endpoints: [a.ref, b.ref],
+        componentIds: [a.component.id, b.component.id],
+        ...error,
+        connected: false,
+      })
+    }
+  })
+
+  return gaps.sort((a, b) => b.positionGapMm - a.positionGapMm || b.angleErrorDeg - a.angleErrorDeg)
+}
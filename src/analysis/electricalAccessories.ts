@@ -0,0 +1,10 @@
+import type { TrackComponentDefinition } from '../types/trackSystem'
+import type { LayoutEndpoint } from './layoutEndpoints'
+
+/** Feeder straights (e.g. PIKO's G231 with terminal box) are fed pieces without `hasFeeder` being set. */
+export const isFeederTrack = (component: TrackComponentDefinition | undefined) =>
+  component?.type === 'accessory' && component.meta?.kind === 'feeder'
+
+/** Isolating straights come with insulated joiners fitted at their start, so that joint needs no extra pair. */
+export const isInsulatedByTrack = ({ component, ref }: LayoutEndpoint) =>
+  component.type === 'accessory' && component.meta?.kind === 'isolating' && ref.connectorKey === 'start'
@@ -0,0 +1,216 @@
+import type { LayoutState } from '../types/layout'
+import type { ConnectorKey, TrackSystemDefinition } from '../types/trackSystem'
+import type { Vec2 } from '../geometry/geometryUtils'
+import { DEFAULT_TRACK_SYSTEM_METRICS, getTrackSystemMetrics } from '../geometry/trackSystemMetrics'
+import { findTrackProximities, type ClearanceEnvelopes, type TrackProximity } from './clearanceReport'
+import type { TopologyNodeId, TrackTopology } from './topology'
+
+export interface ElevationOptions {
+  /** Pieces steeper than this are reported */
+  maxGradePercent: number
+  /** Height one track must run above another where they cross, rail top to rail top */
+  verticalClearanceMm: number
+}
+
+export interface PieceElevation {
+  itemId: string
+  componentId: string
+  /** Rail height at every connector, set by hand or interpolated */
+  heightsMm: Record<ConnectorKey, number>
+  /** Where the connectors are, for interpolating heights in between */
+  positions: Record<ConnectorKey, Vec2>
+  /** Steepest route through the piece */
+  gradePercent: number
+  /** Mean connector height; pieces are stacked on the canvas by it */
+  levelMm: number
+}
+
+export interface LayoutElevation {
+  pieces: Map<string, PieceElevation>
+  /** Equal to the maximum when the whole layout is at one level */
+  minLevelMm: number
+  maxLevelMm: number
+}
+
+export interface VerticalClearanceIssue extends TrackProximity {
+  /** How far the upper track runs above the lower one at the closest approach */
+  heightDifferenceMm: number
+}
+
+export const DEFAULT_MAX_GRADE_PERCENT = 3
+
+/** Height differences below this are a level crossing, which the clearance report covers */
+const SAME_LEVEL_TOLERANCE_MM = 1
+
+export const getSteepPieceKey = (piece: PieceElevation) => `grade:${piece.itemId}`
+
+export const getVerticalClearanceKey = (issue: VerticalClearanceIssue) => `vertical:${issue.itemIds.join(':')}`
+
+export const getDefaultVerticalClearance = (system: TrackSystemDefinition | null | undefined) =>
+  (system ? getTrackSystemMetrics(system) : DEFAULT_TRACK_SYSTEM_METRICS).verticalClearanceMm
+
+/** Distances along the track from one set height, not running on past any other set height. */
+function measureFromAnchor(
+  topology: TrackTopology,
+  from: TopologyNodeId,
+  anchors: Map<TopologyNodeId, number>,
+): Map<TopologyNodeId, number> {
+  const distances = new Map<TopologyNodeId, number>([[from, 0]])
+  const settled = new Set<TopologyNodeId>()
+  const queue: { nodeId: TopologyNodeId; distance: number }[] = [{ nodeId: from, distance: 0 }]
+
+  while (queue.length > 0) {
+    let bestIndex = 0
+    for (let i = 1; i < queue.length; i += 1) {
+      if (queue[i].distance < queue[bestIndex].distance) bestIndex = i
+    }
+    const current = queue.splice(bestIndex, 1)[0]
+    if (settled.has(current.nodeId)) continue
+    settled.add(current.nodeId)
+    if (current.nodeId !== from && anchors.has(current.nodeId)) continue
+
+    for (const edge of topology.adjacency.get(current.nodeId) ?? []) {
+      const next = edge.from === current.nodeId ? edge.to : edge.from
+      const distance = current.distance + edge.lengthMm
+      if (distance < (distances.get(next) ?? Infinity)) {
+        distances.set(next, distance)
+        queue.push({ nodeId: next, distance })
+      }
+    }
+  }
+  return distances
+}
+
+/**
+ * Rail heights of every piece from the heights set on individual connectors. Between two set heights
+ * the track climbs evenly along its length; track reaching only one set height stays level with it, and
+ * track reaching none lies on the baseboard.
+ */
+export function computeLayoutElevation(layout: LayoutState, topology: TrackTopology): LayoutElevation {
+  const anchors = new Map<TopologyNodeId, number>()
+  layout.placedItems.forEach((item) => {
+    Object.entries(item.heightsMm ?? {}).forEach(([connectorKey, heightMm]) => {
+      const nodeId = topology.resolveNode({ itemId: item.id, connectorKey })
+      if (nodeId) anchors.set(nodeId, heightMm)
+    })
+  })
+
+  // Inverse distance weighting blocked at every set height is exactly linear along a run of track
+  const weights = new Map<TopologyNodeId, { weighted: number; total: number; atAnchor: number[] }>()
+  anchors.forEach((heightMm, anchorId) => {
+    measureFromAnchor(topology, anchorId, anchors).forEach((distance, nodeId) => {
+      const entry = weights.get(nodeId) ?? { weighted: 0, total: 0, atAnchor: [] }
+      if (distance === 0) entry.atAnchor.push(heightMm)
+      else {
+        entry.weighted += heightMm / distance
+        entry.total += 1 / distance
+      }
+      weights.set(nodeId, entry)
+    })
+  })
+
+  const getHeight = (nodeId: TopologyNodeId) => {
+    const explicit = anchors.get(nodeId)
+    if (explicit !== undefined) return explicit
+    const entry = weights.get(nodeId)
+    if (!entry) return 0
+    if (entry.atAnchor.length > 0) return entry.atAnchor.reduce((sum, value) => sum + value, 0) / entry.atAnchor.length
+    return entry.weighted / entry.total
+  }
+
+  const pieces = new Map<string, PieceElevation>()
+  topology.nodes.forEach((endpoint, nodeId) => {
+    const { item, component, ref, pose } = endpoint
+    const piece = pieces.get(item.id) ?? {
+      itemId: item.id,
+      componentId: component.id,
+      heightsMm: {},
+      positions: {},
+      gradePercent: 0,
+      levelMm: 0,
+    }
+    piece.heightsMm[ref.connectorKey] = getHeight(nodeId)
+    piece.positions[ref.connectorKey] = { x: pose.position.xMm, y: pose.position.yMm }
+    pieces.set(item.id, piece)
+  })
+
+  topology.edges.forEach((edge) => {
+    const piece = edge.kind === 'route' && edge.itemId ? pieces.get(edge.itemId) : undefined
+    if (!piece || edge.lengthMm <= 0) return
+    const gradePercent = (Math.abs(getHeight(edge.from) - getHeight(edge.to)) / edge.lengthMm) * 100
+    piece.gradePercent = Math.max(piece.gradePercent, gradePercent)
+  })
+
+  let minLevelMm = Infinity
+  let maxLevelMm = -Infinity
+  pieces.forEach((piece) => {
+    const heights = Object.values(piece.heightsMm)
+    piece.levelMm = heights.reduce((sum, value) => sum + value, 0) / heights.length
+    minLevelMm = Math.min(minLevelMm, piece.levelMm)
+    maxLevelMm = Math.max(maxLevelMm, piece.levelMm)
+  })
+
+  return pieces.size > 0 ? { pieces, minLevelMm, maxLevelMm } : { pieces, minLevelMm: 0, maxLevelMm: 0 }
+}
+
+/** Rail height of a piece near a point, interpolated between its two closest connectors. */
+export function getHeightAt(piece: PieceElevation, point: Vec2): number {
+  const nearest = Object.entries(piece.positions)
+    .map(([key, position]) => ({
+      heightMm: piece.heightsMm[key],
+      distance: Math.hypot(position.x - point.x, position.y - point.y),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+  if (nearest.length === 0) return 0
+  if (nearest.length === 1 || nearest[0].distance === 0) return nearest[0].heightMm
+  const [a, b] = nearest
+  return (a.heightMm * b.distance + b.heightMm * a.distance) / (a.distance + b.distance)
+}
+
+/** Height between two tracks where they come close; positive when the first runs above the second. */
+export function getHeightDifference(elevation: LayoutElevation, proximity: TrackProximity): number {
+  const [first, second] = proximity.itemIds.map((itemId) => elevation.pieces.get(itemId))
+  if (!first || !second) return 0
+  return getHeightAt(first, proximity.point) - getHeightAt(second, proximity.point)
+}
+
+/** Pieces that are steeper than the maximum grade, steepest first. */
+export const findSteepPieces = (elevation: LayoutElevation, maxGradePercent: number) =>
+  Array.from(elevation.pieces.values())
+    .filter((piece) => piece.gradePercent > maxGradePercent)
+    .sort((a, b) => b.gradePercent - a.gradePercent)
+
+/**
+ * Tracks that pass over each other with less than the vertical clearance between them, tightest first.
+ * Crossings at the same level are left to the clearance report.
+ */
+export function findVerticalClearanceIssues(
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  elevation: LayoutElevation,
+  verticalClearanceMm: number,
+  envelopes: ClearanceEnvelopes = {},
+): VerticalClearanceIssue[] {
+  return findTrackProximities(layout, trackSystems, envelopes)
+    .map((proximity) => ({ ...proximity, heightDifferenceMm: Math.abs(getHeightDifference(elevation, proximity)) }))
+    .filter(
+      ({ heightDifferenceMm }) => heightDifferenceMm >= SAME_LEVEL_TOLERANCE_MM && heightDifferenceMm < verticalClearanceMm,
+    )
+    .sort((a, b) => a.heightDifferenceMm - b.heightDifferenceMm)
+}
+
+/** The lower piece of every pair of tracks that pass over each other, to draw as an underpass. */
+export function findUnderpassItemIds(
+  layout: LayoutState,
+  trackSystems: TrackSystemDefinition[],
+  elevation: LayoutElevation,
+  envelopes: ClearanceEnvelopes = {},
+): Set<string> {
+  const itemIds = new Set<string>()
+  findTrackProximities(layout, trackSystems, envelopes).forEach((proximity) => {
+    const difference = getHeightDifference(elevation, proximity)
+    if (Math.abs(difference) < SAME_LEVEL_TOLERANCE_MM) return
+    itemIds.add(difference > 0 ? proximity.itemIds[1] : proximity.itemIds[0])
+  })
+  return itemIds
+}
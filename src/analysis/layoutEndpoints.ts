@@ -0,0 +1,70 @@
+import type { LayoutState, PlacedItem } from '../types/layout'
+import type { ConnectorKey, EndpointRef, TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { getEndpointPose, type EndpointPose } from '../geometry/trackEndpoint'
+import { getPlacedItemGeometry } from '../geometry/trackGeometry'
+import { DEFAULT_TRACK_SYSTEM_METRICS, getTrackSystemMetrics } from '../geometry/trackSystemMetrics'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+
+export interface LayoutEndpoint {
+  ref: EndpointRef
+  item: PlacedItem
+  component: TrackComponentDefinition
+  pose: EndpointPose
+  widthMm: number
+  /** Other connector keys of the same item sitting on this exact spot (e.g. a switch's `branch`/`diverging`) */
+  aliasKeys: ConnectorKey[]
+}
+
+const ALIAS_TOLERANCE_MM = 1e-6
+
+/**
+ * World poses of every connector in the layout. Connectors that are aliases of each other are reported
+ * once, under the key a connection actually uses if there is one.
+ */
+export function listLayoutEndpoints(layout: LayoutState, trackSystems: TrackSystemDefinition[]): LayoutEndpoint[] {
+  const componentMap = buildComponentLookup(trackSystems)
+  const metricsBySystem = new Map(trackSystems.map((system) => [system.id, getTrackSystemMetrics(system)]))
+  const connectedKeys = new Set<string>()
+  for (const connection of layout.connections ?? []) {
+    connection.endpoints.forEach(({ itemId, connectorKey }) => connectedKeys.add(`${itemId}:${connectorKey}`))
+  }
+
+  const endpoints: LayoutEndpoint[] = []
+  layout.placedItems.forEach((item) => {
+    const component = componentMap.get(getItemComponentKey(item))
+    if (!component) return
+    const widthMm = (metricsBySystem.get(item.trackSystemId) ?? DEFAULT_TRACK_SYSTEM_METRICS).sleeperWidthMm
+    const geometry = getPlacedItemGeometry(component, item, widthMm)
+    const connectors = [
+      { key: 'start', local: geometry.start },
+      { key: 'end', local: geometry.end },
+      ...Object.entries(geometry.extraConnectors ?? {}).map(([key, local]) => ({ key, local })),
+    ]
+
+    const itemEndpoints: LayoutEndpoint[] = []
+    connectors.forEach(({ key, local }) => {
+      const pose = getEndpointPose(item, local)
+      const alias = itemEndpoints.find(
+        (existing) =>
+          Math.hypot(
+            existing.pose.position.xMm - pose.position.xMm,
+            existing.pose.position.yMm - pose.position.yMm,
+          ) < ALIAS_TOLERANCE_MM &&
+          existing.pose.direction.x * pose.direction.x + existing.pose.direction.y * pose.direction.y > 0.999,
+      )
+      if (!alias) {
+        itemEndpoints.push({ ref: { itemId: item.id, connectorKey: key }, item, component, pose, widthMm, aliasKeys: [] })
+        return
+      }
+      if (!connectedKeys.has(`${item.id}:${alias.ref.connectorKey}`) && connectedKeys.has(`${item.id}:${key}`)) {
+        alias.aliasKeys.push(alias.ref.connectorKey)
+        alias.ref = { itemId: item.id, connectorKey: key }
+      } else {
+        alias.aliasKeys.push(key)
+      }
+    })
+    endpoints.push(...itemEndpoints)
+  })
+
+  return endpoints
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { findReversingSections } from './polarity'
+import { buildTrackTopology } from './topology'
+import { createDefaultLayoutState } from '../state/layoutState'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { EndpointConnection, LayoutState, PlacedItem } from '../types/layout'
+
+const place = (id: string, componentId: string): PlacedItem => ({
+  id,
+  trackSystemId: pikoA_H0.id,
+  componentId,
+  x: 0,
+  y: 0,
+  rotationDeg: 0,
+})
+
+const join = (first: string, firstKey: string, second: string, secondKey: string): EndpointConnection => ({
+  endpoints: [
+    { itemId: first, connectorKey: firstKey },
+    { itemId: second, connectorKey: secondKey },
+  ],
+})
+
+describe('findReversingSections', () => {
+  it('marks the loop joint an isolating track already insulates', () => {
+    // The loop leaves the switch straight ahead and comes back into its branch the other way round
+    const layout: LayoutState = {
+      ...createDefaultLayoutState(),
+      placedItems: [place('switch', 'WL'), place('isolating', 'G231-I'), place('plain', 'G231')],
+      connections: [
+        join('switch', 'end', 'isolating', 'start'),
+        join('isolating', 'end', 'plain', 'end'),
+        join('plain', 'start', 'switch', 'branch'),
+      ],
+    }
+
+    const [section] = findReversingSections(buildTrackTopology(layout, [pikoA_H0]))
+    expect(section.kind).toBe('reversing-loop')
+    const provided = section.insulatedJoints.filter((joint) => joint.providedByTrack)
+    expect(provided.map((joint) => joint.endpoints.map((endpoint) => endpoint.itemId).sort())).toEqual([
+      ['isolating', 'switch'],
+    ])
+    expect(section.insulatedJoints).toHaveLength(2)
+  })
+})
@@ -0,0 +1,225 @@
+import type { EndpointRef } from '../types/trackSystem'
+import type { LayoutEndpoint } from './layoutEndpoints'
+import { getItemTrackLengths, type TopologyNodeId, type TrackTopology } from './topology'
+import { isInsulatedByTrack } from './electricalAccessories'
+
+export type ReversingSectionKind = 'reversing-loop' | 'wye' | 'turntable'
+
+/** A joint that needs insulated joiners in both rails. */
+export interface InsulatedJoint {
+  endpoints: [EndpointRef, EndpointRef]
+  position: { xMm: number; yMm: number }
+  /** An isolating track already brings the insulated joiners for this joint */
+  providedByTrack: boolean
+}
+
+export interface ReversingSection {
+  kind: ReversingSectionKind
+  /** Pieces that have to be wired as one reversing section, e.g. behind an auto-reverser */
+  itemIds: string[]
+  /** Joints bounding the section */
+  insulatedJoints: InsulatedJoint[]
+  /** Track length of the section; the longest train that may stop in it */
+  lengthMm: number
+}
+
+export const REVERSING_SECTION_LABELS: Record<ReversingSectionKind, string> = {
+  'reversing-loop': 'Reversing loop',
+  wye: 'Wye',
+  turntable: 'Turntable-style conflict',
+}
+
+/**
+ * Pieces and crossing tracks whose rails are fixed relative to each other. A crossing's two tracks are
+ * insulated at the frog, so each gets its own unit.
+ */
+type PolarityUnit = {
+  id: string
+  itemId: string
+  isSwitch: boolean
+}
+
+type UnitJoint = {
+  from: string
+  to: string
+  fromNode: TopologyNodeId
+  toNode: TopologyNodeId
+  /** +1 when both units must run the same way round, -1 when one is flipped */
+  parity: 1 | -1
+}
+
+/**
+ * Connectors a train enters a piece through when running "forwards" get -1, the ones it leaves through
+ * +1. Looking outward from a connector, the left rail is rail A when `orientation * side` is +1. A
+ * turntable's bridge swaps its rails as it turns, so every track on the pit counts as a way out.
+ */
+const getConnectorSide = ({ component, ref }: LayoutEndpoint) => {
+  if (component.type === 'turntable') return 1
+  return /^start\d*$/.test(ref.connectorKey) || ref.connectorKey === 'crossStart' ? -1 : 1
+}
+
+export const getInsulatedJointKey = (joint: InsulatedJoint) =>
+  joint.endpoints
+    .map((endpoint) => `${endpoint.itemId}:${endpoint.connectorKey}`)
+    .sort()
+    .join('|')
+
+/**
+ * Finds track loops that bring a train back with its rails swapped. The layout's pieces are two-coloured
+ * by rail orientation across every joint; each joint that contradicts the colouring closes a loop whose
+ * rails short. For every such loop the longest stretch between two reversal points is proposed as the
+ * section to isolate.
+ */
+export function findReversingSections(topology: TrackTopology): ReversingSection[] {
+  const units = new Map<string, PolarityUnit>()
+  const unitByNode = new Map<TopologyNodeId, string>()
+  topology.nodes.forEach((endpoint, nodeId) => {
+    const { itemId, connectorKey } = endpoint.ref
+    const isCrossTrack =
+      endpoint.component.type === 'crossing' && (connectorKey === 'crossStart' || connectorKey === 'crossEnd')
+    const unitId = isCrossTrack ? `${itemId}#cross` : itemId
+    unitByNode.set(nodeId, unitId)
+    if (!units.has(unitId)) {
+      units.set(unitId, { id: unitId, itemId, isSwitch: endpoint.component.type === 'switch' })
+    }
+  })
+
+  const jointsByUnit = new Map<string, UnitJoint[]>()
+  units.forEach((_, unitId) => jointsByUnit.set(unitId, []))
+  topology.edges.forEach((edge) => {
+    if (edge.kind !== 'connection') return
+    const from = unitByNode.get(edge.from)
+    const to = unitByNode.get(edge.to)
+    if (!from || !to) return
+    const fromSide = getConnectorSide(topology.nodes.get(edge.from)!)
+    const toSide = getConnectorSide(topology.nodes.get(edge.to)!)
+    // Mating connectors face opposite ways, so one's left rail is the other's right rail
+    const joint: UnitJoint = { from, to, fromNode: edge.from, toNode: edge.to, parity: fromSide * toSide > 0 ? -1 : 1 }
+    jointsByUnit.get(from)!.push(joint)
+    if (to !== from) jointsByUnit.get(to)!.push(joint)
+  })
+
+  const orientation = new Map<string, 1 | -1>()
+  const depth = new Map<string, number>()
+  const parent = new Map<string, { unitId: string; joint: UnitJoint }>()
+  const conflicts: UnitJoint[] = []
+  const seenJoints = new Set<UnitJoint>()
+
+  units.forEach((_, rootId) => {
+    if (orientation.has(rootId)) return
+    orientation.set(rootId, 1)
+    depth.set(rootId, 0)
+    const queue = [rootId]
+    while (queue.length > 0) {
+      const unitId = queue.shift()!
+      jointsByUnit.get(unitId)!.forEach((joint) => {
+        if (seenJoints.has(joint)) return
+        seenJoints.add(joint)
+        const otherId = joint.from === unitId ? joint.to : joint.from
+        const expected = (orientation.get(unitId)! * joint.parity) as 1 | -1
+        const existing = orientation.get(otherId)
+        if (existing === undefined) {
+          orientation.set(otherId, expected)
+          depth.set(otherId, depth.get(unitId)! + 1)
+          parent.set(otherId, { unitId, joint })
+          queue.push(otherId)
+        } else if (existing !== expected) {
+          conflicts.push(joint)
+        }
+      })
+    }
+  })
+
+  const routeLengthByItem = getItemTrackLengths(topology)
+
+  const toInsulatedJoint = (joint: UnitJoint): InsulatedJoint => {
+    const from = topology.nodes.get(joint.fromNode)!
+    const to = topology.nodes.get(joint.toNode)!
+    return {
+      endpoints: [from.ref, to.ref],
+      position: {
+        xMm: (from.pose.position.xMm + to.pose.position.xMm) / 2,
+        yMm: (from.pose.position.yMm + to.pose.position.yMm) / 2,
+      },
+      providedByTrack: isInsulatedByTrack(from) || isInsulatedByTrack(to),
+    }
+  }
+
+  const sections: ReversingSection[] = []
+  const seenSections = new Set<string>()
+
+  conflicts.forEach((conflict) => {
+    // Walk both ends of the contradicting joint up the BFS tree to close the loop
+    const climbA = [conflict.from]
+    const jointsA: UnitJoint[] = []
+    const climbB = [conflict.to]
+    const jointsB: UnitJoint[] = []
+    const climb = (path: string[], joints: UnitJoint[]) => {
+      const step = parent.get(path[path.length - 1])!
+      joints.push(step.joint)
+      path.push(step.unitId)
+    }
+    while (depth.get(climbA[climbA.length - 1])! > depth.get(climbB[climbB.length - 1])!) climb(climbA, jointsA)
+    while (depth.get(climbB[climbB.length - 1])! > depth.get(climbA[climbA.length - 1])!) climb(climbB, jointsB)
+    while (climbA[climbA.length - 1] !== climbB[climbB.length - 1]) {
+      climb(climbA, jointsA)
+      climb(climbB, jointsB)
+    }
+
+    // cycleJoints[i] joins cycleUnits[i] to cycleUnits[i + 1], wrapping around
+    const cycleUnits = [...climbA.slice().reverse(), ...climbB.slice(0, -1)]
+    const cycleJoints = [...jointsA.slice().reverse(), conflict, ...jointsB]
+    const count = cycleUnits.length
+    const nodeOn = (joint: UnitJoint, unitId: string) => (joint.from === unitId ? joint.fromNode : joint.toNode)
+
+    // A unit the loop enters and leaves through connectors on the same side turns the train around
+    const reversalIndices = cycleUnits
+      .map((unitId, index) => {
+        const entry = nodeOn(cycleJoints[(index - 1 + count) % count], unitId)
+        const exit = nodeOn(cycleJoints[index], unitId)
+        const entrySide = getConnectorSide(topology.nodes.get(entry)!)
+        const exitSide = getConnectorSide(topology.nodes.get(exit)!)
+        return entrySide === exitSide ? index : -1
+      })
+      .filter((index) => index >= 0)
+
+    const turntableIndex = reversalIndices.find((index) => !units.get(cycleUnits[index])!.isSwitch)
+    let sectionIndices: number[]
+    let boundaryJoints: UnitJoint[]
+    if (turntableIndex !== undefined || reversalIndices.length === 0) {
+      // A piece that turns the train round on its own is isolated by itself, like a turntable bridge
+      const index = turntableIndex ?? cycleUnits.indexOf(conflict.to)
+      sectionIndices = [index]
+      boundaryJoints = [cycleJoints[(index - 1 + count) % count], cycleJoints[index]]
+    } else {
+      let best = { start: reversalIndices[0], length: -1 }
+      reversalIndices.forEach((start, position) => {
+        const next = reversalIndices[(position + 1) % reversalIndices.length]
+        const length = next > start ? next - start - 1 : next + count - start - 1
+        if (length > best.length) best = { start, length }
+      })
+      sectionIndices = Array.from({ length: best.length }, (_, offset) => (best.start + 1 + offset) % count)
+      boundaryJoints = [cycleJoints[best.start], cycleJoints[(best.start + best.length) % count]]
+    }
+
+    const insulatedJoints = Array.from(new Set(boundaryJoints)).map(toInsulatedJoint)
+    const key = insulatedJoints.map(getInsulatedJointKey).sort().join('&')
+    if (seenSections.has(key)) return
+    seenSections.add(key)
+
+    const itemIds = Array.from(new Set(sectionIndices.map((index) => units.get(cycleUnits[index])!.itemId)))
+    sections.push({
+      kind:
+        turntableIndex !== undefined || reversalIndices.length === 0
+          ? 'turntable'
+          : reversalIndices.length === 1
+            ? 'reversing-loop'
+            : 'wye',
+      itemIds,
+      insulatedJoints,
+      lengthMm: itemIds.reduce((total, itemId) => total + (routeLengthByItem.get(itemId) ?? 0), 0),
+    })
+  })
+
+  return sections
+}
@@ -0,0 +1,159 @@
+import type { ConnectorKey, EndpointRef, TrackComponentDefinition } from '../types/trackSystem'
+import type { TopologyEdge, TopologyNodeId, TrackTopology } from './topology'
+
+export interface RouteStep {
+  itemId: string
+  componentId: string
+  fromKey: ConnectorKey
+  toKey: ConnectorKey
+  lengthMm: number
+}
+
+export interface SwitchSetting {
+  itemId: string
+  componentId: string
+  /** Human readable position, e.g. "diverging", "crossStart → end" for a double slip or "track3 → end" for a turntable */
+  setting: string
+}
+
+export interface TrackRoute {
+  steps: RouteStep[]
+  lengthMm: number
+  switchSettings: SwitchSetting[]
+}
+
+/**
+ * Search state: the connector the train is at and whether it has just entered a piece (and must run
+ * through it) or has just left one (and must cross a joint). Alternating the two is what keeps a train
+ * from reversing inside a switch.
+ */
+type Phase = 'enter' | 'exit'
+type StateKey = string
+
+const stateKey = (nodeId: TopologyNodeId, phase: Phase): StateKey => `${phase}|${nodeId}`
+
+const LEG_LABELS: Record<string, string> = {
+  end: 'straight',
+  branch: 'diverging',
+  diverging: 'diverging',
+  inner: 'inner',
+  leftBranch: 'left',
+  rightBranch: 'right',
+  left: 'left',
+  right: 'right',
+}
+
+export function describeSwitchSetting(
+  component: TrackComponentDefinition,
+  fromKey: ConnectorKey,
+  toKey: ConnectorKey,
+): string {
+  const leg = fromKey === 'start' ? toKey : toKey === 'start' ? fromKey : null
+  if (!leg) return `${fromKey} → ${toKey}`
+  if (leg === 'end' && component.meta?.variant === 'curved-switch') return 'outer'
+  if (leg === 'end' && component.meta?.variant === 'y-switch') return 'left'
+  return LEG_LABELS[leg] ?? `${fromKey} → ${toKey}`
+}
+
+type SearchResult = {
+  distances: Map<StateKey, number>
+  previous: Map<StateKey, { state: StateKey; edge: TopologyEdge }>
+}
+
+/** Dijkstra over (connector, phase) states starting with the train entering the piece at `from`. */
+function searchRoutes(topology: TrackTopology, from: TopologyNodeId): SearchResult {
+  const distances = new Map<StateKey, number>()
+  const previous = new Map<StateKey, { state: StateKey; edge: TopologyEdge }>()
+  const settled = new Set<StateKey>()
+  const start = stateKey(from, 'enter')
+  distances.set(start, 0)
+  const queue: { key: StateKey; nodeId: TopologyNodeId; phase: Phase; distance: number }[] = [
+    { key: start, nodeId: from, phase: 'enter', distance: 0 },
+  ]
+
+  while (queue.length > 0) {
+    let bestIndex = 0
+    for (let i = 1; i < queue.length; i += 1) {
+      if (queue[i].distance < queue[bestIndex].distance) bestIndex = i
+    }
+    const current = queue.splice(bestIndex, 1)[0]
+    if (settled.has(current.key)) continue
+    settled.add(current.key)
+
+    const wantedKind = current.phase === 'enter' ? 'route' : 'connection'
+    const nextPhase: Phase = current.phase === 'enter' ? 'exit' : 'enter'
+    topology.adjacency.get(current.nodeId)?.forEach((edge) => {
+      if (edge.kind !== wantedKind) return
+      const nextNode = edge.from === current.nodeId ? edge.to : edge.from
+      const nextKey = stateKey(nextNode, nextPhase)
+      const distance = current.distance + edge.lengthMm
+      if (distance >= (distances.get(nextKey) ?? Number.POSITIVE_INFINITY)) return
+      distances.set(nextKey, distance)
+      previous.set(nextKey, { state: current.key, edge })
+      queue.push({ key: nextKey, nodeId: nextNode, phase: nextPhase, distance })
+    })
+  }
+
+  return { distances, previous }
+}
+
+/**
+ * Shortest route that enters the layout at `from` and leaves it at `to`, running through switches only
+ * along their legal routes. Returns null when `to` cannot be reached without reversing.
+ */
+export function findRoute(topology: TrackTopology, from: EndpointRef, to: EndpointRef): TrackRoute | null {
+  const fromNode = topology.resolveNode(from)
+  const toNode = topology.resolveNode(to)
+  if (!fromNode || !toNode) return null
+
+  const { distances, previous } = searchRoutes(topology, fromNode)
+  const goal = stateKey(toNode, 'exit')
+  const lengthMm = distances.get(goal)
+  if (lengthMm === undefined) return null
+
+  const steps: RouteStep[] = []
+  const switchSettings: SwitchSetting[] = []
+  let cursor: StateKey | undefined = goal
+  while (cursor && previous.has(cursor)) {
+    const { state, edge }: { state: StateKey; edge: TopologyEdge } = previous.get(cursor)!
+    if (edge.kind === 'route') {
+      const exitNode = cursor.slice(cursor.indexOf('|') + 1)
+      const entry = topology.nodes.get(exitNode === edge.to ? edge.from : edge.to)!
+      const exit = topology.nodes.get(exitNode)!
+      steps.unshift({
+        itemId: entry.ref.itemId,
+        componentId: entry.component.id,
+        fromKey: entry.ref.connectorKey,
+        toKey: exit.ref.connectorKey,
+        lengthMm: edge.lengthMm,
+      })
+      if (entry.component.type === 'switch') {
+        switchSettings.unshift({
+          itemId: entry.ref.itemId,
+          componentId: entry.component.id,
+          setting: describeSwitchSetting(entry.component, entry.ref.connectorKey, exit.ref.connectorKey),
+        })
+      } else if (entry.component.type === 'turntable' || entry.component.type === 'traverser') {
+        switchSettings.unshift({
+          itemId: entry.ref.itemId,
+          componentId: entry.component.id,
+          setting: `${entry.ref.connectorKey} → ${exit.ref.connectorKey}`,
+        })
+      }
+    }
+    cursor = state
+  }
+
+  return { steps, lengthMm, switchSettings }
+}
+
+/** Open ends a train entering at `from` can never leave through, e.g. sidings facing the wrong way. */
+export function findUnreachableEnds(topology: TrackTopology, from: EndpointRef, openEnds: EndpointRef[]): EndpointRef[] {
+  const fromNode = topology.resolveNode(from)
+  if (!fromNode) return openEnds
+  const { distances } = searchRoutes(topology, fromNode)
+  return openEnds.filter((endpoint) => {
+    const nodeId = topology.resolveNode(endpoint)
+    return nodeId !== fromNode && (!nodeId || !distances.has(stateKey(nodeId, 'exit')))
+  })
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { listSwitches, storeDefaultSwitchOperations } from './switchInventory'
+import { createDefaultLayoutState } from '../state/layoutState'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { PlacedItem, SwitchOperation } from '../types/layout'
+
+const place = (id: string, componentId: string, switchOperation?: Partial<SwitchOperation>): PlacedItem => ({
+  id,
+  trackSystemId: pikoA_H0.id,
+  componentId,
+  x: 0,
+  y: 0,
+  rotationDeg: 0,
+  ...(switchOperation && {
+    switchOperation: { addresses: [], motorType: 'manual', defaultPosition: 'straight', name: '', ...switchOperation },
+  }),
+})
+
+describe('listSwitches', () => {
+  it('names unconfigured switches with the lowest free W<n>', () => {
+    const layout = {
+      ...createDefaultLayoutState(),
+      placedItems: [
+        place('first', 'WL'),
+        place('straight', 'G239'),
+        place('named', 'WR', { name: 'W1' }),
+        place('second', 'W3'),
+        place('custom', 'WL', { name: 'W3' }),
+        place('third', 'WR'),
+      ],
+    }
+
+    const names = Object.fromEntries(
+      listSwitches(layout, [pikoA_H0]).map((entry) => [entry.itemId, entry.operation.name]),
+    )
+    expect(names).toEqual({ first: 'W2', named: 'W1', second: 'W4', custom: 'W3', third: 'W5' })
+  })
+
+  it('keeps stored default names when another switch is removed', () => {
+    const layout = storeDefaultSwitchOperations(
+      {
+        ...createDefaultLayoutState(),
+        placedItems: [place('first', 'WL'), place('second', 'WR'), place('third', 'W3')],
+      },
+      [pikoA_H0],
+    )
+    expect(storeDefaultSwitchOperations(layout, [pikoA_H0])).toBe(layout)
+
+    const withoutFirst = { ...layout, placedItems: layout.placedItems.filter((item) => item.id !== 'first') }
+    const names = listSwitches(withoutFirst, [pikoA_H0]).map((entry) => entry.operation.name)
+    expect(names).toEqual(['W2', 'W3'])
+  })
+})
@@ -0,0 +1,128 @@
+import type { LayoutState, SwitchOperation } from '../types/layout'
+import type { TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { getComponentGeometry } from '../geometry/trackGeometry'
+import { MAX_DCC_ACCESSORY_ADDRESS, MIN_DCC_ACCESSORY_ADDRESS } from '../constants/switchInventory'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+import { describeSwitchSetting } from './routeFinder'
+import { getInternalRoutes } from './topology'
+
+export interface SwitchInventoryEntry {
+  itemId: string
+  component: TrackComponentDefinition
+  /** Stored operation data, or generated defaults for switches nobody has configured yet */
+  operation: SwitchOperation
+  isConfigured: boolean
+}
+
+export interface SwitchAddressIssue {
+  itemIds: string[]
+  message: string
+}
+
+/** Three-way switches and double slips are thrown by two drives, everything else by one. */
+export const getSwitchAddressCount = (component: TrackComponentDefinition) =>
+  component.meta?.variant === 'three-way' || component.meta?.variant === 'double-slip' ? 2 : 1
+
+/** Positions a switch can be thrown to, labelled the way the route finder reports them. */
+export function getSwitchPositions(component: TrackComponentDefinition): string[] {
+  const geometry = getComponentGeometry(component)
+  const keys = ['start', 'end', ...Object.keys(geometry.extraConnectors ?? {})]
+  const labels = getInternalRoutes(component.type, keys).map(([from, to]) => describeSwitchSetting(component, from, to))
+  return Array.from(new Set(labels))
+}
+
+/** Lowest `W<n>` that neither the user nor an earlier default has taken; claims it in `usedNames`. */
+const claimDefaultName = (usedNames: Set<string>) => {
+  let number = 1
+  while (usedNames.has(`W${number}`)) number += 1
+  const name = `W${number}`
+  usedNames.add(name)
+  return name
+}
+
+const buildDefaultOperation = (component: TrackComponentDefinition, name: string): SwitchOperation => ({
+  name,
+  addresses: [],
+  motorType: 'manual',
+  defaultPosition: getSwitchPositions(component)[0] ?? '',
+})
+
+/** Every switch in the layout in placement order, with its operation data. */
+export function listSwitches(layout: LayoutState, trackSystems: TrackSystemDefinition[]): SwitchInventoryEntry[] {
+  const componentMap = buildComponentLookup(trackSystems)
+  const entries: SwitchInventoryEntry[] = []
+  const usedNames = new Set<string>()
+  layout.placedItems.forEach((item) => {
+    if (item.switchOperation) usedNames.add(item.switchOperation.name)
+  })
+  layout.placedItems.forEach((item) => {
+    const component = componentMap.get(getItemComponentKey(item))
+    if (component?.type !== 'switch') return
+    entries.push({
+      itemId: item.id,
+      component,
+      operation: item.switchOperation ?? buildDefaultOperation(component, claimDefaultName(usedNames)),
+      isConfigured: Boolean(item.switchOperation),
+    })
+  })
+  return entries
+}
+
+/**
+ * Stores the generated default operation on every switch that has none, so its name stays put when
+ * other switches are added, renamed or removed. Returns `layout` itself when every switch has one.
+ */
+export function storeDefaultSwitchOperations(layout: LayoutState, trackSystems: TrackSystemDefinition[]): LayoutState {
+  const defaults = new Map(
+    listSwitches(layout, trackSystems)
+      .filter((entry) => !entry.isConfigured)
+      .map((entry) => [entry.itemId, entry.operation]),
+  )
+  if (defaults.size === 0) return layout
+  return {
+    ...layout,
+    placedItems: layout.placedItems.map((item) => {
+      const operation = defaults.get(item.id)
+      return operation ? { ...item, switchOperation: operation } : item
+    }),
+  }
+}
+
+/** Duplicate, out-of-range and missing accessory addresses. */
+export function validateSwitchAddresses(entries: SwitchInventoryEntry[]): SwitchAddressIssue[] {
+  const issues: SwitchAddressIssue[] = []
+  const itemsByAddress = new Map<number, string[]>()
+
+  entries.forEach(({ itemId, component, operation }) => {
+    const required = getSwitchAddressCount(component)
+    if (operation.motorType !== 'manual' && operation.addresses.length < required) {
+      issues.push({
+        itemIds: [itemId],
+        message: `${operation.name} needs ${required} ${required === 1 ? 'address' : 'addresses'}`,
+      })
+    }
+    new Set(operation.addresses).forEach((address) => {
+      if (address < MIN_DCC_ACCESSORY_ADDRESS || address > MAX_DCC_ACCESSORY_ADDRESS) {
+        issues.push({
+          itemIds: [itemId],
+          message: `${operation.name}: address ${address} is outside ${MIN_DCC_ACCESSORY_ADDRESS}–${MAX_DCC_ACCESSORY_ADDRESS}`,
+        })
+      }
+      itemsByAddress.set(address, [...(itemsByAddress.get(address) ?? []), itemId])
+    })
+    if (new Set(operation.addresses).size < operation.addresses.length) {
+      issues.push({ itemIds: [itemId], message: `${operation.name} uses the same address for both drives` })
+    }
+  })
+
+  const nameByItem = new Map(entries.map((entry) => [entry.itemId, entry.operation.name]))
+  itemsByAddress.forEach((itemIds, address) => {
+    if (itemIds.length < 2) return
+    issues.push({
+      itemIds,
+      message: `Address ${address} is used by ${itemIds.map((itemId) => nameByItem.get(itemId)).join(', ')}`,
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,258 @@
+import type { EndpointConnection, LayoutState } from '../types/layout'
+import type { ConnectorKey, EndpointRef, TrackSystemDefinition } from '../types/trackSystem'
+import { toRad } from '../geometry/geometryUtils'
+import { getDefaultFlexControlPoints, getFlexLength, isFlexControlPoints } from '../geometry/flexTrack'
+import { getBridgeLengthMm } from '../geometry/trackGeometry'
+import { listLayoutEndpoints, type LayoutEndpoint } from './layoutEndpoints'
+
+export type TopologyNodeId = string
+
+/** A way through the track: either a route inside one piece or a joint between two pieces. */
+export interface TopologyEdge {
+  kind: 'route' | 'connection'
+  from: TopologyNodeId
+  to: TopologyNodeId
+  /** Piece the route runs through; unset for joints */
+  itemId?: string
+  lengthMm: number
+}
+
+export interface TrackTopology {
+  /** One node per connector; aliases of the same connector share a node */
+  nodes: Map<TopologyNodeId, LayoutEndpoint>
+  edges: TopologyEdge[]
+  adjacency: Map<TopologyNodeId, TopologyEdge[]>
+  /** Maps any connector key, including aliases, to its node */
+  resolveNode(ref: EndpointRef): TopologyNodeId | null
+  /** Joints whose endpoints do not resolve to a node */
+  danglingConnections: DanglingConnection[]
+}
+
+export interface DanglingConnection {
+  connection: EndpointConnection
+  reason: string
+}
+
+export interface TrackNetwork {
+  itemIds: string[]
+  openEnds: EndpointRef[]
+  lengthMm: number
+}
+
+export interface TopologyReport {
+  networks: TrackNetwork[]
+  openEnds: EndpointRef[]
+  /** Pieces without a single joint */
+  isolatedItemIds: string[]
+  danglingConnections: DanglingConnection[]
+}
+
+export const getTopologyNodeId = (ref: EndpointRef): TopologyNodeId => `${ref.itemId}:${ref.connectorKey}`
+
+/**
+ * Connector pairs a train can run between inside a piece. Switches route from the toe (`start`) to each
+ * leg, crossings keep their two tracks apart, and a double slip adds both slip routes on top. The bridge
+ * of a turntable or transfer table can join any two of its tracks.
+ */
+export function getInternalRoutes(
+  type: LayoutEndpoint['component']['type'],
+  connectorKeys: ConnectorKey[],
+): [ConnectorKey, ConnectorKey][] {
+  const has = (key: ConnectorKey) => connectorKeys.includes(key)
+  if (type === 'turntable' || type === 'traverser') {
+    return connectorKeys.flatMap((from, index) =>
+      connectorKeys.slice(index + 1).map((to): [ConnectorKey, ConnectorKey] => [from, to]),
+    )
+  }
+  const isCrossingShape = has('crossStart') && has('crossEnd')
+
+  if (type === 'crossing' || (type === 'switch' && isCrossingShape)) {
+    const routes: [ConnectorKey, ConnectorKey][] = [
+      ['start', 'end'],
+      ['crossStart', 'crossEnd'],
+    ]
+    if (type === 'switch') {
+      routes.push(['start', 'crossEnd'], ['crossStart', 'end'])
+    }
+    return routes
+  }
+  if (type === 'switch') {
+    return connectorKeys.filter((key) => key !== 'start').map((key) => ['start', key])
+  }
+  return has('start') && has('end') ? [['start', 'end']] : []
+}
+
+/**
+ * Length along the track between two connectors of one piece, assuming a single circular arc between
+ * them (a straight when the tangents are parallel).
+ */
+const getRouteLengthMm = (a: LayoutEndpoint, b: LayoutEndpoint) => {
+  const chord = Math.hypot(a.pose.position.xMm - b.pose.position.xMm, a.pose.position.yMm - b.pose.position.yMm)
+  // Travel enters against a's outward direction and leaves along b's
+  const dot = -(a.pose.direction.x * b.pose.direction.x + a.pose.direction.y * b.pose.direction.y)
+  const turn = Math.acos(Math.min(1, Math.max(-1, dot)))
+  if (turn < toRad(0.01)) return chord
+  return (chord * (turn / 2)) / Math.sin(turn / 2)
+}
+
+export function buildTrackTopology(layout: LayoutState, trackSystems: TrackSystemDefinition[]): TrackTopology {
+  const endpoints = listLayoutEndpoints(layout, trackSystems)
+  const nodes = new Map<TopologyNodeId, LayoutEndpoint>()
+  const aliasToNode = new Map<string, TopologyNodeId>()
+  const endpointsByItem = new Map<string, LayoutEndpoint[]>()
+
+  endpoints.forEach((endpoint) => {
+    const id = getTopologyNodeId(endpoint.ref)
+    nodes.set(id, endpoint)
+    for (const key of [endpoint.ref.connectorKey, ...endpoint.aliasKeys]) {
+      aliasToNode.set(getTopologyNodeId({ itemId: endpoint.ref.itemId, connectorKey: key }), id)
+    }
+    const list = endpointsByItem.get(endpoint.ref.itemId)
+    if (list) list.push(endpoint)
+    else endpointsByItem.set(endpoint.ref.itemId, [endpoint])
+  })
+
+  const resolveNode = (ref: EndpointRef) => aliasToNode.get(getTopologyNodeId(ref)) ?? null
+  const edges: TopologyEdge[] = []
+
+  endpointsByItem.forEach((itemEndpoints, itemId) => {
+    const { component, item } = itemEndpoints[0]
+    const byKey = new Map(itemEndpoints.map((endpoint) => [endpoint.ref.connectorKey, endpoint]))
+    const flexLength =
+      component.type === 'flex'
+        ? getFlexLength(
+            isFlexControlPoints(item.controlPoints) ? item.controlPoints : getDefaultFlexControlPoints(component),
+          )
+        : null
+    // A train only ever runs across the bridge, whichever tracks it lines up with
+    const routeLengthMm = flexLength ?? getBridgeLengthMm(component)
+    getInternalRoutes(component.type, Array.from(byKey.keys())).forEach(([fromKey, toKey]) => {
+      const from = byKey.get(fromKey)
+      const to = byKey.get(toKey)
+      if (!from || !to) return
+      edges.push({
+        kind: 'route',
+        from: getTopologyNodeId(from.ref),
+        to: getTopologyNodeId(to.ref),
+        itemId,
+        lengthMm: routeLengthMm ?? getRouteLengthMm(from, to),
+      })
+    })
+  })
+
+  const itemIds = new Set(layout.placedItems.map((item) => item.id))
+  const danglingConnections: DanglingConnection[] = []
+  for (const connection of layout.connections ?? []) {
+    const [first, second] = connection.endpoints
+    const missingItem = [first, second].find((endpoint) => !itemIds.has(endpoint.itemId))
+    if (missingItem) {
+      danglingConnections.push({ connection, reason: `Piece ${missingItem.itemId} no longer exists` })
+      continue
+    }
+    const from = resolveNode(first)
+    const to = resolveNode(second)
+    if (!from || !to) {
+      const missing = from ? second : first
+      danglingConnections.push({ connection, reason: `Connector "${missing.connectorKey}" does not exist on its piece` })
+      continue
+    }
+    if (from === to) {
+      danglingConnections.push({ connection, reason: 'Connector is joined to itself' })
+      continue
+    }
+    edges.push({ kind: 'connection', from, to, lengthMm: 0 })
+  }
+
+  const adjacency = new Map<TopologyNodeId, TopologyEdge[]>()
+  nodes.forEach((_, id) => adjacency.set(id, []))
+  edges.forEach((edge) => {
+    adjacency.get(edge.from)?.push(edge)
+    adjacency.get(edge.to)?.push(edge)
+  })
+
+  return { nodes, edges, adjacency, resolveNode, danglingConnections }
+}
+
+/** Track length of every piece. Diverging routes share track with the main route, so each piece counts its longest route. */
+export function getItemTrackLengths(topology: TrackTopology): Map<string, number> {
+  const lengths = new Map<string, number>()
+  topology.edges.forEach((edge) => {
+    if (edge.kind !== 'route' || !edge.itemId) return
+    lengths.set(edge.itemId, Math.max(lengths.get(edge.itemId) ?? 0, edge.lengthMm))
+  })
+  return lengths
+}
+
+/** Networks of pieces joined by connections, plus the loose ends the layout still has. */
+export function analyzeTopology(topology: TrackTopology, layout: LayoutState): TopologyReport {
+  const connectedNodes = new Set<TopologyNodeId>()
+  topology.edges.forEach((edge) => {
+    if (edge.kind !== 'connection') return
+    connectedNodes.add(edge.from)
+    connectedNodes.add(edge.to)
+  })
+
+  // A crossing's two tracks never meet, but the piece still ties both into one network
+  const nodesByItem = new Map<string, TopologyNodeId[]>()
+  topology.nodes.forEach((endpoint, nodeId) => {
+    const list = nodesByItem.get(endpoint.ref.itemId)
+    if (list) list.push(nodeId)
+    else nodesByItem.set(endpoint.ref.itemId, [nodeId])
+  })
+
+  const itemLengths = getItemTrackLengths(topology)
+  const visited = new Set<TopologyNodeId>()
+  const networks: TrackNetwork[] = []
+  const openEnds: EndpointRef[] = []
+
+  topology.nodes.forEach((_, startId) => {
+    if (visited.has(startId)) return
+    const network: TrackNetwork = { itemIds: [], openEnds: [], lengthMm: 0 }
+    const countedItems = new Set<string>()
+    const stack = [startId]
+    visited.add(startId)
+
+    while (stack.length > 0) {
+      const nodeId = stack.pop()!
+      const endpoint = topology.nodes.get(nodeId)!
+      if (!countedItems.has(endpoint.ref.itemId)) {
+        countedItems.add(endpoint.ref.itemId)
+        network.itemIds.push(endpoint.ref.itemId)
+      }
+      if (!connectedNodes.has(nodeId)) network.openEnds.push(endpoint.ref)
+
+      const neighbours = [
+        ...(topology.adjacency.get(nodeId) ?? []).map((edge) => (edge.from === nodeId ? edge.to : edge.from)),
+        ...(nodesByItem.get(endpoint.ref.itemId) ?? []),
+      ]
+      neighbours.forEach((next) => {
+        if (visited.has(next)) return
+        visited.add(next)
+        stack.push(next)
+      })
+    }
+
+    network.lengthMm = network.itemIds.reduce((total, itemId) => total + (itemLengths.get(itemId) ?? 0), 0)
+    networks.push(network)
+    openEnds.push(...network.openEnds)
+  })
+
+  const joinedItemIds = new Set<string>()
+  connectedNodes.forEach((nodeId) => {
+    const endpoint = topology.nodes.get(nodeId)
+    if (endpoint) joinedItemIds.add(endpoint.ref.itemId)
+  })
+  const isolatedItemIds = layout.placedItems
+    .filter((item) => !joinedItemIds.has(item.id))
+    .map((item) => item.id)
+
+  return {
+    // Single loose pieces are listed as isolated instead of as one-piece networks
+    networks: networks
+      .filter((network) => network.itemIds.some((itemId) => joinedItemIds.has(itemId)))
+      .sort((a, b) => b.itemIds.length - a.itemIds.length),
+    openEnds,
+    isolatedItemIds,
+    danglingConnections: topology.danglingConnections,
+  }
+}
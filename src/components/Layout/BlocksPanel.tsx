@@ -0,0 +1,202 @@
+import type { ElectricalBlock } from '../../types/layout'
+import type { BlockReport, BlockSummary } from '../../analysis/blockReport'
+
+interface BlocksPanelProps {
+  report: BlockReport
+  describeItem: (itemId: string) => string
+  selectedItemCount: number
+  /** Whether the two selected endpoints are joined, and if so whether the joint is insulated */
+  selectedJoint: { insulated: boolean } | null
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onAddBlock: () => void
+  onUpdateBlock: (blockId: string, patch: Partial<Omit<ElectricalBlock, 'id'>>) => void
+  onDeleteBlock: (blockId: string) => void
+  onAssignSelection: (blockId: string | null) => void
+  onToggleFeeders: () => void
+  onToggleInsulatedJoint: () => void
+  onExportWiring: () => void
+  onClose: () => void
+}
+
+const formatLength = (lengthMm: number) =>
+  lengthMm >= 1000 ? `${(lengthMm / 1000).toFixed(2)} m` : `${Math.round(lengthMm)} mm`
+
+const buttonClassName =
+  'rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80 disabled:cursor-not-allowed disabled:opacity-60'
+
+const describeSummary = (summary: BlockSummary) =>
+  `${summary.itemIds.length} pieces · ${formatLength(summary.lengthMm)} · ${summary.feederCount} ${
+    summary.feederCount === 1 ? 'feeder' : 'feeders'
+  }`
+
+export function BlocksPanel({
+  report,
+  describeItem,
+  selectedItemCount,
+  selectedJoint,
+  focusedKey,
+  onFocus,
+  onAddBlock,
+  onUpdateBlock,
+  onDeleteBlock,
+  onAssignSelection,
+  onToggleFeeders,
+  onToggleInsulatedJoint,
+  onExportWiring,
+  onClose,
+}: BlocksPanelProps) {
+  const hasSelection = selectedItemCount > 0
+  const focusClassName = (key: string) =>
+    `rounded border px-2 py-1 transition ${
+      focusedKey === key ? 'border-red-500/60 bg-red-500/10' : 'border-slate-800 bg-slate-900'
+    }`
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Blocks & feeders</span>
+          <p className="text-sm font-medium text-slate-100">
+            {report.blocks.length} {report.blocks.length === 1 ? 'block' : 'blocks'} ·{' '}
+            {report.unassigned.itemIds.length} unassigned pieces
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={onExportWiring} className={buttonClassName}>
+            Wiring SVG
+          </button>
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-wrap gap-2 border-b border-slate-800 px-3 py-2">
+        <button type="button" onClick={onAddBlock} className={buttonClassName}>
+          Add block
+        </button>
+        <button
+          type="button"
+          onClick={onToggleFeeders}
+          disabled={!hasSelection}
+          className={buttonClassName}
+          title="Add or remove a feeder on the selected pieces"
+        >
+          Toggle feeder
+        </button>
+        <button
+          type="button"
+          onClick={onToggleInsulatedJoint}
+          disabled={!selectedJoint}
+          className={buttonClassName}
+          title="Select the two endpoints of a joint first"
+        >
+          {selectedJoint?.insulated ? 'Remove insulated joiners' : 'Insulate joint'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onAssignSelection(null)}
+          disabled={!hasSelection}
+          className={buttonClassName}
+        >
+          Unassign selection
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3 overflow-y-auto px-3 py-2 text-sm">
+        {report.blocks.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            Add a block, select pieces on the canvas and assign them. Blocks need at least one feeder each.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {report.blocks.map((summary) => {
+              const block = summary.block!
+              const key = `block:${block.id}`
+              return (
+                <li key={block.id} className={focusClassName(key)}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={block.color}
+                      onChange={(event) => onUpdateBlock(block.id, { color: event.target.value })}
+                      className="h-6 w-6 shrink-0 cursor-pointer rounded border border-slate-700 bg-transparent"
+                      aria-label={`Color of ${block.name}`}
+                    />
+                    <input
+                      type="text"
+                      value={block.name}
+                      onChange={(event) => onUpdateBlock(block.id, { name: event.target.value })}
+                      className="min-w-0 flex-1 rounded border border-slate-800 bg-slate-900 px-2 py-0.5 text-sm text-slate-100"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => onFocus(focusedKey === key ? null : key)}
+                      className={buttonClassName}
+                    >
+                      Show
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onAssignSelection(block.id)}
+                      disabled={!hasSelection}
+                      className={buttonClassName}
+                    >
+                      Assign
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDeleteBlock(block.id)}
+                      className="rounded bg-red-900 px-2 py-1 text-xs font-semibold text-red-300 transition hover:bg-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <span className={`block text-xs ${summary.feederCount === 0 ? 'text-amber-300' : 'text-slate-500'}`}>
+                    {describeSummary(summary)}
+                    {summary.feederCount === 0 && ' · needs a feeder'}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {report.unassigned.itemIds.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onFocus(focusedKey === 'unassigned' ? null : 'unassigned')}
+            className={`text-left ${focusClassName('unassigned')}`}
+          >
+            <span className="block">Unassigned</span>
+            <span className="block text-xs text-slate-500">{describeSummary(report.unassigned)}</span>
+          </button>
+        )}
+
+        {report.uninsulatedBoundaries.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Block borders without insulated joiners ({report.uninsulatedBoundaries.length})
+            </span>
+            <ul className="flex flex-col gap-1">
+              {report.uninsulatedBoundaries.map((connection, index) => (
+                <li key={connection.endpoints.map((ref) => `${ref.itemId}:${ref.connectorKey}`).join('|')}>
+                  <button
+                    type="button"
+                    onClick={() => onFocus(focusedKey === `border:${index}` ? null : `border:${index}`)}
+                    className={`w-full text-left text-xs text-amber-300 ${focusClassName(`border:${index}`)}`}
+                  >
+                    {connection.endpoints
+                      .map((endpoint) => `${describeItem(endpoint.itemId)} ${endpoint.connectorKey}`)
+                      .join(' ↔ ')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -31,43 +31,109 @@ import type {
 } from '../../types/trackSystem'
 import {
   getComponentGeometry,
+  getPlacedItemGeometry,
   normalizeAngle,
   rotatePointLocal,
   transformConnector,
 } from '../../geometry/trackGeometry'
 import { computeConnectionTransform } from '../../geometry/trackEndpoint'
-import { connectionHasEndpoint, connectionMatchesEndpoints } from '../../utils/connectionUtils'
+import type { Vec2 } from '../../geometry/geometryUtils'
+import { samplePathD } from '../../geometry/pathSampling'
+import {
+  extendLasso,
+  getRectangleRegion,
+  isOutlineInRegion,
+  type SelectionRegion,
+} from '../../geometry/selectionRegion'
+import {
+  getDefaultFlexControlPoints,
+  getFlexLength,
+  getFlexMinRadius,
+  isFlexControlPoints,
+  moveFlexHandle,
+  type FlexControlPoints,
+  type FlexHandleIndex,
+} from '../../geometry/flexTrack'
+import {
+  buildConnectionGraph,
+  connectionHasEndpoint,
+  connectionMatchesEndpoints,
+  getConnectedItemIds,
+} from '../../utils/connectionUtils'
+import { DEFAULT_TRACK_SYSTEM_METRICS, getTrackSystemMetrics } from '../../geometry/trackSystemMetrics'
+import { buildComponentLookup, getComponentKey, getItemComponentKey } from '../../utils/trackSystemUtils'
 import {
   ROTATION_STEP_DEG,
   TEXT_CHAR_WIDTH_FACTOR,
   TEXT_FONT_SIZE_MM,
   TEXT_DEFAULT_HEIGHT_MM,
   TEXT_DEFAULT_WIDTH_MM,
+  UNASSIGNED_BLOCK_COLOR,
 } from '../../constants/layout'
 
 type CanvasProps = {
   layout: LayoutState | null
-  trackSystem: TrackSystemDefinition | null
+  trackSystems: TrackSystemDefinition[]
   onUpdateLayout: (updater: (layout: LayoutState) => LayoutState) => void
   onSelectionChange?: (itemIds: string[]) => void
   onSelectedEndpointsChange?: (endpoints: EndpointRef[]) => void
+  onSelectedShapesChange?: (shapeIds: string[]) => void
+  /** Pieces drawn as a non-interactive ghost on top of the layout, e.g. gap solver candidates */
+  previewItems?: PlacedItem[]
+  /** Pieces and endpoints to call out, e.g. the findings of a report panel */
+  highlights?: CanvasHighlight[]
+  /** Multi-level layouts: pieces are stacked by height, lower levels dimmed and underpasses dashed */
+  levels?: CanvasLevels | null
   debugMode?: boolean
   showColors?: boolean
+  /** Color pieces by electrical block and show feeders and insulated joints */
+  showWiring?: boolean
   drawingTool?: ShapeType | null
+  /** A sub-assembly from the library was dropped at a world position */
+  onDropSubAssembly?: (subAssemblyId: string, position: { x: number; y: number }) => void
+  /** Dragging on empty space selects instead of panning */
+  selectionTool?: CanvasSelectionTool | null
   undo: () => void
   redo: () => void
 }
 
+export type CanvasSelectionTool = 'box' | 'lasso'
+
+export type CanvasHighlight = {
+  color: string
+  itemIds?: string[]
+  endpoints?: EndpointRef[]
+  shapeIds?: string[]
+  /** Spots to ring, e.g. where two tracks come too close */
+  points?: Vec2[]
+}
+
+export type CanvasLevels = {
+  levelByItemId: Map<string, number>
+  /** Pieces another track passes over */
+  underpassItemIds: Set<string>
+}
+
 export interface CanvasHandle {
   connectSelectedEndpoints(): void
   disconnectSelectedEndpoints(): void
   rotateSelected(deltaDeg: number): void
   deleteSelectedItem(): void
   addDimensionBetweenSelectedTracks(type?: 'center' | 'inner' | 'outer'): boolean
+  /** World position under the pointer, or the middle of the view when the pointer is elsewhere */
+  getPastePosition(): { x: number; y: number }
+  selectItems(itemIds: string[], shapeIds: string[]): void
 }
 
 type DragPreview = WorldTransform
 
+/** How far the grabbed piece of a dragged group has moved and turned since the drag started. */
+type DragGroupDelta = {
+  x: number
+  y: number
+  rotationDeg: number
+}
+
 type ClientPoint = {
   x: number
   y: number
@@ -78,6 +144,33 @@ type ConnectorEntry = {
   local: TrackConnector
 }
 
+/** Shift adds to the current selection, Alt removes from it, otherwise it is replaced. */
+type SelectionDragMode = 'replace' | 'add' | 'subtract'
+
+type SelectionDrag = {
+  tool: CanvasSelectionTool
+  mode: SelectionDragMode
+  start: Vec2
+  region: SelectionRegion
+}
+
+type FlexHandleDrag = {
+  itemId: string
+  handleIndex: FlexHandleIndex
+  initialControlPoints: FlexControlPoints
+  controlPoints: FlexControlPoints
+}
+
+/** Pose of a dragged group member; the group moves and turns rigidly with the grabbed piece. */
+const applyDragGroupDelta = (start: DragPreview, pivot: DragPreview, delta: DragGroupDelta): DragPreview => {
+  const rotated = rotatePointLocal(start.x - pivot.x, start.y - pivot.y, delta.rotationDeg)
+  return {
+    x: pivot.x + delta.x + rotated.x,
+    y: pivot.y + delta.y + rotated.y,
+    rotationDeg: normalizeAngle(start.rotationDeg + delta.rotationDeg),
+  }
+}
+
 const computeLabelAnchor = (connectors: ConnectorEntry[]) => {
   if (!connectors.length) {
     return { xMm: 0, yMm: 0 }
@@ -97,13 +190,21 @@ const computeLabelAnchor = (connectors: ConnectorEntry[]) => {
 }
 
 const VIEWPORT_SIZE = 1800
-const SNAP_DISTANCE_MM = 8
 const ANGLE_TOLERANCE_DEG = 15
 const ENDPOINT_CLICK_DISTANCE_MM = 10
 const ENDPOINT_CIRCLE_RADIUS = 8
 const ENDPOINT_VECTOR_LENGTH_MM = 24
-const TRACK_STROKE_WIDTH_MM = 28
+const FLEX_HANDLE_RADIUS_MM = 7
+const FLEX_HANDLE_COLOR = '#f472b6'
 const TRACK_FILL_COLOR = '#1f2937'
+const PREVIEW_TRACK_COLOR = '#22d3ee'
+const HIGHLIGHT_ENDPOINT_RADIUS = ENDPOINT_CIRCLE_RADIUS * 2
+const INSULATED_JOINT_COLOR = '#f8fafc'
+const FEEDER_MARKER_RADIUS = 6
+const FEEDER_MARKER_COLOR = '#dc2626'
+const ACCESSORY_MARKER_COLOR = '#f8fafc'
+/** Opacity of the lowest level on multi-level layouts; levels in between fade up to fully opaque */
+const LOWEST_LEVEL_OPACITY = 0.45
 
 const getComponentFillColor = (component: TrackComponentDefinition) => component.color ?? TRACK_FILL_COLOR
 const TRACK_BORDER_COLOR = 'darkgrey'
@@ -111,10 +212,11 @@ const SELECTED_TRACK_BORDER_COLOR = '#60a5fa'
 const SELECTED_ENDPOINT_COLOR = '#dc2626'
 const CONNECTED_ENDPOINT_COLOR = '#16a34a'
 const GROUNDED_TRACK_BORDER_COLOR = '#facc15'
-const LABEL_OFFSET_MM = 18
 const SHAPE_STROKE_COLOR = 'white'
 const SHAPE_STROKE_WIDTH = 2
 const SELECTED_SHAPE_STROKE_COLOR = '#60a5fa'
+const SELECTION_REGION_STROKE_COLOR = '#60a5fa'
+const SELECTION_REGION_FILL_COLOR = '#3b82f6'
 const DIMENSION_OFFSET_MM = 12
 const DIMENSION_TICK_LENGTH_MM = 8
 const DIMENSION_TEXT_PADDING_MM = 2
@@ -162,6 +264,34 @@ const formatDimensionLabel = (shape: CanvasDimensionShape) => shape.label ?? `${
 
 const isDimensionShape = (shape: CanvasShape): shape is CanvasDimensionShape => shape.type === 'dimension'
 
+const CIRCLE_OUTLINE_SEGMENTS = 16
+
+/** Points that enclose a shape, used to test it against a selection region. */
+const getShapeOutline = (shape: CanvasShape): Vec2[] => {
+  if (shape.type === 'dimension') {
+    const { start, end, offsetStart, offsetEnd } = getDimensionGeometry(shape)
+    return [start, end, offsetStart, offsetEnd]
+  }
+  if (shape.type === 'circle') {
+    const radius = shape.width / 2
+    return Array.from({ length: CIRCLE_OUTLINE_SEGMENTS }, (_, index) => {
+      const angle = (index / CIRCLE_OUTLINE_SEGMENTS) * Math.PI * 2
+      return { x: shape.x + Math.cos(angle) * radius, y: shape.y + Math.sin(angle) * radius }
+    })
+  }
+  const halfWidth = shape.width / 2
+  const halfHeight = (shape.height ?? shape.width) / 2
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => {
+    const rotated = rotatePointLocal(x, y, shape.rotationDeg)
+    return { x: shape.x + rotated.x, y: shape.y + rotated.y }
+  })
+}
+
 const projectPointToRectanglePerimeter = (
   shape: CanvasPrimitiveShape,
   point: { x: number; y: number },
@@ -212,13 +342,20 @@ const projectPointToCirclePerimeter = (shape: CanvasPrimitiveShape, point: { x:
 export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
   {
     layout,
-    trackSystem,
+    trackSystems,
     onUpdateLayout,
     onSelectionChange,
     onSelectedEndpointsChange,
+    onSelectedShapesChange,
+    previewItems,
+    highlights,
+    levels,
     debugMode = false,
     showColors = true,
+    showWiring = false,
     drawingTool = null,
+    onDropSubAssembly,
+    selectionTool = null,
     undo,
     redo,
   },
@@ -226,11 +363,12 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 ) {
   const svgRef = useRef<SVGSVGElement | null>(null)
   const lastPointerRef = useRef<ClientPoint | null>(null)
+  const hoverPointerRef = useRef<ClientPoint | null>(null)
   const capturedPointerIdRef = useRef<number | null>(null)
   const canvasWrapperRef = useRef<HTMLDivElement | null>(null)
 
   const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set())
-  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null)
+  const [selectedShapeIds, setSelectedShapeIds] = useState<Set<string>>(new Set())
   const [selectedEndpoints, setSelectedEndpoints] = useState<EndpointRef[]>([])
   const [draggingItemId, setDraggingItemId] = useState<string | null>(null)
   const [draggingShapeId, setDraggingShapeId] = useState<string | null>(null)
@@ -238,8 +376,10 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
   const [dragStartTransform, setDragStartTransform] = useState<DragPreview | null>(null)
   const [dragPreview, setDragPreview] = useState<DragPreview | null>(null)
   const [dragGroupIds, setDragGroupIds] = useState<string[] | null>(null)
-  const [dragGroupDelta, setDragGroupDelta] = useState<{ x: number; y: number } | null>(null)
+  const [dragGroupDelta, setDragGroupDelta] = useState<DragGroupDelta | null>(null)
   const [snappedEndpoints, setSnappedEndpoints] = useState<{ moving: EndpointRef; target: EndpointRef } | null>(null)
+  const [flexHandleDrag, setFlexHandleDrag] = useState<FlexHandleDrag | null>(null)
+  const [selectionDrag, setSelectionDrag] = useState<SelectionDrag | null>(null)
   const [dimensionSelection, setDimensionSelection] = useState<string[]>([])
 
   // Drawing state
@@ -267,20 +407,84 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     return map
   }, [layout])
 
-  const componentMap = useMemo(() => {
-    if (!trackSystem) return new Map<string, TrackComponentDefinition>()
-    const map = new Map<string, TrackComponentDefinition>()
-    trackSystem.components.forEach((component) => map.set(component.id, component))
-    return map
-  }, [trackSystem])
+  const componentMap = useMemo(() => buildComponentLookup(trackSystems), [trackSystems])
+
+  const blockColorById = useMemo(
+    () => new Map((layout?.blocks ?? []).map((block) => [block.id, block.color])),
+    [layout],
+  )
+
+  // Lower levels are drawn first so track passing over them stays on top
+  const stackedItems = useMemo(() => {
+    const placedItems = layout?.placedItems ?? []
+    if (!levels) return placedItems
+    const getLevel = (item: PlacedItem) => levels.levelByItemId.get(item.id) ?? 0
+    return [...placedItems].sort((a, b) => getLevel(a) - getLevel(b))
+  }, [layout, levels])
+
+  const levelRange = useMemo(() => {
+    const allLevels = levels ? Array.from(levels.levelByItemId.values()) : []
+    if (allLevels.length === 0) return null
+    const lowest = Math.min(...allLevels)
+    return { lowest, span: Math.max(...allLevels) - lowest }
+  }, [levels])
+
+  const getLevelOpacity = (itemId: string) => {
+    if (!levels || !levelRange || levelRange.span <= 0) return 1
+    const fraction = ((levels.levelByItemId.get(itemId) ?? levelRange.lowest) - levelRange.lowest) / levelRange.span
+    return LOWEST_LEVEL_OPACITY + (1 - LOWEST_LEVEL_OPACITY) * fraction
+  }
+
+  const metricsBySystem = useMemo(
+    () => new Map(trackSystems.map((system) => [system.id, getTrackSystemMetrics(system)])),
+    [trackSystems],
+  )
 
   const geometryCache = useMemo(() => {
     const cache = new Map<string, ReturnType<typeof getComponentGeometry>>()
-    componentMap.forEach((component, id) => {
-      cache.set(id, getComponentGeometry(component))
+    trackSystems.forEach((system) => {
+      const { sleeperWidthMm } = metricsBySystem.get(system.id) ?? DEFAULT_TRACK_SYSTEM_METRICS
+      system.components.forEach((component) => {
+        cache.set(getComponentKey(system.id, component.id), getComponentGeometry(component, sleeperWidthMm))
+      })
     })
     return cache
-  }, [componentMap])
+  }, [trackSystems, metricsBySystem])
+
+  const getItemMetrics = useCallback(
+    (item: PlacedItem) => metricsBySystem.get(item.trackSystemId) ?? DEFAULT_TRACK_SYSTEM_METRICS,
+    [metricsBySystem],
+  )
+
+  const getItemComponent = useCallback(
+    (item: PlacedItem) => componentMap.get(getItemComponentKey(item)) ?? null,
+    [componentMap],
+  )
+
+  /** Control points of a flex item, including the live preview while one of its handles is dragged */
+  const getItemFlexControlPoints = useCallback(
+    (item: PlacedItem, component: TrackComponentDefinition): FlexControlPoints => {
+      if (flexHandleDrag?.itemId === item.id) return flexHandleDrag.controlPoints
+      return isFlexControlPoints(item.controlPoints) ? item.controlPoints : getDefaultFlexControlPoints(component)
+    },
+    [flexHandleDrag],
+  )
+
+  const getItemGeometry = useCallback(
+    (item: PlacedItem) => {
+      const component = componentMap.get(getItemComponentKey(item))
+      if (component?.type === 'flex') {
+        // Flex geometry depends on the instance, so it bypasses the per-component cache
+        return getPlacedItemGeometry(
+          component,
+          { controlPoints: getItemFlexControlPoints(item, component) },
+          getItemMetrics(item).sleeperWidthMm,
+        )
+      }
+      return geometryCache.get(getItemComponentKey(item)) ?? null
+    },
+    [componentMap, geometryCache, getItemFlexControlPoints, getItemMetrics],
+  )
 
   const connections = layout?.connections ?? []
 
@@ -289,41 +493,10 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     [connections],
   )
 
-  const connectionGraph = useMemo(() => {
-    const graph = new Map<string, Set<string>>()
-    connections.forEach((connection) => {
-      const [first, second] = connection.endpoints
-      if (first.itemId === second.itemId) return
-      if (!graph.has(first.itemId)) {
-        graph.set(first.itemId, new Set())
-      }
-      if (!graph.has(second.itemId)) {
-        graph.set(second.itemId, new Set())
-      }
-      graph.get(first.itemId)!.add(second.itemId)
-      graph.get(second.itemId)!.add(first.itemId)
-    })
-    return graph
-  }, [connections])
+  const connectionGraph = useMemo(() => buildConnectionGraph(connections), [connections])
 
   const getConnectedGroupIds = useCallback(
-    (itemId: string) => {
-      const result = new Set<string>()
-      const queue = [itemId]
-      while (queue.length) {
-        const current = queue.shift()
-        if (!current || result.has(current)) continue
-        result.add(current)
-        const neighbors = connectionGraph.get(current)
-        if (neighbors) {
-          neighbors.forEach((neighbor) => queue.push(neighbor))
-        }
-      }
-      if (!result.size) {
-        result.add(itemId)
-      }
-      return Array.from(result)
-    },
+    (itemId: string) => getConnectedItemIds(connectionGraph, itemId),
     [connectionGraph],
   )
 
@@ -384,7 +557,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     (nextLayout: LayoutState | null) => {
       if (!nextLayout) {
         setSelectedItemIds(new Set())
-        setSelectedShapeId(null)
+        setSelectedShapeIds(new Set())
         setSelectedEndpoints([])
         setDimensionSelection([])
         return
@@ -402,8 +575,13 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         }
       }
 
-      if (selectedShapeId && !nextLayout.shapes.some((shape) => shape.id === selectedShapeId)) {
-        setSelectedShapeId(null)
+      if (selectedShapeIds.size > 0) {
+        const validShapeIds = new Set(
+          Array.from(selectedShapeIds).filter((id) => nextLayout.shapes.some((shape) => shape.id === id)),
+        )
+        if (validShapeIds.size !== selectedShapeIds.size) {
+          setSelectedShapeIds(validShapeIds)
+        }
       }
 
       if (editingTextId && !nextLayout.shapes.some((shape) => shape.id === editingTextId)) {
@@ -414,7 +592,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         previous.filter((endpoint) => nextLayout.placedItems.some((item) => item.id === endpoint.itemId)),
       )
     },
-    [selectedItemIds, selectedShapeId, editingTextId],
+    [selectedItemIds, selectedShapeIds, editingTextId],
   )
 
   useEffect(() => {
@@ -429,6 +607,10 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     onSelectedEndpointsChange?.(selectedEndpoints)
   }, [onSelectedEndpointsChange, selectedEndpoints])
 
+  useEffect(() => {
+    onSelectedShapesChange?.(Array.from(selectedShapeIds))
+  }, [onSelectedShapesChange, selectedShapeIds])
+
   useEffect(() => {
     const element = textInputRef.current
     if (!element || editingTextId === null) {
@@ -529,7 +711,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
           bestPoint = { x: item.x, y: item.y }
         }
 
-        const geometry = geometryCache.get(item.componentId)
+        const geometry = getItemGeometry(item)
         if (!geometry) return
         const transform = { x: item.x, y: item.y, rotationDeg: item.rotationDeg }
         listConnectorEntries(geometry).forEach(({ local }) => {
@@ -561,18 +743,15 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
       return bestPoint
     },
-    [geometryCache, layout, listConnectorEntries],
+    [getItemGeometry, layout, listConnectorEntries],
   )
 
   const getItemTransform = useCallback(
     (item: PlacedItem): DragPreview => {
       const base = dragGroupStartTransformsRef.current?.[item.id]
-      if (base && dragGroupDelta && dragGroupIds?.includes(item.id)) {
-        return {
-          x: base.x + dragGroupDelta.x,
-          y: base.y + dragGroupDelta.y,
-          rotationDeg: base.rotationDeg,
-        }
+      const pivot = draggingItemId ? dragGroupStartTransformsRef.current?.[draggingItemId] : undefined
+      if (base && pivot && dragGroupDelta && dragGroupIds?.includes(item.id)) {
+        return applyDragGroupDelta(base, pivot, dragGroupDelta)
       }
       if (draggingItemId === item.id && dragPreview) {
         return dragPreview
@@ -584,7 +763,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
   const getItemCenterDirection = useCallback(
     (item: PlacedItem) => {
-      const geometry = geometryCache.get(item.componentId)
+      const geometry = getItemGeometry(item)
       if (!geometry) return null
       const start = transformConnector(geometry.start, { x: item.x, y: item.y, rotationDeg: item.rotationDeg })
       const end = transformConnector(geometry.end, { x: item.x, y: item.y, rotationDeg: item.rotationDeg })
@@ -594,13 +773,13 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       if (length < 1e-3) return null
       return { center: { x: item.x, y: item.y }, dir: { x: dx / length, y: dy / length } }
     },
-    [geometryCache],
+    [getItemGeometry],
   )
 
   // Auto-connect when dragging ends and endpoints are snapped
   const autoConnectSnappedEndpoints = useCallback(
     (movingRef: EndpointRef, targetRef: EndpointRef) => {
-      if (!layout || !trackSystem) return false
+      if (!layout) return false
       if (movingRef.itemId === targetRef.itemId) return false
 
       // Don't auto-connect if target item is in the same connected group as moving item
@@ -623,10 +802,9 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       const movingItem = layout.placedItems.find((item) => item.id === movingRef.itemId)
       const targetItem = layout.placedItems.find((item) => item.id === targetRef.itemId)
       if (!movingItem || !targetItem) return false
-      if (movingItem.trackSystemId !== trackSystem.id || targetItem.trackSystemId !== trackSystem.id) return false
 
-      const movingGeometry = geometryCache.get(movingItem.componentId)
-      const targetGeometry = geometryCache.get(targetItem.componentId)
+      const movingGeometry = getItemGeometry(movingItem)
+      const targetGeometry = getItemGeometry(targetItem)
       if (!movingGeometry || !targetGeometry) return false
 
       const movingConnectorLocal = getConnectorByKey(movingGeometry, movingRef.connectorKey)
@@ -680,7 +858,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
       // Iterate through all moving items at their NEW positions
       movingItemsNew.forEach(movingItemNew => {
-        const geometry = geometryCache.get(movingItemNew.componentId)
+        const geometry = getItemGeometry(movingItemNew)
         if (!geometry) return
 
         const movingTransform = { x: movingItemNew.x, y: movingItemNew.y, rotationDeg: movingItemNew.rotationDeg }
@@ -693,7 +871,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
           // Check against all stationary items
           stationaryItems.forEach(stationaryItem => {
-            const statGeometry = geometryCache.get(stationaryItem.componentId)
+            const statGeometry = getItemGeometry(stationaryItem)
             if (!statGeometry) return
 
             const statTransform = { x: stationaryItem.x, y: stationaryItem.y, rotationDeg: stationaryItem.rotationDeg }
@@ -746,20 +924,58 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       return true
     },
     [
-      geometryCache,
       getConnectorByKey,
       getConnectedGroupIds,
+      getItemGeometry,
       isEndpointConnected,
       isItemGrounded,
       layout,
       onUpdateLayout,
-      trackSystem,
       listConnectorEntries
     ],
   )
 
+  const applyRegionSelection = useCallback(
+    ({ mode, region }: SelectionDrag) => {
+      if (!layout) return
+      const itemIds = layout.placedItems
+        .filter((item) => {
+          const geometry = getItemGeometry(item)
+          if (!geometry) return false
+          const outline = samplePathD(geometry.buildPathD()).flatMap((polyline) =>
+            polyline.map((point) => {
+              const rotated = rotatePointLocal(point.x, point.y, item.rotationDeg)
+              return { x: item.x + rotated.x, y: item.y + rotated.y }
+            }),
+          )
+          return isOutlineInRegion(outline, region)
+        })
+        .map((item) => item.id)
+      const shapeIds = layout.shapes
+        .filter((shape) => isOutlineInRegion(getShapeOutline(shape), region))
+        .map((shape) => shape.id)
+
+      const combine = (previous: Set<string>, hits: string[]) => {
+        if (mode === 'replace') return new Set(hits)
+        const next = new Set(previous)
+        hits.forEach((id) => (mode === 'add' ? next.add(id) : next.delete(id)))
+        return next
+      }
+      setSelectedItemIds((previous) => combine(previous, itemIds))
+      setSelectedShapeIds((previous) => combine(previous, shapeIds))
+      setSelectedEndpoints([])
+      setDimensionSelection([])
+    },
+    [getItemGeometry, layout],
+  )
+
   useEffect(() => {
     const handlePointerUp = () => {
+      if (selectionDrag) {
+        applyRegionSelection(selectionDrag)
+        setSelectionDrag(null)
+      }
+
       // Finalize drawing
       if (isDrawing && drawStart && drawCurrent && drawingTool) {
         const rawDx = drawCurrent.x - drawStart.x
@@ -851,23 +1067,30 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         setDrawShiftActive(false)
       }
 
-      // Finalize shape dragging
-      if (draggingShapeId && dragPreview) {
+      if (flexHandleDrag && flexHandleDrag.controlPoints !== flexHandleDrag.initialControlPoints) {
+        const { itemId, controlPoints } = flexHandleDrag
         onUpdateLayout((previous) => ({
           ...previous,
-          shapes: previous.shapes.map((shape) =>
-            shape.id === draggingShapeId
-              ? {
-                ...shape,
-                x: dragPreview.x,
-                y: dragPreview.y,
-                rotationDeg: normalizeAngle(dragPreview.rotationDeg),
-              }
-              : shape,
-          ),
+          placedItems: previous.placedItems.map((item) => (item.id === itemId ? { ...item, controlPoints } : item)),
         }))
       }
 
+      // Finalize shape dragging; every selected shape moves along with the one under the pointer
+      if (draggingShapeId && dragPreview && dragStartTransform) {
+        const dx = dragPreview.x - dragStartTransform.x
+        const dy = dragPreview.y - dragStartTransform.y
+        if (dx !== 0 || dy !== 0) {
+          onUpdateLayout((previous) => ({
+            ...previous,
+            shapes: previous.shapes.map((shape) =>
+              shape.id === draggingShapeId || selectedShapeIds.has(shape.id)
+                ? { ...shape, x: shape.x + dx, y: shape.y + dy }
+                : shape,
+            ),
+          }))
+        }
+      }
+
       if (draggingItemId) {
         // Try to auto-connect if endpoints are snapped
         let connectionCreated = false
@@ -878,9 +1101,13 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         // Only update item positions if connection wasn't created (connection already updates positions)
         if (!connectionCreated) {
           const groupStarts = dragGroupStartTransformsRef.current
+          const pivot = groupStarts?.[draggingItemId]
           const hasGroupDelta =
-            dragGroupDelta && (Math.abs(dragGroupDelta.x) > 1e-6 || Math.abs(dragGroupDelta.y) > 1e-6)
-          if (groupStarts && dragGroupDelta && hasGroupDelta) {
+            dragGroupDelta &&
+            (Math.abs(dragGroupDelta.x) > 1e-6 ||
+              Math.abs(dragGroupDelta.y) > 1e-6 ||
+              Math.abs(dragGroupDelta.rotationDeg) > 1e-6)
+          if (groupStarts && pivot && dragGroupDelta && hasGroupDelta) {
             onUpdateLayout((previous) => ({
               ...previous,
               placedItems: previous.placedItems.map((item) => {
@@ -888,11 +1115,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
                 if (!start) {
                   return item
                 }
-                return {
-                  ...item,
-                  x: start.x + dragGroupDelta.x,
-                  y: start.y + dragGroupDelta.y,
-                }
+                return { ...item, ...applyDragGroupDelta(start, pivot, dragGroupDelta) }
               }),
             }))
           } else if (dragPreview) {
@@ -921,6 +1144,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       setDragGroupIds(null)
       setDragGroupDelta(null)
       setSnappedEndpoints(null)
+      setFlexHandleDrag(null)
       dragGroupStartTransformsRef.current = null
       setIsPanning(false)
       lastPointerRef.current = null
@@ -934,11 +1158,14 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       window.removeEventListener('pointerleave', handlePointerUp)
     }
   }, [
+    applyRegionSelection,
     autoConnectSnappedEndpoints,
     dragGroupDelta,
     dragPreview,
+    dragStartTransform,
     draggingItemId,
     draggingShapeId,
+    flexHandleDrag,
     drawCurrent,
     drawShiftActive,
     drawStart,
@@ -946,18 +1173,19 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     isDrawing,
     onUpdateLayout,
     releasePointer,
+    selectedShapeIds,
+    selectionDrag,
     snappedEndpoints,
   ])
 
   const findNearestEndpoint = useCallback(
     (worldPoint: { x: number; y: number }): { ref: EndpointRef; distance: number } | null => {
-      if (!layout || !trackSystem) return null
+      if (!layout) return null
 
       let best: { ref: EndpointRef; distance: number } | null = null
 
       layout.placedItems.forEach((item) => {
-        if (item.trackSystemId !== trackSystem.id) return
-        const geometry = geometryCache.get(item.componentId)
+        const geometry = getItemGeometry(item)
         if (!geometry) return
         const transform = getItemTransform(item)
 
@@ -975,7 +1203,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
       return best
     },
-    [geometryCache, getItemTransform, layout, listConnectorEntries, trackSystem],
+    [getItemGeometry, getItemTransform, layout, listConnectorEntries],
   )
 
   // Endpoint selection toggles connectors with Shift/Ctrl so users can aim two legs before running Connect.
@@ -1053,7 +1281,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
   const clearSelections = useCallback(() => {
     setSelectedItemIds(new Set())
-    setSelectedShapeId(null)
+    setSelectedShapeIds(new Set())
     setSelectedEndpoints([])
     setDimensionSelection([])
   }, [])
@@ -1064,12 +1292,12 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       setEditingTextId(shape.id)
       setEditingTextValue(shape.text)
 
-      setSelectedShapeId(shape.id)
+      setSelectedShapeIds(new Set([shape.id]))
       setSelectedItemIds(new Set())
       setSelectedEndpoints([])
       setDraggingShapeId(null)
     },
-    [setSelectedEndpoints, setSelectedItemIds, setSelectedShapeId, setDraggingShapeId],
+    [setSelectedEndpoints, setSelectedItemIds, setSelectedShapeIds, setDraggingShapeId],
   )
 
   const finishTextEditing = useCallback(
@@ -1090,13 +1318,18 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
           ...previous,
           shapes: previous.shapes.filter((shape) => shape.id !== shapeId),
         }))
-        setSelectedShapeId((previous) => (previous === shapeId ? null : previous))
+        setSelectedShapeIds((previous) => {
+          if (!previous.has(shapeId)) return previous
+          const next = new Set(previous)
+          next.delete(shapeId)
+          return next
+        })
       }
       editingTextIsNewRef.current = false
       setEditingTextValue('')
       setEditingTextId(null)
     },
-    [editingTextId, editingTextValue, onUpdateLayout, setSelectedShapeId],
+    [editingTextId, editingTextValue, onUpdateLayout, setSelectedShapeIds],
   )
 
   const handleTextInputKeyDown = useCallback(
@@ -1145,11 +1378,25 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       const shapeId = clickedShape.getAttribute('data-shape')
       if (shapeId) {
         event.stopPropagation()
-        setSelectedShapeId(shapeId)
-        setSelectedItemIds(new Set())
         setSelectedEndpoints([])
         setDimensionSelection([])
-        // Start dragging shape if not in drawing mode
+        if (event.shiftKey) {
+          const isDeselecting = selectedShapeIds.has(shapeId)
+          setSelectedShapeIds((previous) => {
+            const next = new Set(previous)
+            if (isDeselecting) {
+              next.delete(shapeId)
+            } else {
+              next.add(shapeId)
+            }
+            return next
+          })
+          if (isDeselecting) return
+        } else if (!selectedShapeIds.has(shapeId)) {
+          setSelectedShapeIds(new Set([shapeId]))
+          setSelectedItemIds(new Set())
+        }
+        // Start dragging the shape (and the rest of the selected shapes) if not in drawing mode
         const worldPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
         if (worldPoint && layout) {
           const shape = layout.shapes.find((s) => s.id === shapeId)
@@ -1191,6 +1438,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         } else {
           setDimensionSelection([trackId])
           setSelectedItemIds(new Set([trackId]))
+          setSelectedShapeIds(new Set())
         }
       }
       return
@@ -1209,6 +1457,19 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       return
     }
 
+    if (selectionTool && worldPoint) {
+      event.preventDefault()
+      const start = { x: worldPoint.x, y: worldPoint.y }
+      setSelectionDrag({
+        tool: selectionTool,
+        mode: event.shiftKey ? 'add' : event.altKey ? 'subtract' : 'replace',
+        start,
+        region: [start],
+      })
+      capturePointer(event.pointerId)
+      return
+    }
+
     // Background click: start panning and clear selections
     event.preventDefault()
     setIsPanning(true)
@@ -1218,6 +1479,22 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
   }
 
   const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    hoverPointerRef.current = { x: event.clientX, y: event.clientY }
+
+    if (selectionDrag) {
+      const worldPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
+      if (!worldPoint) return
+      const point = { x: worldPoint.x, y: worldPoint.y }
+      setSelectionDrag({
+        ...selectionDrag,
+        region:
+          selectionDrag.tool === 'box'
+            ? getRectangleRegion(selectionDrag.start, point)
+            : extendLasso(selectionDrag.region, point),
+      })
+      return
+    }
+
     // Handle drawing
     if (isDrawing && drawStart) {
       const worldPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
@@ -1229,6 +1506,23 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       return
     }
 
+    if (flexHandleDrag) {
+      event.preventDefault()
+      const worldPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
+      const item = itemMap.get(flexHandleDrag.itemId)
+      if (!worldPoint || !item) return
+      const localTarget = rotatePointLocal(worldPoint.x - item.x, worldPoint.y - item.y, -item.rotationDeg)
+      const nextControlPoints = moveFlexHandle(flexHandleDrag.controlPoints, flexHandleDrag.handleIndex, localTarget, {
+        start: isEndpointConnected(item.id, 'start'),
+        end: isEndpointConnected(item.id, 'end'),
+      })
+      const minRadiusMm = trackSystems.find((system) => system.id === item.trackSystemId)?.minFlexRadiusMm ?? 0
+      // Refuse shapes tighter than the system allows; the handle stays at the last valid position
+      if (getFlexMinRadius(nextControlPoints) < minRadiusMm) return
+      setFlexHandleDrag({ ...flexHandleDrag, controlPoints: nextControlPoints })
+      return
+    }
+
     // Handle shape dragging
     if (draggingShapeId && dragStartClient && dragStartTransform) {
       event.preventDefault()
@@ -1271,6 +1565,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         setDragGroupDelta({
           x: nextTransform.x - primaryStart.x,
           y: nextTransform.y - primaryStart.y,
+          rotationDeg: normalizeAngle(nextTransform.rotationDeg - primaryStart.rotationDeg),
         })
       } else {
         setDragGroupDelta(null)
@@ -1335,13 +1630,13 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
   )
 
   const handleDragOver = (event: DragEvent<SVGSVGElement>) => {
-    if (!layout || !trackSystem) return
+    if (!layout) return
     event.preventDefault()
     event.dataTransfer.dropEffect = 'copy'
   }
 
   const handleDrop = (event: DragEvent<SVGSVGElement>) => {
-    if (!layout || !trackSystem) return
+    if (!layout) return
     event.preventDefault()
     const payload = event.dataTransfer.getData('application/json')
     if (!payload) return
@@ -1350,8 +1645,15 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       type: string
       trackSystemId: string
       componentId: string
+      subAssemblyId?: string
     }
-    if (data.type !== 'track-component' || data.trackSystemId !== trackSystem.id) return
+    if (data.type === 'sub-assembly' && data.subAssemblyId) {
+      const dropPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
+      if (dropPoint) onDropSubAssembly?.(data.subAssemblyId, { x: dropPoint.x, y: dropPoint.y })
+      return
+    }
+    if (data.type !== 'track-component') return
+    if (!trackSystems.some((system) => system.id === data.trackSystemId)) return
 
     const worldPoint = clientPointToWorld({ x: event.clientX, y: event.clientY })
     if (!worldPoint) return
@@ -1362,7 +1664,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         ...previous.placedItems,
         {
           id: getId(),
-          trackSystemId: trackSystem.id,
+          trackSystemId: data.trackSystemId,
           componentId: data.componentId,
           x: worldPoint.x,
           y: worldPoint.y,
@@ -1372,6 +1674,19 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     }))
   }
 
+  const handleFlexHandlePointerDown = (
+    event: ReactPointerEvent<SVGElement>,
+    item: PlacedItem,
+    handleIndex: FlexHandleIndex,
+    controlPoints: FlexControlPoints,
+  ) => {
+    event.stopPropagation()
+    event.preventDefault()
+    if (event.button !== 0 || isItemGrounded(item.id)) return
+    capturePointer(event.pointerId)
+    setFlexHandleDrag({ itemId: item.id, handleIndex, initialControlPoints: controlPoints, controlPoints })
+  }
+
   const handleItemPointerDown = (
     event: ReactPointerEvent<SVGElement>,
     itemId: string,
@@ -1410,7 +1725,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     setDragStartTransform(initialTransform)
     setDragPreview(initialTransform)
     setDragGroupIds(groupIds)
-    setDragGroupDelta({ x: 0, y: 0 })
+    setDragGroupDelta({ x: 0, y: 0, rotationDeg: 0 })
 
     const startTransforms: Record<string, DragPreview> = {}
     groupIds.forEach((id) => {
@@ -1426,31 +1741,46 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     dragGroupStartTransformsRef.current = startTransforms
   }
 
+  // A dragged group snaps by any of its open connectors, not only those of the grabbed piece, and turns as a whole.
   const computeSnappedTransform = useCallback(
     (itemId: string, tentative: DragPreview): { transform: DragPreview; endpoints: { moving: EndpointRef; target: EndpointRef } } | null => {
-      if (!layout || !trackSystem) return null
+      if (!layout) return null
       const item = layout.placedItems.find((placed) => placed.id === itemId)
       if (!item) return null
-      const component = componentMap.get(item.componentId)
-      const geometry = component ? geometryCache.get(component.id) : null
-      if (!component || !geometry) return null
-
-      const movingConnectors = listConnectorEntries(geometry).map(({ key, local }) => ({
-        key,
-        local,
-        world: transformConnector(local, tentative),
-      }))
+      const { snapDistanceMm } = getItemMetrics(item)
+
+      const groupStarts = dragGroupStartTransformsRef.current
+      const pivot = groupStarts?.[itemId] ?? { x: item.x, y: item.y, rotationDeg: item.rotationDeg }
+      const delta: DragGroupDelta = {
+        x: tentative.x - pivot.x,
+        y: tentative.y - pivot.y,
+        rotationDeg: tentative.rotationDeg - pivot.rotationDeg,
+      }
+      const groupIds = new Set(groupStarts ? Object.keys(groupStarts) : [itemId])
+
+      const movingConnectors = layout.placedItems
+        .filter((member) => groupIds.has(member.id))
+        .flatMap((member) => {
+          const geometry = getItemGeometry(member)
+          if (!geometry) return []
+          const memberTransform =
+            member.id === itemId ? tentative : applyDragGroupDelta(groupStarts?.[member.id] ?? member, pivot, delta)
+          return listConnectorEntries(geometry)
+            .filter(({ key }) => !isEndpointConnected(member.id, key))
+            .map(({ key, local }) => ({
+              ref: { itemId: member.id, connectorKey: key },
+              world: transformConnector(local, memberTransform),
+            }))
+        })
 
       let bestDistance = Number.POSITIVE_INFINITY
       let bestTransform: DragPreview | null = null
       let bestEndpoints: { moving: EndpointRef; target: EndpointRef } | null = null
 
       layout.placedItems.forEach((other) => {
-        if (other.id === itemId) return
-        if (other.trackSystemId !== trackSystem.id) return
-        const otherComponent = componentMap.get(other.componentId)
-        const otherGeometry = otherComponent ? geometryCache.get(other.componentId) : null
-        if (!otherComponent || !otherGeometry) return
+        if (groupIds.has(other.id)) return
+        const otherGeometry = getItemGeometry(other)
+        if (!otherGeometry) return
 
         const otherTransform = { x: other.x, y: other.y, rotationDeg: other.rotationDeg }
         const otherConnectors = listConnectorEntries(otherGeometry).map(({ key, local }) => ({
@@ -1458,36 +1788,39 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
           world: transformConnector(local, otherTransform),
         }))
 
-        movingConnectors.forEach(({ key: movingKey, local, world: movingWorld }) => {
+        movingConnectors.forEach(({ ref: movingRef, world: movingWorld }) => {
           otherConnectors.forEach(({ key: targetKey, world: targetWorld }) => {
             const dx = movingWorld.xMm - targetWorld.xMm
             const dy = movingWorld.yMm - targetWorld.yMm
             const distance = Math.hypot(dx, dy)
-            if (distance > SNAP_DISTANCE_MM) return
+            if (distance > snapDistanceMm) return
+            // Pieces of different scales have different sleeper widths and must not snap together
+            if (Math.abs(movingWorld.widthMm - targetWorld.widthMm) > 1e-3) return
 
             const angleDiff = normalizeAngle(movingWorld.directionDeg - (targetWorld.directionDeg + 180))
             if (Math.abs(angleDiff) > ANGLE_TOLERANCE_DEG) return
 
-            // Calculate the rotation needed to align the moving connector with the target
             // desiredDirection is where we want the connector to point in world space
             const desiredDirection = targetWorld.directionDeg + 180
-            // Calculate the delta rotation needed from the current world direction
+            // Turn the group around the moving connector until it faces the target, then move it onto the target
             const deltaRotation = normalizeAngle(desiredDirection - movingWorld.directionDeg)
-            // Apply the delta to the current rotation to get the new rotation
-            const rotationDeg = normalizeAngle(tentative.rotationDeg + deltaRotation)
-            const rotatedLocal = rotatePointLocal(local.xMm, local.yMm, rotationDeg)
+            const rotatedOffset = rotatePointLocal(
+              tentative.x - movingWorld.xMm,
+              tentative.y - movingWorld.yMm,
+              deltaRotation,
+            )
 
             const newTransform: DragPreview = {
-              x: targetWorld.xMm - rotatedLocal.x,
-              y: targetWorld.yMm - rotatedLocal.y,
-              rotationDeg,
+              x: targetWorld.xMm + rotatedOffset.x,
+              y: targetWorld.yMm + rotatedOffset.y,
+              rotationDeg: normalizeAngle(tentative.rotationDeg + deltaRotation),
             }
 
             if (distance < bestDistance) {
               bestDistance = distance
               bestTransform = newTransform
               bestEndpoints = {
-                moving: { itemId, connectorKey: movingKey },
+                moving: movingRef,
                 target: { itemId: other.id, connectorKey: targetKey },
               }
             }
@@ -1500,7 +1833,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       }
       return null
     },
-    [componentMap, geometryCache, layout, listConnectorEntries, trackSystem],
+    [getItemGeometry, getItemMetrics, isEndpointConnected, layout, listConnectorEntries],
   )
 
   // Rotation is shared between toolbar buttons and the R / Shift+R shortcuts so behaviour stays consistent.
@@ -1508,27 +1841,16 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     (deltaDeg: number) => {
       if (!layout) return
 
-      // Handle shape rotation
-      if (selectedShapeId) {
-        const currentShape = layout.shapes.find((shape) => shape.id === selectedShapeId)
-        if (!currentShape) return
-
-        const newRotationDeg = normalizeAngle(currentShape.rotationDeg + deltaDeg)
-
+      // Handle shape rotation; each shape turns around its own center
+      if (selectedShapeIds.size > 0) {
         onUpdateLayout((previous) => ({
           ...previous,
           shapes: previous.shapes.map((shape) =>
-            shape.id === selectedShapeId
-              ? { ...shape, rotationDeg: newRotationDeg }
+            selectedShapeIds.has(shape.id)
+              ? { ...shape, rotationDeg: normalizeAngle(shape.rotationDeg + deltaDeg) }
               : shape,
           ),
         }))
-
-        setDragPreview((previous) =>
-          previous && draggingShapeId === selectedShapeId
-            ? { ...previous, rotationDeg: newRotationDeg }
-            : previous,
-        )
         return
       }
 
@@ -1563,11 +1885,10 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     },
     [
       draggingItemId,
-      draggingShapeId,
       layout,
       onUpdateLayout,
       selectedItemIds,
-      selectedShapeId,
+      selectedShapeIds,
       isItemConnected,
       isItemGrounded,
     ],
@@ -1576,37 +1897,29 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
   const deleteSelectedItem = useCallback(() => {
     if (!layout) return
 
-    // Handle shape deletion
-    if (selectedShapeId) {
-      onUpdateLayout((previous) => ({
-        ...previous,
-        shapes: previous.shapes.filter((shape) => shape.id !== selectedShapeId),
-      }))
-      setSelectedShapeId(null)
-      return
-    }
-
-    // Handle item deletion
-    if (selectedItemIds.size === 0) return
+    if (selectedItemIds.size === 0 && selectedShapeIds.size === 0) return
 
     const filterConnections = (connections?: EndpointConnection[]) =>
       (connections ?? []).filter((connection) =>
         connection.endpoints.every((endpoint) => !selectedItemIds.has(endpoint.itemId)),
       )
 
+    // Pieces and shapes picked by one region selection go away together, in a single undo step
     onUpdateLayout((previous) => ({
       ...previous,
       placedItems: previous.placedItems.filter((item) => !selectedItemIds.has(item.id)),
       connections: filterConnections(previous.connections),
+      shapes: previous.shapes.filter((shape) => !selectedShapeIds.has(shape.id)),
     }))
     setSelectedItemIds(new Set())
+    setSelectedShapeIds(new Set())
     setSelectedEndpoints([])
     setDimensionSelection((prev) => prev.filter((id) => !selectedItemIds.has(id)))
-  }, [layout, onUpdateLayout, selectedItemIds, selectedShapeId])
+  }, [layout, onUpdateLayout, selectedItemIds, selectedShapeIds])
 
   // Connect endpoints reuses the same connector math as snapping: match directions, then translate the moving item.
   const connectSelectedEndpoints = useCallback(() => {
-    if (!layout || !trackSystem) return
+    if (!layout) return
     if (selectedEndpoints.length !== 2) return
 
     const [firstRef, secondRef] = selectedEndpoints
@@ -1650,10 +1963,9 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     const fixedItem = layout.placedItems.find((item) => item.id === fixedRef.itemId)
     const movingItem = layout.placedItems.find((item) => item.id === movingRef.itemId)
     if (!fixedItem || !movingItem) return
-    if (fixedItem.trackSystemId !== trackSystem.id || movingItem.trackSystemId !== trackSystem.id) return
 
-    const fixedGeometry = geometryCache.get(fixedItem.componentId)
-    const movingGeometry = geometryCache.get(movingItem.componentId)
+    const fixedGeometry = getItemGeometry(fixedItem)
+    const movingGeometry = getItemGeometry(movingItem)
     if (!fixedGeometry || !movingGeometry) return
 
     const fixedConnectorLocal = getConnectorByKey(fixedGeometry, fixedRef.connectorKey)
@@ -1707,14 +2019,13 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
     }))
   }, [
     getConnectorByKey,
-    geometryCache,
+    getItemGeometry,
     isEndpointConnected,
     isItemGrounded,
     layout,
     onUpdateLayout,
     selectedEndpoints,
     selectedItemIds,
-    trackSystem,
   ])
 
   const disconnectSelectedEndpoints = useCallback(() => {
@@ -1738,7 +2049,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       rotateSelected,
       deleteSelectedItem,
       addDimensionBetweenSelectedTracks(type: 'center' | 'inner' | 'outer' = 'center') {
-        if (!layout || !trackSystem) return false
+        if (!layout) return false
         const itemCandidates =
           selectedEndpoints.length === 2
             ? Array.from(new Set(selectedEndpoints.map((ep) => ep.itemId)))
@@ -1753,10 +2064,9 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
         const firstItem = layout.placedItems.find((item) => item.id === firstId)
         const secondItem = layout.placedItems.find((item) => item.id === secondId)
         if (!firstItem || !secondItem) return false
-        if (firstItem.trackSystemId !== trackSystem.id || secondItem.trackSystemId !== trackSystem.id) return false
 
-        const firstGeometry = geometryCache.get(firstItem.componentId)
-        const secondGeometry = geometryCache.get(secondItem.componentId)
+        const firstGeometry = getItemGeometry(firstItem)
+        const secondGeometry = getItemGeometry(secondItem)
         if (!firstGeometry || !secondGeometry) return false
 
         // Assume standard width from start connector if not available elsewhere
@@ -1809,12 +2119,28 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
           ...previous,
           shapes: [...previous.shapes, newShape],
         }))
-        setSelectedShapeId(newShape.id)
+        setSelectedShapeIds(new Set([newShape.id]))
         setSelectedItemIds(new Set())
         return true
       },
+      getPastePosition() {
+        const hover = hoverPointerRef.current
+        const worldPoint = hover ? clientPointToWorld(hover) : null
+        if (worldPoint) return { x: worldPoint.x, y: worldPoint.y }
+        return { x: camera.x + viewWidth / 2, y: camera.y + viewHeight / 2 }
+      },
+      selectItems(itemIds: string[], shapeIds: string[]) {
+        setSelectedItemIds(new Set(itemIds))
+        setSelectedShapeIds(new Set(shapeIds))
+        setSelectedEndpoints([])
+        setDimensionSelection([])
+      },
     }),
     [
+      camera,
+      clientPointToWorld,
+      viewHeight,
+      viewWidth,
       connectSelectedEndpoints,
       deleteSelectedItem,
       disconnectSelectedEndpoints,
@@ -1822,8 +2148,8 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       layout,
       onUpdateLayout,
       selectedEndpoints,
-      trackSystem,
       getItemCenterDirection,
+      getItemGeometry,
       dimensionSelection,
       selectedItemIds,
     ],
@@ -1866,11 +2192,11 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       }
 
       if (event.key.toLowerCase() === 'r') {
-        if (selectedItemIds.size === 0 && !selectedShapeId) return
+        if (selectedItemIds.size === 0 && selectedShapeIds.size === 0) return
         event.preventDefault()
         rotateSelected(event.shiftKey ? -ROTATION_STEP_DEG : ROTATION_STEP_DEG)
       } else if (event.key === 'Delete' || event.key === 'Backspace') {
-        if (selectedItemIds.size === 0 && !selectedShapeId) return
+        if (selectedItemIds.size === 0 && selectedShapeIds.size === 0) return
         event.preventDefault()
         deleteSelectedItem()
       } else if (event.key === 'Escape') {
@@ -1881,9 +2207,14 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
 
     window.addEventListener('keydown', handleKey)
     return () => window.removeEventListener('keydown', handleKey)
-  }, [clearSelections, deleteSelectedItem, rotateSelected, selectedItemIds, selectedShapeId])
+  }, [clearSelections, deleteSelectedItem, rotateSelected, selectedItemIds, selectedShapeIds])
+
+  const shapeDragOffset =
+    draggingShapeId && dragPreview && dragStartTransform
+      ? { dx: dragPreview.x - dragStartTransform.x, dy: dragPreview.y - dragStartTransform.y }
+      : null
 
-  if (!layout || !trackSystem) {
+  if (!layout) {
     return (
       <div className="canvas-container flex flex-1 items-center justify-center bg-slate-900 text-sm text-slate-300">
         No active project selected
@@ -1899,12 +2230,15 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
       >
         <svg
           ref={svgRef}
-          className="h-full w-full touch-none select-none"
+          className={`h-full w-full touch-none select-none ${selectionTool ? 'cursor-crosshair' : ''}`}
           viewBox={`${camera.x} ${camera.y} ${viewWidth} ${viewHeight}`}
           role="img"
           aria-label="Track layout canvas"
           onPointerDown={handlePointerDown}
           onPointerMove={handlePointerMove}
+          onPointerLeave={() => {
+            hoverPointerRef.current = null
+          }}
           onWheel={handleWheel}
           onDragOver={handleDragOver}
           onDrop={handleDrop}
@@ -1923,14 +2257,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
             fill="url(#grid)"
           />
 
-          {layout.placedItems.map((item) => {
-            const component = componentMap.get(item.componentId)
-            const geometry = component ? geometryCache.get(component.id) : null
+          {stackedItems.map((item) => {
+            const component = getItemComponent(item)
+            const geometry = getItemGeometry(item)
             if (!component || !geometry) return null
 
             const transform = getItemTransform(item)
             const isSelected = selectedItemIds.has(item.id)
             const isGrounded = item.isGrounded ?? false
+            const metrics = getItemMetrics(item)
+            const flexControlPoints = component.type === 'flex' ? getItemFlexControlPoints(item, component) : null
+            const showFlexHandles = flexControlPoints !== null && isSelected && selectedItemIds.size === 1
             const connectorEntries = listConnectorEntries(geometry)
             const labelAnchor = computeLabelAnchor(connectorEntries)
             const trackStrokeColor = isGrounded && !isSelected ? GROUNDED_TRACK_BORDER_COLOR : isSelected ? SELECTED_TRACK_BORDER_COLOR : TRACK_BORDER_COLOR
@@ -1939,12 +2276,14 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
               labelAnchor.yMm,
               transform.rotationDeg,
             )
-            const labelOffsetPoint = rotatePointLocal(0, -LABEL_OFFSET_MM, transform.rotationDeg)
+            const labelOffsetPoint = rotatePointLocal(0, -metrics.labelOffsetMm, transform.rotationDeg)
             const labelX = transform.x + rotatedLabelAnchor.x + labelOffsetPoint.x
             const labelY = transform.y + rotatedLabelAnchor.y + labelOffsetPoint.y
 
+            const isUnderpass = levels?.underpassItemIds.has(item.id) ?? false
+
             return (
-              <g key={item.id}>
+              <g key={item.id} opacity={getLevelOpacity(item.id)}>
                 <g
                   data-track-item={item.id}
                   transform={`translate(${transform.x} ${transform.y}) rotate(${transform.rotationDeg})`}
@@ -1953,18 +2292,36 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
                   <path
                     d={geometry.buildPathD()}
                     fill="none"
-                    stroke={showColors ? getComponentFillColor(component) : TRACK_FILL_COLOR}
-                    strokeWidth={TRACK_STROKE_WIDTH_MM}
+                    stroke={
+                      showWiring
+                        ? (item.blockId && blockColorById.get(item.blockId)) || UNASSIGNED_BLOCK_COLOR
+                        : showColors
+                          ? getComponentFillColor(component)
+                          : TRACK_FILL_COLOR
+                    }
+                    strokeWidth={metrics.sleeperWidthMm}
+                    strokeDasharray={
+                      isUnderpass ? `${metrics.sleeperWidthMm * 0.6} ${metrics.sleeperWidthMm * 0.4}` : undefined
+                    }
                     strokeLinecap="butt"
                     strokeLinejoin="miter"
                   />
+                  {geometry.buildMarkerPathD && (
+                    <path
+                      d={geometry.buildMarkerPathD(metrics.sleeperWidthMm)}
+                      fill="none"
+                      stroke={ACCESSORY_MARKER_COLOR}
+                      strokeWidth={2}
+                      pointerEvents="none"
+                    />
+                  )}
                   {/* Selection/Grounded Highlight Overlay */}
                   {(isSelected || isGrounded) && (
                     <path
                       d={geometry.buildPathD()}
                       fill="none"
                       stroke={trackStrokeColor}
-                      strokeWidth={TRACK_STROKE_WIDTH_MM}
+                      strokeWidth={metrics.sleeperWidthMm}
                       strokeLinecap="butt"
                       strokeLinejoin="miter"
                       opacity={0.5}
@@ -2051,29 +2408,203 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
                       </g>
                     )
                   })}
+                  {showFlexHandles && flexControlPoints && (
+                    <g>
+                      <line
+                        x1={0}
+                        y1={0}
+                        x2={flexControlPoints[0].x}
+                        y2={flexControlPoints[0].y}
+                        stroke={FLEX_HANDLE_COLOR}
+                        strokeWidth={1}
+                        strokeDasharray="4 3"
+                        pointerEvents="none"
+                      />
+                      <line
+                        x1={flexControlPoints[2].x}
+                        y1={flexControlPoints[2].y}
+                        x2={flexControlPoints[1].x}
+                        y2={flexControlPoints[1].y}
+                        stroke={FLEX_HANDLE_COLOR}
+                        strokeWidth={1}
+                        strokeDasharray="4 3"
+                        pointerEvents="none"
+                      />
+                      {flexControlPoints.map((point, index) => {
+                        // A connected end point cannot move, so it gets no handle
+                        if (index === 2 && isEndpointConnected(item.id, 'end')) return null
+                        return (
+                          <circle
+                            key={`flex-handle-${index}`}
+                            cx={point.x}
+                            cy={point.y}
+                            r={FLEX_HANDLE_RADIUS_MM}
+                            fill={index === 2 ? FLEX_HANDLE_COLOR : 'transparent'}
+                            stroke={FLEX_HANDLE_COLOR}
+                            strokeWidth={2}
+                            style={{ cursor: 'move' }}
+                            onPointerDown={(event) =>
+                              handleFlexHandlePointerDown(event, item, index as FlexHandleIndex, flexControlPoints)
+                            }
+                          />
+                        )
+                      })}
+                    </g>
+                  )}
                 </g>
                 <text
                   data-track-item={item.id}
                   x={labelX}
                   y={labelY}
                   textAnchor="middle"
-                  fontSize={10}
+                  fontSize={metrics.labelFontSizeMm}
                   className="fill-gray-300"
                   onPointerDown={(event) => handleItemPointerDown(event, item.id, transform)}
                 >
-                  {component.id}
+                  {flexControlPoints ? `${component.id} · ${Math.round(getFlexLength(flexControlPoints))} mm` : component.id}
                 </text>
               </g>
             )
           })}
 
+          {previewItems?.map((item) => {
+            const component = getItemComponent(item)
+            if (!component) return null
+            const metrics = getItemMetrics(item)
+            const geometry = getPlacedItemGeometry(component, item, metrics.sleeperWidthMm)
+            return (
+              <path
+                key={`preview-${item.id}`}
+                d={geometry.buildPathD()}
+                transform={`translate(${item.x} ${item.y}) rotate(${item.rotationDeg})`}
+                fill="none"
+                stroke={PREVIEW_TRACK_COLOR}
+                strokeWidth={metrics.sleeperWidthMm}
+                strokeLinecap="butt"
+                opacity={0.45}
+                pointerEvents="none"
+              />
+            )
+          })}
+
+          {highlights?.map((highlight, index) => (
+            <g key={`highlight-${index}`} pointerEvents="none">
+              {highlight.itemIds?.map((itemId) => {
+                const item = itemMap.get(itemId)
+                const geometry = item ? getItemGeometry(item) : null
+                if (!item || !geometry) return null
+                const transform = getItemTransform(item)
+                return (
+                  <path
+                    key={itemId}
+                    d={geometry.buildPathD()}
+                    transform={`translate(${transform.x} ${transform.y}) rotate(${transform.rotationDeg})`}
+                    fill="none"
+                    stroke={highlight.color}
+                    strokeWidth={getItemMetrics(item).sleeperWidthMm}
+                    strokeLinecap="butt"
+                    opacity={0.55}
+                  />
+                )
+              })}
+              {highlight.endpoints?.map((endpoint) => {
+                const item = itemMap.get(endpoint.itemId)
+                const geometry = item ? getItemGeometry(item) : null
+                const local = geometry ? getConnectorByKey(geometry, endpoint.connectorKey) : null
+                if (!item || !local) return null
+                const world = transformConnector(local, getItemTransform(item))
+                return (
+                  <circle
+                    key={`${endpoint.itemId}:${endpoint.connectorKey}`}
+                    cx={world.xMm}
+                    cy={world.yMm}
+                    r={HIGHLIGHT_ENDPOINT_RADIUS}
+                    fill="none"
+                    stroke={highlight.color}
+                    strokeWidth={3}
+                  />
+                )
+              })}
+              {highlight.shapeIds?.map((shapeId) => {
+                const shape = layout.shapes.find((candidate) => candidate.id === shapeId)
+                if (!shape) return null
+                return (
+                  <polygon
+                    key={shapeId}
+                    points={getShapeOutline(shape)
+                      .map((point) => `${point.x},${point.y}`)
+                      .join(' ')}
+                    fill="none"
+                    stroke={highlight.color}
+                    strokeWidth={3}
+                  />
+                )
+              })}
+              {highlight.points?.map((point, pointIndex) => (
+                <circle
+                  key={`point-${pointIndex}`}
+                  cx={point.x}
+                  cy={point.y}
+                  r={HIGHLIGHT_ENDPOINT_RADIUS}
+                  fill="none"
+                  stroke={highlight.color}
+                  strokeWidth={3}
+                />
+              ))}
+            </g>
+          ))}
+
+          {showWiring && (
+            <g pointerEvents="none">
+              {(layout.connections ?? []).map((connection) => {
+                if (!connection.insulated) return null
+                const [endpoint] = connection.endpoints
+                const item = itemMap.get(endpoint.itemId)
+                const geometry = item ? getItemGeometry(item) : null
+                const local = geometry ? getConnectorByKey(geometry, endpoint.connectorKey) : null
+                if (!item || !local) return null
+                const world = transformConnector(local, getItemTransform(item))
+                const halfLength = getItemMetrics(item).sleeperWidthMm * 0.75
+                return (
+                  <line
+                    key={connection.endpoints.map((ref) => `${ref.itemId}:${ref.connectorKey}`).join('|')}
+                    x1={world.xMm - world.dir.y * halfLength}
+                    y1={world.yMm + world.dir.x * halfLength}
+                    x2={world.xMm + world.dir.y * halfLength}
+                    y2={world.yMm - world.dir.x * halfLength}
+                    stroke={INSULATED_JOINT_COLOR}
+                    strokeWidth={4}
+                  />
+                )
+              })}
+              {layout.placedItems.map((item) => {
+                const geometry = item.hasFeeder ? getItemGeometry(item) : null
+                if (!geometry) return null
+                const transform = getItemTransform(item)
+                const anchor = computeLabelAnchor(listConnectorEntries(geometry))
+                const rotated = rotatePointLocal(anchor.xMm, anchor.yMm, transform.rotationDeg)
+                return (
+                  <circle
+                    key={`feeder-${item.id}`}
+                    cx={transform.x + rotated.x}
+                    cy={transform.y + rotated.y}
+                    r={FEEDER_MARKER_RADIUS}
+                    fill={FEEDER_MARKER_COLOR}
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                )
+              })}
+            </g>
+          )}
+
           {/* Render shapes */}
           {layout.shapes.map((shape) => {
-            const isSelected = selectedShapeId === shape.id
-            const isDragging = draggingShapeId === shape.id
-            const x = isDragging && dragPreview ? dragPreview.x : shape.x
-            const y = isDragging && dragPreview ? dragPreview.y : shape.y
-            const rotationDeg = isDragging && dragPreview ? dragPreview.rotationDeg : shape.rotationDeg
+            const isSelected = selectedShapeIds.has(shape.id)
+            const isDragging = shapeDragOffset !== null && (draggingShapeId === shape.id || isSelected)
+            const x = isDragging ? shape.x + shapeDragOffset.dx : shape.x
+            const y = isDragging ? shape.y + shapeDragOffset.dy : shape.y
+            const rotationDeg = shape.rotationDeg
             const strokeColor = isSelected ? SELECTED_SHAPE_STROKE_COLOR : SHAPE_STROKE_COLOR
             const strokeWidth = isSelected ? SHAPE_STROKE_WIDTH + 1 : SHAPE_STROKE_WIDTH
 
@@ -2433,6 +2964,19 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(function Canvas(
               />
             )
           })()}
+
+          {/* Render the rubber band or lasso while selecting */}
+          {selectionDrag && selectionDrag.region.length > 1 && (
+            <polygon
+              points={selectionDrag.region.map((point) => `${point.x},${point.y}`).join(' ')}
+              fill={SELECTION_REGION_FILL_COLOR}
+              fillOpacity={0.1}
+              stroke={SELECTION_REGION_STROKE_COLOR}
+              strokeWidth={SHAPE_STROKE_WIDTH}
+              strokeDasharray="6 4"
+              pointerEvents="none"
+            />
+          )}
         </svg>
       </div>
     </div>
@@ -0,0 +1,116 @@
+import type { TrackSystemDefinition } from '../../types/trackSystem'
+import { getClearanceConflictKey, type ClearanceConflict } from '../../analysis/clearanceReport'
+
+interface ClearanceReportPanelProps {
+  conflicts: ClearanceConflict[]
+  /** Track systems on the layout with the envelope half width in use for each */
+  envelopes: { system: TrackSystemDefinition; halfWidthMm: number }[]
+  onEnvelopeChange: (trackSystemId: string, halfWidthMm: number) => void
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onClose: () => void
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+const KIND_BADGES: Record<ClearanceConflict['kind'], { label: string; className: string }> = {
+  crossing: { label: 'overlap', className: 'bg-red-500/20 text-red-300' },
+  track: { label: 'too close', className: 'bg-amber-500/20 text-amber-300' },
+  shape: { label: 'object', className: 'bg-slate-800 text-slate-400' },
+}
+
+export function ClearanceReportPanel({
+  conflicts,
+  envelopes,
+  onEnvelopeChange,
+  focusedKey,
+  onFocus,
+  onClose,
+}: ClearanceReportPanelProps) {
+  const overlapCount = conflicts.filter((conflict) => conflict.kind === 'crossing').length
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Clearance</span>
+          <p className="text-sm font-medium text-slate-100">
+            {conflicts.length === 0
+              ? 'Every track has room'
+              : `${conflicts.length} ${conflicts.length === 1 ? 'conflict' : 'conflicts'} · ${overlapCount} overlapping`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="grid grid-cols-2 gap-2 px-3 py-2">
+        {envelopes.map(({ system, halfWidthMm }) => (
+          <label key={system.id} className={labelClassName}>
+            {system.name} ± (mm)
+            <input
+              type="number"
+              min={0}
+              step="1"
+              value={halfWidthMm}
+              onChange={(event) => {
+                const parsed = Number(event.target.value)
+                if (Number.isFinite(parsed) && parsed >= 0) onEnvelopeChange(system.id, parsed)
+              }}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="px-3 pb-2 text-xs text-slate-500">
+        Room each track needs on either side of its centre line. Pieces joined directly or through one piece are
+        not compared.
+      </p>
+
+      {conflicts.length > 0 && (
+        <ul className="flex max-h-72 flex-col gap-1 overflow-y-auto border-t border-slate-800 px-3 py-2">
+          {conflicts.map((conflict) => {
+            const key = getClearanceConflictKey(conflict)
+            const isFocused = key === focusedKey
+            const badge = KIND_BADGES[conflict.kind]
+            return (
+              <li key={key}>
+                <button
+                  type="button"
+                  onClick={() => onFocus(isFocused ? null : key)}
+                  className={`w-full rounded border px-2 py-1 text-left transition ${
+                    isFocused
+                      ? 'border-red-500/60 bg-red-500/10'
+                      : 'border-slate-800 bg-slate-900 hover:border-slate-600 hover:bg-slate-800'
+                  }`}
+                >
+                  <span className="flex items-center justify-between gap-2 text-sm text-slate-100">
+                    <span>
+                      {conflict.componentIds.join(' ↔ ')}
+                      {conflict.kind === 'shape' && ' ↔ object'}
+                    </span>
+                    <span className={`rounded px-1 text-[10px] font-semibold uppercase ${badge.className}`}>
+                      {badge.label}
+                    </span>
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {conflict.kind === 'crossing'
+                      ? `Centre lines cross · ${conflict.requiredMm.toFixed(0)} mm needed`
+                      : `${conflict.distanceMm.toFixed(1)} mm apart · ${conflict.requiredMm.toFixed(0)} mm needed`}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,118 @@
+import type { EndpointGap } from '../../types/analysis'
+import { getEndpointGapKey, type ClosureReportOptions } from '../../analysis/closureReport'
+
+interface ClosureReportPanelProps {
+  gaps: EndpointGap[]
+  options: ClosureReportOptions
+  onOptionsChange: (options: ClosureReportOptions) => void
+  focusedGapKey: string | null
+  onFocusGap: (key: string | null) => void
+  onClose: () => void
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+export function ClosureReportPanel({
+  gaps,
+  options,
+  onOptionsChange,
+  focusedGapKey,
+  onFocusGap,
+  onClose,
+}: ClosureReportPanelProps) {
+  const worstGap = gaps[0]
+
+  const updateOption = (key: keyof ClosureReportOptions, value: string) => {
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed < 0) return
+    onOptionsChange({ ...options, [key]: parsed })
+  }
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Closure report</span>
+          <p className="text-sm font-medium text-slate-100">
+            {gaps.length === 0
+              ? 'Every joint closes exactly'
+              : `${gaps.length} inexact ${gaps.length === 1 ? 'joint' : 'joints'} · worst ${worstGap.positionGapMm.toFixed(2)} mm`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="grid grid-cols-2 gap-2 px-3 py-2">
+        <label className={labelClassName}>
+          Open ends within (mm)
+          <input
+            type="number"
+            min={0}
+            step="1"
+            value={options.maxGapMm}
+            onChange={(event) => updateOption('maxGapMm', event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className={labelClassName}>
+          and within (°)
+          <input
+            type="number"
+            min={0}
+            step="1"
+            value={options.maxAngleDeg}
+            onChange={(event) => updateOption('maxAngleDeg', event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {gaps.length > 0 && (
+        <ul className="flex max-h-72 flex-col gap-1 overflow-y-auto border-t border-slate-800 px-3 py-2">
+          {gaps.map((gap) => {
+            const key = getEndpointGapKey(gap)
+            const isFocused = key === focusedGapKey
+            return (
+              <li key={key}>
+                <button
+                  type="button"
+                  onClick={() => onFocusGap(isFocused ? null : key)}
+                  className={`w-full rounded border px-2 py-1 text-left transition ${
+                    isFocused
+                      ? 'border-red-500/60 bg-red-500/10'
+                      : 'border-slate-800 bg-slate-900 hover:border-slate-600 hover:bg-slate-800'
+                  }`}
+                >
+                  <span className="flex items-center justify-between gap-2 text-sm text-slate-100">
+                    <span>
+                      {gap.componentIds[0]} {gap.endpoints[0].connectorKey} ↔ {gap.componentIds[1]}{' '}
+                      {gap.endpoints[1].connectorKey}
+                    </span>
+                    <span
+                      className={`rounded px-1 text-[10px] font-semibold uppercase ${
+                        gap.connected ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-800 text-slate-400'
+                      }`}
+                    >
+                      {gap.connected ? 'slop' : 'open'}
+                    </span>
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {gap.positionGapMm.toFixed(2)} mm gap · {gap.angleErrorDeg.toFixed(2)}° off
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
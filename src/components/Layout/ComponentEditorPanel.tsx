@@ -0,0 +1,667 @@
+import { useMemo, useState, type FormEvent } from 'react'
+import type { AccessoryKind, TrackComponentDefinition, TrackSystemDefinition } from '../../types/trackSystem'
+import { getComponentGeometry } from '../../geometry/trackGeometry'
+import { getTrackSystemMetrics } from '../../geometry/trackSystemMetrics'
+import { getPolylineBounds, samplePathD } from '../../geometry/pathSampling'
+import { ACCESSORY_KIND_LABELS, ACCESSORY_KINDS } from '../../constants/trackUsage'
+
+interface ComponentEditorPanelProps {
+  trackSystem: TrackSystemDefinition
+  /** Component being edited; null creates a new one */
+  component: TrackComponentDefinition | null
+  usageCount: number
+  onSave: (component: TrackComponentDefinition, previousId?: string) => void
+  onDelete?: (componentId: string) => void
+  onClose: () => void
+}
+
+type EditableComponentType = 'straight' | 'curve' | 'switch' | 'crossing' | 'flex' | 'turntable' | 'traverser' | 'accessory'
+type SwitchVariant = 'simple-switch' | 'three-way' | 'double-slip' | 'curved-switch' | 'y-switch'
+type TurnoutHand = 'left' | 'right'
+
+type ComponentDraft = {
+  id: string
+  label: string
+  article: string
+  color: string
+  type: EditableComponentType
+  variant: SwitchVariant
+  accessoryKind: AccessoryKind
+  hand: TurnoutHand
+  clockwise: boolean
+  lengthMm: string
+  radiusMm: string
+  angleDeg: string
+  innerRadiusMm: string
+  outerRadiusMm: string
+  trackSpacingMm: string
+  trackCount: string
+}
+
+const COMPONENT_TYPE_OPTIONS: { value: EditableComponentType; label: string }[] = [
+  { value: 'straight', label: 'Straight' },
+  { value: 'curve', label: 'Curve' },
+  { value: 'switch', label: 'Switch' },
+  { value: 'crossing', label: 'Crossing' },
+  { value: 'flex', label: 'Flex track' },
+  { value: 'turntable', label: 'Turntable' },
+  { value: 'traverser', label: 'Transfer table' },
+  { value: 'accessory', label: 'Accessory' },
+]
+
+const SWITCH_VARIANT_OPTIONS: { value: SwitchVariant; label: string }[] = [
+  { value: 'simple-switch', label: 'Simple switch' },
+  { value: 'three-way', label: 'Three-way switch' },
+  { value: 'double-slip', label: 'Double slip' },
+  { value: 'curved-switch', label: 'Curved switch' },
+  { value: 'y-switch', label: 'Y switch' },
+]
+
+const DEFAULT_COLOR = '#94A3B8'
+const PREVIEW_PADDING_MM = 20
+
+const inputClassName =
+  'rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+const readNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? String(value) : '')
+
+const parsePositive = (value: string): number | null => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+const parseNonNegative = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+/**
+ * The geometry's `direction` is expressed in local +y terms, which renders mirrored on screen:
+ * a left-hand turnout (WL) uses `direction: 'right'`. The editor speaks in turnout hands instead.
+ */
+const handToDirection = (hand: TurnoutHand) => (hand === 'left' ? 'right' : 'left')
+const directionToHand = (direction: unknown): TurnoutHand => (direction === 'left' ? 'right' : 'left')
+
+function draftFromComponent(component: TrackComponentDefinition | null): ComponentDraft {
+  const meta = component?.meta ?? {}
+  const variant = (typeof meta.variant === 'string' ? meta.variant : 'simple-switch') as SwitchVariant
+  const type = component && component.type !== 'other' ? component.type : 'straight'
+
+  const draft: ComponentDraft = {
+    id: component?.id ?? '',
+    label: component?.label ?? '',
+    article: component?.article ?? '',
+    color: component?.color ?? DEFAULT_COLOR,
+    type,
+    variant,
+    accessoryKind: ACCESSORY_KINDS.includes(meta.kind as AccessoryKind) ? (meta.kind as AccessoryKind) : 'buffer-stop',
+    hand: directionToHand(meta.direction),
+    clockwise: component?.clockwise ?? false,
+    lengthMm: readNumber(component?.lengthMm),
+    radiusMm: readNumber(component?.radiusMm),
+    angleDeg: readNumber(component?.angleDeg),
+    innerRadiusMm: readNumber(meta.innerRadiusMm),
+    outerRadiusMm: readNumber(meta.outerRadiusMm),
+    trackSpacingMm: readNumber(meta.trackSpacingMm),
+    trackCount: readNumber(meta.trackCount),
+  }
+
+  if (type === 'crossing') {
+    draft.lengthMm = readNumber(meta.lengthMm) || draft.lengthMm
+    draft.angleDeg = readNumber(meta.crossingAngleDeg)
+  }
+  if (type === 'turntable') {
+    draft.lengthMm = readNumber(meta.diameterMm)
+    draft.angleDeg = readNumber(meta.connectorSpacingDeg)
+    draft.trackCount = readNumber(meta.connectorCount)
+  }
+  if (type === 'traverser') {
+    draft.lengthMm = readNumber(meta.bridgeLengthMm)
+  }
+  if (type === 'accessory') {
+    draft.lengthMm = readNumber(meta.lengthMm) || draft.lengthMm
+  }
+  if (type === 'switch') {
+    if (variant === 'simple-switch' || variant === 'three-way') {
+      draft.lengthMm = readNumber(meta.straightLengthMm) || draft.lengthMm
+      draft.radiusMm = readNumber(meta.branchRadiusMm)
+      draft.angleDeg = readNumber(meta.branchAngleDeg)
+    }
+    if (variant === 'double-slip') {
+      draft.lengthMm = readNumber(meta.lengthMm) || draft.lengthMm
+      draft.radiusMm = readNumber(meta.slipRadiusMm)
+      draft.angleDeg = readNumber(meta.crossingAngleDeg)
+    }
+    if (variant === 'curved-switch') {
+      draft.angleDeg = readNumber(meta.angleDeg)
+    }
+    if (variant === 'y-switch') {
+      draft.lengthMm = readNumber(meta.stubLengthMm)
+      draft.radiusMm = readNumber(meta.branchRadiusMm)
+      draft.angleDeg = readNumber(meta.branchAngleDeg)
+    }
+  }
+
+  return draft
+}
+
+type BuildResult = { ok: true; component: TrackComponentDefinition } | { ok: false; error: string }
+
+function buildComponentFromDraft(draft: ComponentDraft): BuildResult {
+  const id = draft.id.trim()
+  if (!id) return { ok: false, error: 'Enter an id for the component.' }
+
+  const base: TrackComponentDefinition = {
+    id,
+    label: draft.label.trim() || id,
+    type: draft.type,
+    color: draft.color,
+    isCustom: true,
+  }
+  const article = draft.article.trim()
+  if (article) base.article = article
+
+  const length = parsePositive(draft.lengthMm)
+  const radius = parsePositive(draft.radiusMm)
+  const angle = parsePositive(draft.angleDeg)
+  const trackCount = parsePositive(draft.trackCount)
+
+  switch (draft.type) {
+    case 'straight':
+    case 'flex':
+      if (length === null) return { ok: false, error: 'Length must be greater than 0.' }
+      return { ok: true, component: { ...base, lengthMm: length } }
+    case 'curve':
+      if (radius === null) return { ok: false, error: 'Radius must be greater than 0.' }
+      if (angle === null || angle >= 180) return { ok: false, error: 'Angle must be between 0° and 180°.' }
+      return { ok: true, component: { ...base, radiusMm: radius, angleDeg: angle, clockwise: draft.clockwise } }
+    case 'crossing':
+      if (length === null) return { ok: false, error: 'Length must be greater than 0.' }
+      if (angle === null || angle >= 90) return { ok: false, error: 'Crossing angle must be between 0° and 90°.' }
+      return {
+        ok: true,
+        component: { ...base, lengthMm: length, meta: { lengthMm: length, crossingAngleDeg: angle } },
+      }
+    case 'turntable':
+      if (length === null) return { ok: false, error: 'Diameter must be greater than 0.' }
+      if (angle === null || angle >= 360) return { ok: false, error: 'Track spacing must be between 0° and 360°.' }
+      if (trackCount === null || !Number.isInteger(trackCount)) {
+        return { ok: false, error: 'The number of tracks must be a whole number above 0.' }
+      }
+      if (trackCount * angle > 360 + 1e-6) return { ok: false, error: 'The tracks run more than once around the pit.' }
+      return {
+        ok: true,
+        component: {
+          ...base,
+          lengthMm: length,
+          meta: { diameterMm: length, connectorSpacingDeg: angle, connectorCount: trackCount },
+        },
+      }
+    case 'traverser': {
+      const spacing = parsePositive(draft.trackSpacingMm)
+      if (length === null) return { ok: false, error: 'Bridge length must be greater than 0.' }
+      if (spacing === null) return { ok: false, error: 'Track spacing must be greater than 0.' }
+      if (trackCount === null || !Number.isInteger(trackCount)) {
+        return { ok: false, error: 'The number of tracks must be a whole number above 0.' }
+      }
+      return {
+        ok: true,
+        component: {
+          ...base,
+          lengthMm: length,
+          meta: { bridgeLengthMm: length, trackSpacingMm: spacing, trackCount },
+        },
+      }
+    }
+    case 'accessory':
+      if (length === null) return { ok: false, error: 'Length must be greater than 0.' }
+      return {
+        ok: true,
+        component: { ...base, lengthMm: length, meta: { kind: draft.accessoryKind, lengthMm: length } },
+      }
+    case 'switch':
+      return buildSwitchFromDraft(draft, base, length, radius, angle)
+  }
+}
+
+function buildSwitchFromDraft(
+  draft: ComponentDraft,
+  base: TrackComponentDefinition,
+  length: number | null,
+  radius: number | null,
+  angle: number | null,
+): BuildResult {
+  if (angle === null || angle >= 90) return { ok: false, error: 'Angle must be between 0° and 90°.' }
+
+  if (draft.variant === 'curved-switch') {
+    const inner = parsePositive(draft.innerRadiusMm)
+    const outer = parsePositive(draft.outerRadiusMm)
+    if (inner === null || outer === null) return { ok: false, error: 'Both radii must be greater than 0.' }
+    if (inner >= outer) return { ok: false, error: 'The inner radius must be smaller than the outer radius.' }
+    return {
+      ok: true,
+      component: {
+        ...base,
+        meta: {
+          variant: 'curved-switch',
+          direction: handToDirection(draft.hand),
+          innerRadiusMm: inner,
+          outerRadiusMm: outer,
+          angleDeg: angle,
+        },
+      },
+    }
+  }
+
+  if (draft.variant === 'y-switch') {
+    // Symmetric turnouts such as PIKO's WY branch right at the start, without a straight stub
+    const stub = parseNonNegative(draft.lengthMm)
+    if (stub === null) return { ok: false, error: 'Stub length must be 0 or more.' }
+    if (radius === null) return { ok: false, error: 'Radius must be greater than 0.' }
+    return {
+      ok: true,
+      component: {
+        ...base,
+        meta: { variant: 'y-switch', stubLengthMm: stub, branchRadiusMm: radius, branchAngleDeg: angle },
+      },
+    }
+  }
+
+  if (length === null) return { ok: false, error: 'Length must be greater than 0.' }
+  if (radius === null) return { ok: false, error: 'Radius must be greater than 0.' }
+
+  switch (draft.variant) {
+    case 'simple-switch':
+      return {
+        ok: true,
+        component: {
+          ...base,
+          lengthMm: length,
+          meta: {
+            variant: 'simple-switch',
+            direction: handToDirection(draft.hand),
+            straightLengthMm: length,
+            branchRadiusMm: radius,
+            branchAngleDeg: angle,
+          },
+        },
+      }
+    case 'three-way':
+      return {
+        ok: true,
+        component: {
+          ...base,
+          lengthMm: length,
+          meta: {
+            variant: 'three-way',
+            straightLengthMm: length,
+            branchRadiusMm: radius,
+            branchAngleDeg: angle,
+            branchOffsetMm: 0,
+          },
+        },
+      }
+    case 'double-slip':
+      return {
+        ok: true,
+        component: {
+          ...base,
+          lengthMm: length,
+          meta: { variant: 'double-slip', lengthMm: length, crossingAngleDeg: angle, slipRadiusMm: radius },
+        },
+      }
+  }
+}
+
+export function ComponentEditorPanel({
+  trackSystem,
+  component,
+  usageCount,
+  onSave,
+  onDelete,
+  onClose,
+}: ComponentEditorPanelProps) {
+  const [draft, setDraft] = useState<ComponentDraft>(() => draftFromComponent(component))
+  const metrics = useMemo(() => getTrackSystemMetrics(trackSystem), [trackSystem])
+
+  const updateDraft = <K extends keyof ComponentDraft>(key: K, value: ComponentDraft[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }))
+  }
+
+  const result = useMemo(() => buildComponentFromDraft(draft), [draft])
+
+  const idConflict = useMemo(() => {
+    const id = draft.id.trim()
+    return trackSystem.components.some((candidate) => candidate.id === id && candidate.id !== component?.id)
+  }, [component, draft.id, trackSystem])
+
+  const preview = useMemo(() => {
+    if (!result.ok) return null
+    const geometry = getComponentGeometry(result.component, metrics.sleeperWidthMm)
+    const pathD = geometry.buildPathD()
+    const bounds = getPolylineBounds(samplePathD(pathD))
+    if (!bounds) return null
+    const padding = metrics.sleeperWidthMm + PREVIEW_PADDING_MM
+    const connectors = [
+      geometry.start,
+      geometry.end,
+      ...Object.values(geometry.extraConnectors ?? {}),
+    ]
+    return {
+      pathD,
+      markerPathD: geometry.buildMarkerPathD?.(metrics.sleeperWidthMm) ?? null,
+      connectors,
+      viewBox: [
+        bounds.minX - padding,
+        bounds.minY - padding,
+        bounds.maxX - bounds.minX + padding * 2,
+        bounds.maxY - bounds.minY + padding * 2,
+      ].join(' '),
+    }
+  }, [metrics, result])
+
+  const error = !result.ok ? result.error : idConflict ? `"${draft.id.trim()}" already exists in ${trackSystem.name}.` : null
+  const isSwitch = draft.type === 'switch'
+  const usesHand = isSwitch && (draft.variant === 'simple-switch' || draft.variant === 'curved-switch')
+  const usesLength = draft.type !== 'curve' && !(isSwitch && draft.variant === 'curved-switch')
+  const usesRadius = draft.type === 'curve' || (isSwitch && draft.variant !== 'curved-switch')
+  const usesInnerOuterRadius = isSwitch && draft.variant === 'curved-switch'
+  const usesAngle =
+    draft.type !== 'straight' && draft.type !== 'flex' && draft.type !== 'traverser' && draft.type !== 'accessory'
+  const usesTracks = draft.type === 'turntable' || draft.type === 'traverser'
+  const lengthLabel =
+    isSwitch && draft.variant === 'y-switch'
+      ? 'Stub length (mm)'
+      : draft.type === 'flex'
+        ? 'Stock length (mm)'
+        : draft.type === 'turntable'
+          ? 'Diameter (mm)'
+          : draft.type === 'traverser'
+            ? 'Bridge length (mm)'
+            : draft.type === 'accessory' && draft.accessoryKind === 'buffer-stop'
+              ? 'Body length (mm)'
+              : 'Length (mm)'
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!result.ok || idConflict) return
+    onSave(result.component, component?.id)
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70">
+      <form
+        onSubmit={handleSubmit}
+        className="flex max-h-[90vh] w-[640px] flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl"
+      >
+        <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+          <div>
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {component ? 'Edit custom component' : 'New custom component'}
+            </span>
+            <p className="text-sm font-medium text-slate-100">{trackSystem.name}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+          >
+            Close
+          </button>
+        </header>
+
+        <div className="flex flex-1 gap-4 overflow-y-auto px-4 py-3">
+          <div className="flex w-56 flex-col gap-2">
+            <label className={labelClassName}>
+              Id
+              <input value={draft.id} onChange={(event) => updateDraft('id', event.target.value)} className={inputClassName} />
+            </label>
+            <label className={labelClassName}>
+              Label
+              <input
+                value={draft.label}
+                onChange={(event) => updateDraft('label', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className={labelClassName}>
+              Article
+              <input
+                value={draft.article}
+                onChange={(event) => updateDraft('article', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className={labelClassName}>
+              Color
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(event) => updateDraft('color', event.target.value)}
+                className="h-8 w-full rounded border border-slate-800 bg-slate-900"
+              />
+            </label>
+            <label className={labelClassName}>
+              Type
+              <select
+                value={draft.type}
+                onChange={(event) => updateDraft('type', event.target.value as EditableComponentType)}
+                className={inputClassName}
+              >
+                {COMPONENT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {isSwitch && (
+              <label className={labelClassName}>
+                Switch variant
+                <select
+                  value={draft.variant}
+                  onChange={(event) => updateDraft('variant', event.target.value as SwitchVariant)}
+                  className={inputClassName}
+                >
+                  {SWITCH_VARIANT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {draft.type === 'accessory' && (
+              <label className={labelClassName}>
+                Accessory
+                <select
+                  value={draft.accessoryKind}
+                  onChange={(event) => updateDraft('accessoryKind', event.target.value as AccessoryKind)}
+                  className={inputClassName}
+                >
+                  {ACCESSORY_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {ACCESSORY_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {usesHand && (
+              <label className={labelClassName}>
+                Direction
+                <select
+                  value={draft.hand}
+                  onChange={(event) => updateDraft('hand', event.target.value as TurnoutHand)}
+                  className={inputClassName}
+                >
+                  <option value="left">Left</option>
+                  <option value="right">Right</option>
+                </select>
+              </label>
+            )}
+            {usesLength && (
+              <label className={labelClassName}>
+                {lengthLabel}
+                <input
+                  type="number"
+                  step="0.01"
+                  value={draft.lengthMm}
+                  onChange={(event) => updateDraft('lengthMm', event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            {usesRadius && (
+              <label className={labelClassName}>
+                Radius (mm)
+                <input
+                  type="number"
+                  step="0.01"
+                  value={draft.radiusMm}
+                  onChange={(event) => updateDraft('radiusMm', event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            {usesInnerOuterRadius && (
+              <>
+                <label className={labelClassName}>
+                  Inner radius (mm)
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={draft.innerRadiusMm}
+                    onChange={(event) => updateDraft('innerRadiusMm', event.target.value)}
+                    className={inputClassName}
+                  />
+                </label>
+                <label className={labelClassName}>
+                  Outer radius (mm)
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={draft.outerRadiusMm}
+                    onChange={(event) => updateDraft('outerRadiusMm', event.target.value)}
+                    className={inputClassName}
+                  />
+                </label>
+              </>
+            )}
+            {usesAngle && (
+              <label className={labelClassName}>
+                {draft.type === 'turntable' ? 'Track spacing (°)' : 'Angle (°)'}
+                <input
+                  type="number"
+                  step="0.1"
+                  value={draft.angleDeg}
+                  onChange={(event) => updateDraft('angleDeg', event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            {draft.type === 'traverser' && (
+              <label className={labelClassName}>
+                Track spacing (mm)
+                <input
+                  type="number"
+                  step="0.01"
+                  value={draft.trackSpacingMm}
+                  onChange={(event) => updateDraft('trackSpacingMm', event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            {usesTracks && (
+              <label className={labelClassName}>
+                {draft.type === 'turntable' ? 'Tracks' : 'Tracks per side'}
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={draft.trackCount}
+                  onChange={(event) => updateDraft('trackCount', event.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            {draft.type === 'curve' && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={draft.clockwise}
+                  onChange={(event) => updateDraft('clockwise', event.target.checked)}
+                />
+                Clockwise
+              </label>
+            )}
+          </div>
+
+          <div className="flex flex-1 flex-col gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Preview</span>
+            <div className="flex flex-1 items-center justify-center rounded border border-slate-800 bg-slate-900/60 p-2">
+              {preview ? (
+                <svg viewBox={preview.viewBox} className="h-72 w-full">
+                  <path
+                    d={preview.pathD}
+                    fill="none"
+                    stroke={draft.color}
+                    strokeWidth={metrics.sleeperWidthMm}
+                    strokeLinecap="butt"
+                    strokeLinejoin="miter"
+                  />
+                  <path d={preview.pathD} fill="none" stroke="#0f172a" strokeWidth={1} />
+                  {preview.markerPathD && (
+                    <path d={preview.markerPathD} fill="none" stroke="#f8fafc" strokeWidth={2} />
+                  )}
+                  {preview.connectors.map((connector, index) => (
+                    <circle
+                      key={index}
+                      cx={connector.xMm}
+                      cy={connector.yMm}
+                      r={metrics.sleeperWidthMm / 4}
+                      fill="#16a34a"
+                    />
+                  ))}
+                </svg>
+              ) : (
+                <p className="text-sm text-slate-500">Fill in the dimensions to see a preview.</p>
+              )}
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {component && usageCount > 0 && (
+              <p className="text-xs text-slate-500">
+                Used {usageCount}× in this layout. Changing its shape may leave existing connections misaligned.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <footer className="flex items-center justify-between border-t border-slate-800 px-4 py-3">
+          {component && onDelete ? (
+            <button
+              type="button"
+              disabled={usageCount > 0}
+              title={usageCount > 0 ? 'Remove the placed pieces before deleting this component' : undefined}
+              onClick={() => onDelete(component.id)}
+              className="rounded bg-red-900 px-3 py-1 text-xs font-semibold text-red-300 transition hover:bg-red-800 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Delete
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={Boolean(error)}
+            className="rounded bg-blue-900 px-3 py-1 text-xs font-semibold text-blue-300 transition hover:bg-blue-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Save component
+          </button>
+        </footer>
+      </form>
+    </div>
+  )
+}
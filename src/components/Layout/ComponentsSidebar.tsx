@@ -1,11 +1,30 @@
 import type { DragEvent } from 'react'
-import type { TrackComponentDefinition, TrackSystemDefinition } from '../../types/trackSystem'
+import type { AccessoryKind, TrackComponentDefinition, TrackSystemDefinition } from '../../types/trackSystem'
+import type { SubAssembly } from '../../types/subAssembly'
+import { ACCESSORY_KIND_LABELS } from '../../constants/trackUsage'
 
 interface ComponentsSidebarProps {
   trackSystem: TrackSystemDefinition | null
+  availableTrackSystems: TrackSystemDefinition[]
+  onSelectTrackSystem?: (trackSystemId: string) => void
   onComponentClick?: (component: TrackComponentDefinition) => void
+  onCreateCustomComponent?: () => void
+  onEditCustomComponent?: (component: TrackComponentDefinition) => void
+  onImportCatalog?: () => void
+  onExportCatalog?: () => void
+  /** Only provided when the active system comes from the imported catalog library */
+  onRemoveCatalog?: () => void
+  subAssemblies?: SubAssembly[]
+  /** Saving needs at least one selected piece */
+  canSaveSubAssembly?: boolean
+  onSaveSubAssembly?: () => void
+  onPlaceSubAssembly?: (subAssembly: SubAssembly) => void
+  onDeleteSubAssembly?: (subAssembly: SubAssembly) => void
 }
 
+const catalogButtonClassName =
+  'rounded border border-slate-800 bg-slate-900 px-2 py-0.5 font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500/60'
+
 function formatComponentSubtitle(component: TrackComponentDefinition): string {
   if (component.type === 'straight' && component.lengthMm) {
     return `${component.lengthMm} mm`
@@ -27,10 +46,34 @@ function formatComponentSubtitle(component: TrackComponentDefinition): string {
     }
     return 'Switch'
   }
+  if (component.type === 'accessory') {
+    const kind = ACCESSORY_KIND_LABELS[component.meta?.kind as AccessoryKind] ?? 'Accessory'
+    return component.lengthMm ? `${kind}, ${component.lengthMm} mm` : kind
+  }
+  if (component.type === 'turntable' || component.type === 'traverser') {
+    const tracks = component.meta?.connectorCount ?? component.meta?.trackCount
+    const size = component.lengthMm ? `${component.type === 'turntable' ? '⌀' : ''}${component.lengthMm} mm` : ''
+    return [size, typeof tracks === 'number' ? `${tracks} tracks` : ''].filter(Boolean).join(', ')
+  }
   return ''
 }
 
-export function ComponentsSidebar({ trackSystem, onComponentClick }: ComponentsSidebarProps) {
+export function ComponentsSidebar({
+  trackSystem,
+  availableTrackSystems,
+  onSelectTrackSystem,
+  onComponentClick,
+  onCreateCustomComponent,
+  onEditCustomComponent,
+  onImportCatalog,
+  onExportCatalog,
+  onRemoveCatalog,
+  subAssemblies = [],
+  canSaveSubAssembly = false,
+  onSaveSubAssembly,
+  onPlaceSubAssembly,
+  onDeleteSubAssembly,
+}: ComponentsSidebarProps) {
   const handleDragStart = (event: DragEvent<HTMLButtonElement>, component: TrackComponentDefinition) => {
     if (!trackSystem) return
     const payload = {
@@ -42,13 +85,67 @@ export function ComponentsSidebar({ trackSystem, onComponentClick }: ComponentsS
     event.dataTransfer.setData('application/json', JSON.stringify(payload))
   }
 
+  const handleSubAssemblyDragStart = (event: DragEvent<HTMLButtonElement>, subAssembly: SubAssembly) => {
+    event.dataTransfer.effectAllowed = 'copy'
+    event.dataTransfer.setData('application/json', JSON.stringify({ type: 'sub-assembly', subAssemblyId: subAssembly.id }))
+  }
+
   return (
     <aside className="sidebar-right w-64 border-l border-slate-800 bg-slate-950 flex flex-col text-slate-100">
       <header className="flex flex-col gap-1 border-b border-slate-800 px-4 py-3">
-        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Components</span>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Components</span>
+          {trackSystem && onCreateCustomComponent && (
+            <button
+              type="button"
+              onClick={onCreateCustomComponent}
+              className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500/60"
+            >
+              New custom
+            </button>
+          )}
+        </div>
         <p className="text-sm font-medium text-slate-100">
           {trackSystem ? `Components – ${trackSystem.name}` : 'No active track system'}
         </p>
+        {availableTrackSystems.length > 0 && (
+          <label className="mt-1 flex flex-col gap-1 text-xs text-slate-400">
+            Track system
+            <select
+              value={trackSystem?.id ?? ''}
+              onChange={(event) => onSelectTrackSystem?.(event.target.value)}
+              className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60"
+            >
+              {!trackSystem && <option value="">Select a track system</option>}
+              {availableTrackSystems.map((system) => (
+                <option key={system.id} value={system.id}>
+                  {system.name} ({system.scale})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="mt-1 flex gap-1 text-xs">
+          {onImportCatalog && (
+            <button type="button" onClick={onImportCatalog} className={catalogButtonClassName}>
+              Import catalog
+            </button>
+          )}
+          {trackSystem && onExportCatalog && (
+            <button type="button" onClick={onExportCatalog} className={catalogButtonClassName}>
+              Export
+            </button>
+          )}
+          {onRemoveCatalog && (
+            <button
+              type="button"
+              onClick={onRemoveCatalog}
+              className="rounded bg-red-900 px-2 py-0.5 font-semibold text-red-300 transition hover:bg-red-800 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-400/60"
+            >
+              Remove
+            </button>
+          )}
+        </div>
       </header>
 
       <div className="flex-1 overflow-y-auto px-4 py-3">
@@ -57,22 +154,33 @@ export function ComponentsSidebar({ trackSystem, onComponentClick }: ComponentsS
             {trackSystem.components.map((component) => {
               const subtitle = formatComponentSubtitle(component)
               return (
-                <li key={component.id}>
+                <li key={component.id} className="flex gap-1">
                   <button
                     type="button"
                     draggable
                     onDragStart={(event) => handleDragStart(event, component)}
                     onClick={() => onComponentClick?.(component)}
-                    className="flex w-full flex-col rounded border border-slate-800/80 bg-slate-900/70 px-3 py-2 text-left transition hover:border-slate-600 hover:bg-slate-900/90"
+                    className="flex min-w-0 flex-1 flex-col rounded border border-slate-800/80 bg-slate-900/70 px-3 py-2 text-left transition hover:border-slate-600 hover:bg-slate-900/90"
                   >
                     <div className="flex items-center justify-between gap-2">
                       <span className="text-sm font-semibold text-slate-100">{component.id}</span>
-                      <span className="text-xs text-slate-500 capitalize">{component.type}</span>
+                      <span className="text-xs text-slate-500 capitalize">
+                        {component.isCustom ? `custom ${component.type}` : component.type}
+                      </span>
                     </div>
                     {subtitle && (
                       <span className="mt-0.5 text-xs text-slate-400">{subtitle}</span>
                     )}
                   </button>
+                  {component.isCustom && onEditCustomComponent && (
+                    <button
+                      type="button"
+                      onClick={() => onEditCustomComponent(component)}
+                      className="rounded bg-blue-900 px-2 text-xs font-semibold text-blue-300 transition hover:bg-blue-800 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-400/60"
+                    >
+                      Edit
+                    </button>
+                  )}
                 </li>
               )
             })}
@@ -80,6 +188,56 @@ export function ComponentsSidebar({ trackSystem, onComponentClick }: ComponentsS
         ) : (
           <p className="text-sm text-slate-500">Activate a project to browse components.</p>
         )}
+
+        <section className="mt-4 border-t border-slate-800 pt-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Sub-assemblies</span>
+            {onSaveSubAssembly && (
+              <button
+                type="button"
+                onClick={onSaveSubAssembly}
+                disabled={!canSaveSubAssembly}
+                title="Save the selected pieces as a sub-assembly"
+                className={`${catalogButtonClassName} text-xs disabled:cursor-not-allowed disabled:opacity-60`}
+              >
+                Save selection
+              </button>
+            )}
+          </div>
+          {subAssemblies.length === 0 ? (
+            <p className="mt-2 text-xs text-slate-500">
+              Select pieces such as a crossover and save them to reuse them in any project.
+            </p>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {subAssemblies.map((subAssembly) => (
+                <li key={subAssembly.id} className="flex gap-1">
+                  <button
+                    type="button"
+                    draggable
+                    onDragStart={(event) => handleSubAssemblyDragStart(event, subAssembly)}
+                    onClick={() => onPlaceSubAssembly?.(subAssembly)}
+                    className="flex min-w-0 flex-1 flex-col rounded border border-slate-800/80 bg-slate-900/70 px-3 py-2 text-left transition hover:border-slate-600 hover:bg-slate-900/90"
+                  >
+                    <span className="truncate text-sm font-semibold text-slate-100">{subAssembly.name}</span>
+                    <span className="mt-0.5 text-xs text-slate-400">
+                      {subAssembly.layout.placedItems.length} pieces · {subAssembly.openEndpoints.length} open ends
+                    </span>
+                  </button>
+                  {onDeleteSubAssembly && (
+                    <button
+                      type="button"
+                      onClick={() => onDeleteSubAssembly(subAssembly)}
+                      className="rounded bg-red-900 px-2 text-xs font-semibold text-red-300 transition hover:bg-red-800 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-400/60"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
       </div>
     </aside>
   )
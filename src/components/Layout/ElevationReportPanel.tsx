@@ -0,0 +1,124 @@
+import {
+  getSteepPieceKey,
+  getVerticalClearanceKey,
+  type ElevationOptions,
+  type PieceElevation,
+  type VerticalClearanceIssue,
+} from '../../analysis/elevation'
+
+interface ElevationReportPanelProps {
+  /** No connector has a height yet, so the whole layout lies on the baseboard */
+  isFlat: boolean
+  steepPieces: PieceElevation[]
+  clearanceIssues: VerticalClearanceIssue[]
+  options: ElevationOptions
+  onOptionsChange: (patch: Partial<ElevationOptions>) => void
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onClose: () => void
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+export function ElevationReportPanel({
+  isFlat,
+  steepPieces,
+  clearanceIssues,
+  options,
+  onOptionsChange,
+  focusedKey,
+  onFocus,
+  onClose,
+}: ElevationReportPanelProps) {
+  const renderOption = (key: keyof ElevationOptions, label: string, step: string) => (
+    <label className={labelClassName}>
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={options[key]}
+        onChange={(event) => {
+          const parsed = Number(event.target.value)
+          if (Number.isFinite(parsed) && parsed > 0) onOptionsChange({ [key]: parsed })
+        }}
+        className={inputClassName}
+      />
+    </label>
+  )
+
+  const renderEntry = (key: string, title: string, detail: string) => {
+    const isFocused = key === focusedKey
+    return (
+      <li key={key}>
+        <button
+          type="button"
+          onClick={() => onFocus(isFocused ? null : key)}
+          className={`w-full rounded border px-2 py-1 text-left transition ${
+            isFocused
+              ? 'border-red-500/60 bg-red-500/10'
+              : 'border-slate-800 bg-slate-900 hover:border-slate-600 hover:bg-slate-800'
+          }`}
+        >
+          <span className="block text-sm text-slate-100">{title}</span>
+          <span className="block text-xs text-slate-500">{detail}</span>
+        </button>
+      </li>
+    )
+  }
+
+  const problemCount = steepPieces.length + clearanceIssues.length
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Elevation</span>
+          <p className="text-sm font-medium text-slate-100">
+            {isFlat
+              ? 'Everything is at baseboard level'
+              : problemCount === 0
+                ? 'Grades and clearances are fine'
+                : `${steepPieces.length} too steep · ${clearanceIssues.length} too low`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="grid grid-cols-2 gap-2 px-3 py-2">
+        {renderOption('maxGradePercent', 'Max grade (%)', '0.1')}
+        {renderOption('verticalClearanceMm', 'Clearance above (mm)', '1')}
+      </div>
+      <p className="px-3 pb-2 text-xs text-slate-500">
+        Set rail heights on connectors in the inspector; track between two set heights climbs evenly.
+      </p>
+
+      {problemCount > 0 && (
+        <ul className="flex max-h-72 flex-col gap-1 overflow-y-auto border-t border-slate-800 px-3 py-2">
+          {steepPieces.map((piece) =>
+            renderEntry(
+              getSteepPieceKey(piece),
+              piece.componentId,
+              `${piece.gradePercent.toFixed(1)} % grade · max ${options.maxGradePercent} %`,
+            ),
+          )}
+          {clearanceIssues.map((issue) =>
+            renderEntry(
+              getVerticalClearanceKey(issue),
+              issue.componentIds.join(' ↔ '),
+              `${issue.heightDifferenceMm.toFixed(0)} mm apart in height · ${options.verticalClearanceMm} mm needed`,
+            ),
+          )}
+        </ul>
+      )}
+    </section>
+  )
+}
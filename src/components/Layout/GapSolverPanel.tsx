@@ -0,0 +1,185 @@
+import { useState, type FormEvent } from 'react'
+import type { TrackSystemDefinition } from '../../types/trackSystem'
+import {
+  DEFAULT_GAP_SOLVER_OPTIONS,
+  MAX_GAP_SOLVER_PIECES,
+  type GapCandidate,
+  type GapSolverOptions,
+} from '../../geometry/gapSolver'
+
+interface GapSolverPanelProps {
+  trackSystem: TrackSystemDefinition
+  onSolve: (options: GapSolverOptions) => GapCandidate[]
+  onPreview: (candidate: GapCandidate | null) => void
+  onPlace: (candidate: GapCandidate) => void
+  onClose: () => void
+}
+
+type OptionsDraft = {
+  positionToleranceMm: string
+  angleToleranceDeg: string
+  maxPieces: string
+  includeFlex: boolean
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+const parseNonNegative = (value: string): number | null => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+/** Lists the pieces of a candidate, collapsing runs of the same piece ("R2-30 ×2"). */
+const describeCandidate = (candidate: GapCandidate) => {
+  const parts: { id: string; count: number }[] = []
+  candidate.steps.forEach((step) => {
+    const last = parts[parts.length - 1]
+    if (last && last.id === step.component.id) last.count += 1
+    else parts.push({ id: step.component.id, count: 1 })
+  })
+  return parts.map(({ id, count }) => (count > 1 ? `${id} ×${count}` : id)).join(' → ')
+}
+
+export function GapSolverPanel({ trackSystem, onSolve, onPreview, onPlace, onClose }: GapSolverPanelProps) {
+  const [draft, setDraft] = useState<OptionsDraft>({
+    positionToleranceMm: String(DEFAULT_GAP_SOLVER_OPTIONS.positionToleranceMm),
+    angleToleranceDeg: String(DEFAULT_GAP_SOLVER_OPTIONS.angleToleranceDeg),
+    maxPieces: String(DEFAULT_GAP_SOLVER_OPTIONS.maxPieces),
+    includeFlex: DEFAULT_GAP_SOLVER_OPTIONS.includeFlex,
+  })
+  const [candidates, setCandidates] = useState<GapCandidate[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasFlex = trackSystem.components.some((component) => component.type === 'flex')
+
+  const updateDraft = <K extends keyof OptionsDraft>(key: K, value: OptionsDraft[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const positionToleranceMm = parseNonNegative(draft.positionToleranceMm)
+    const angleToleranceDeg = parseNonNegative(draft.angleToleranceDeg)
+    const maxPieces = parseNonNegative(draft.maxPieces)
+    if (positionToleranceMm === null || angleToleranceDeg === null || maxPieces === null || maxPieces < 1) {
+      setError('Tolerances must be zero or more and at least one piece is needed.')
+      return
+    }
+
+    setError(null)
+    onPreview(null)
+    setCandidates(
+      onSolve({
+        ...DEFAULT_GAP_SOLVER_OPTIONS,
+        positionToleranceMm,
+        angleToleranceDeg,
+        maxPieces: Math.min(MAX_GAP_SOLVER_PIECES, Math.round(maxPieces)),
+        includeFlex: hasFlex && draft.includeFlex,
+      }),
+    )
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="fixed bottom-16 right-80 z-20 flex w-80 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl"
+    >
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Close gap</span>
+          <p className="text-sm font-medium text-slate-100">{trackSystem.name}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="grid grid-cols-3 gap-2 px-3 py-2">
+        <label className={labelClassName}>
+          Offset (mm)
+          <input
+            type="number"
+            step="0.1"
+            value={draft.positionToleranceMm}
+            onChange={(event) => updateDraft('positionToleranceMm', event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className={labelClassName}>
+          Angle (°)
+          <input
+            type="number"
+            step="0.1"
+            value={draft.angleToleranceDeg}
+            onChange={(event) => updateDraft('angleToleranceDeg', event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className={labelClassName}>
+          Max pieces
+          <input
+            type="number"
+            min={1}
+            max={MAX_GAP_SOLVER_PIECES}
+            step="1"
+            value={draft.maxPieces}
+            onChange={(event) => updateDraft('maxPieces', event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between px-3 pb-2">
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="checkbox"
+            disabled={!hasFlex}
+            checked={hasFlex && draft.includeFlex}
+            onChange={(event) => updateDraft('includeFlex', event.target.checked)}
+          />
+          Allow flex track
+        </label>
+        <button
+          type="submit"
+          className="rounded bg-blue-900 px-3 py-1 text-xs font-semibold text-blue-300 transition hover:bg-blue-800"
+        >
+          Search
+        </button>
+      </div>
+
+      {error && <p className="px-3 pb-2 text-xs text-red-400">{error}</p>}
+
+      {candidates && (
+        <ul className="flex max-h-64 flex-col gap-1 overflow-y-auto border-t border-slate-800 px-3 py-2">
+          {candidates.length === 0 && (
+            <li className="text-xs text-slate-500">No combination fits. Try a larger tolerance or more pieces.</li>
+          )}
+          {candidates.map((candidate, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => onPlace(candidate)}
+                onMouseEnter={() => onPreview(candidate)}
+                onMouseLeave={() => onPreview(null)}
+                onFocus={() => onPreview(candidate)}
+                onBlur={() => onPreview(null)}
+                className="w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-left transition hover:border-blue-500/60 hover:bg-blue-500/10"
+              >
+                <span className="block text-sm text-slate-100">{describeCandidate(candidate)}</span>
+                <span className="block text-xs text-slate-500">
+                  {candidate.steps.length} {candidate.steps.length === 1 ? 'piece' : 'pieces'} · off by{' '}
+                  {candidate.positionErrorMm.toFixed(1)} mm / {candidate.angleErrorDeg.toFixed(2)}°
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState, type FormEvent } from 'react'
+import type { TrackSystemDefinition } from '../../types/trackSystem'
+import { getTrackSystemMetrics } from '../../geometry/trackSystemMetrics'
+import { planHelix, type HelixOptions, type HelixResult } from '../../geometry/helix'
+
+interface HelixPanelProps {
+  trackSystem: TrackSystemDefinition
+  /** Grades above this are called out, as in the elevation report */
+  maxGradePercent: number
+  /** Adds the helix to the layout when it can be built */
+  onPlace: (options: HelixOptions) => HelixResult
+  onClose: () => void
+}
+
+type OptionsDraft = { curveId: string; risePerTurnMm: string; turns: string }
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+const parseDraft = (draft: OptionsDraft): HelixOptions => ({
+  curveId: draft.curveId,
+  risePerTurnMm: Number(draft.risePerTurnMm),
+  turns: Number(draft.turns),
+})
+
+export function HelixPanel({ trackSystem, maxGradePercent, onPlace, onClose }: HelixPanelProps) {
+  const curves = trackSystem.components
+    .filter((component) => component.type === 'curve')
+    .sort((a, b) => (b.radiusMm ?? 0) - (a.radiusMm ?? 0))
+
+  const [draft, setDraft] = useState<OptionsDraft>({
+    curveId: curves[0]?.id ?? '',
+    risePerTurnMm: Math.ceil(getTrackSystemMetrics(trackSystem).verticalClearanceMm).toString(),
+    turns: '2',
+  })
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const updateDraft = <K extends keyof OptionsDraft>(key: K, value: OptionsDraft[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }))
+    setMessage(null)
+  }
+
+  const planned = planHelix(trackSystem, parseDraft(draft))
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const result = onPlace(parseDraft(draft))
+    setMessage(
+      'error' in result
+        ? { text: result.error, isError: true }
+        : { text: `Placed ${result.items.length} pieces.`, isError: false },
+    )
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="fixed bottom-16 right-80 z-20 flex w-80 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl"
+    >
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Helix</span>
+          <p className="text-sm font-medium text-slate-100">{trackSystem.name}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="flex flex-col gap-2 px-3 py-2">
+        <label className={labelClassName}>
+          Curve
+          <select
+            value={draft.curveId}
+            onChange={(event) => updateDraft('curveId', event.target.value)}
+            className={inputClassName}
+          >
+            {curves.map((component) => (
+              <option key={component.id} value={component.id}>
+                {component.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className={labelClassName}>
+            Rise per turn (mm)
+            <input
+              type="number"
+              min={0}
+              step="1"
+              value={draft.risePerTurnMm}
+              onChange={(event) => updateDraft('risePerTurnMm', event.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className={labelClassName}>
+            Turns
+            <input
+              type="number"
+              min={0}
+              step="0.25"
+              value={draft.turns}
+              onChange={(event) => updateDraft('turns', event.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        {'error' in planned ? (
+          <p className="text-xs text-slate-500">{planned.error}</p>
+        ) : (
+          <dl className="grid grid-cols-2 gap-x-2 text-xs">
+            <dt className="text-slate-500">Grade</dt>
+            <dd className={planned.plan.gradePercent > maxGradePercent ? 'text-amber-300' : 'text-slate-200'}>
+              {planned.plan.gradePercent.toFixed(1)} % (max {maxGradePercent} %)
+            </dd>
+            <dt className="text-slate-500">Clearance</dt>
+            <dd className={Number(draft.risePerTurnMm) < planned.plan.requiredRiseMm ? 'text-amber-300' : 'text-slate-200'}>
+              {draft.risePerTurnMm} mm per turn · {planned.plan.requiredRiseMm} mm needed
+            </dd>
+            <dt className="text-slate-500">Pieces</dt>
+            <dd className="text-slate-200">
+              {planned.plan.pieceCount} × {planned.plan.curve.id}
+            </dd>
+            <dt className="text-slate-500">Total rise</dt>
+            <dd className="text-slate-200">{planned.plan.totalRiseMm.toFixed(0)} mm</dd>
+          </dl>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 pb-2">
+        <p className={`text-xs ${message?.isError ? 'text-red-400' : 'text-slate-500'}`}>
+          {message?.text ?? 'Turns are stacked; lower turns are drawn dimmed underneath.'}
+        </p>
+        <button
+          type="submit"
+          className="rounded bg-blue-900 px-3 py-1 text-xs font-semibold text-blue-300 transition hover:bg-blue-800"
+        >
+          Place
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,259 @@
+import { useState, type ReactNode } from 'react'
+import type { CanvasShape, PlacedItem, SwitchOperation } from '../../types/layout'
+import type { ConnectorKey, TrackComponentDefinition } from '../../types/trackSystem'
+import type { PieceElevation } from '../../analysis/elevation'
+import type { SwitchAddressIssue, SwitchInventoryEntry } from '../../analysis/switchInventory'
+import { SwitchOperationSection } from './SwitchOperationSection'
+
+export type ItemTransformPatch = Partial<Pick<PlacedItem, 'x' | 'y' | 'rotationDeg'>>
+
+interface InspectorPanelProps {
+  /** Number of selected pieces; details are only shown for a single one */
+  selectedItemCount: number
+  /** Number of selected shapes; a shape is only editable when it is the whole selection */
+  selectedShapeCount: number
+  item: PlacedItem | null
+  component: TrackComponentDefinition | null
+  trackSystemName: string | null
+  /** Pieces that move along with the item, including itself */
+  groupSize: number
+  /** Some piece of the group is grounded, so the group cannot move */
+  isGroupGrounded: boolean
+  onItemTransformChange: (patch: ItemTransformPatch) => void
+  switchEntry: SwitchInventoryEntry | null
+  switchIssues: SwitchAddressIssue[]
+  onSwitchOperationChange: (operation: SwitchOperation) => void
+  /** Heights of the inspected piece, set or interpolated */
+  elevation: PieceElevation | null
+  maxGradePercent: number
+  /** `null` clears the height so it is interpolated again */
+  onHeightChange: (connectorKey: ConnectorKey, heightMm: number | null) => void
+  shape: CanvasShape | null
+  onShapeChange: (patch: Partial<CanvasShape>) => void
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60 disabled:cursor-not-allowed disabled:opacity-60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString()
+
+/**
+ * Number input that only reports a value on blur or Enter, so typing "1", "12", "120" is one change
+ * (and one undo step) instead of three. Remount it with a new key to pick up outside changes.
+ */
+function NumberField({
+  label,
+  value,
+  min,
+  disabled,
+  onCommit,
+}: {
+  label: string
+  value: number
+  min?: number
+  disabled?: boolean
+  onCommit: (value: number) => void
+}) {
+  const [draft, setDraft] = useState(formatNumber(value))
+
+  const commit = () => {
+    const parsed = Number(draft)
+    if (!Number.isFinite(parsed) || (min !== undefined && parsed < min)) {
+      setDraft(formatNumber(value))
+      return
+    }
+    if (parsed !== value) onCommit(parsed)
+  }
+
+  return (
+    <label className={labelClassName}>
+      {label}
+      <input
+        type="number"
+        step="any"
+        min={min}
+        value={draft}
+        disabled={disabled}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit()
+          if (event.key === 'Escape') setDraft(formatNumber(value))
+        }}
+        className={inputClassName}
+      />
+    </label>
+  )
+}
+
+function InspectorSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-col gap-2 border-t border-slate-800 px-3 py-2">
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">{title}</span>
+      {children}
+    </div>
+  )
+}
+
+const SHAPE_LABELS: Record<CanvasShape['type'], string> = {
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  text: 'Text',
+  dimension: 'Dimension',
+}
+
+export function InspectorPanel({
+  selectedItemCount,
+  selectedShapeCount,
+  item,
+  component,
+  trackSystemName,
+  groupSize,
+  isGroupGrounded,
+  onItemTransformChange,
+  switchEntry,
+  switchIssues,
+  onSwitchOperationChange,
+  elevation,
+  maxGradePercent,
+  onHeightChange,
+  shape,
+  onShapeChange,
+}: InspectorPanelProps) {
+  const renderField = (
+    key: string,
+    label: string,
+    value: number,
+    onCommit: (value: number) => void,
+    options?: { min?: number; disabled?: boolean },
+  ) => <NumberField key={`${key}:${value}`} label={label} value={value} onCommit={onCommit} {...options} />
+
+  const isSingleItem = selectedItemCount === 1 && selectedShapeCount === 0
+  const selectionSummary = [
+    selectedItemCount > 0 && `${selectedItemCount} ${selectedItemCount === 1 ? 'piece' : 'pieces'}`,
+    selectedShapeCount > 0 && `${selectedShapeCount} ${selectedShapeCount === 1 ? 'shape' : 'shapes'}`,
+  ]
+    .filter(Boolean)
+    .join(' and ')
+  const title = shape
+    ? SHAPE_LABELS[shape.type]
+    : item && isSingleItem
+      ? component?.label ?? item.componentId
+      : `${selectionSummary} selected`
+
+  return (
+    <section className="fixed right-80 top-20 z-20 flex max-h-[60vh] w-72 flex-col overflow-y-auto rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="px-3 py-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Inspector</span>
+        <p className="text-sm font-medium text-slate-100">{title}</p>
+        {item && isSingleItem && (
+          <p className="text-xs text-slate-500">
+            {[item.componentId, component?.article && `Art. ${component.article}`, trackSystemName]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        )}
+      </header>
+
+      {item && isSingleItem && (
+        <InspectorSection title="Position">
+          <div className="grid grid-cols-3 gap-2">
+            {renderField('x', 'X (mm)', item.x, (x) => onItemTransformChange({ x }), { disabled: isGroupGrounded })}
+            {renderField('y', 'Y (mm)', item.y, (y) => onItemTransformChange({ y }), { disabled: isGroupGrounded })}
+            {renderField('rotation', 'Rotation (°)', item.rotationDeg, (rotationDeg) => onItemTransformChange({ rotationDeg }), {
+              disabled: isGroupGrounded,
+            })}
+          </div>
+          <p className="text-xs text-slate-500">
+            {isGroupGrounded
+              ? 'The group is grounded and cannot move.'
+              : groupSize > 1
+                ? `Moves all ${groupSize} connected pieces around this one.`
+                : 'Not connected to other pieces.'}
+          </p>
+        </InspectorSection>
+      )}
+
+      {item && isSingleItem && elevation && (
+        <InspectorSection title="Elevation">
+          <div className="grid grid-cols-2 gap-2">
+            {Object.entries(elevation.heightsMm).map(([key, heightMm]) => {
+              const isSet = item.heightsMm?.[key] !== undefined
+              return (
+                <div key={key} className="flex flex-col gap-1">
+                  {renderField(`height-${key}`, `${key} (mm)${isSet ? '' : ' · auto'}`, heightMm, (value) =>
+                    onHeightChange(key, value),
+                  )}
+                  {isSet && (
+                    <button
+                      type="button"
+                      onClick={() => onHeightChange(key, null)}
+                      className="self-start text-xs text-slate-500 transition hover:text-slate-300"
+                    >
+                      Interpolate
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          <p className={`text-xs ${elevation.gradePercent > maxGradePercent ? 'text-amber-300' : 'text-slate-500'}`}>
+            Grade {elevation.gradePercent.toFixed(1)} % · max {maxGradePercent} %
+          </p>
+        </InspectorSection>
+      )}
+
+      {item && isSingleItem && switchEntry && (
+        <SwitchOperationSection
+          key={switchEntry.itemId}
+          entry={switchEntry}
+          issues={switchIssues}
+          onChange={onSwitchOperationChange}
+        />
+      )}
+
+      {shape && (
+        <InspectorSection title="Shape">
+          <div className="grid grid-cols-3 gap-2">
+            {renderField('x', 'X (mm)', shape.x, (x) => onShapeChange({ x }))}
+            {renderField('y', 'Y (mm)', shape.y, (y) => onShapeChange({ y }))}
+            {renderField('rotation', 'Rotation (°)', shape.rotationDeg, (rotationDeg) => onShapeChange({ rotationDeg }))}
+          </div>
+          {shape.type === 'rectangle' && (
+            <div className="grid grid-cols-2 gap-2">
+              {renderField('width', 'Width (mm)', shape.width, (width) => onShapeChange({ width }), { min: 1 })}
+              {renderField('height', 'Height (mm)', shape.height ?? shape.width, (height) => onShapeChange({ height }), {
+                min: 1,
+              })}
+            </div>
+          )}
+          {shape.type === 'circle' &&
+            renderField('diameter', 'Diameter (mm)', shape.width, (width) => onShapeChange({ width }), { min: 1 })}
+          {shape.type === 'text' && (
+            <>
+              <label className={labelClassName}>
+                Text
+                <input
+                  type="text"
+                  value={shape.text}
+                  onChange={(event) => onShapeChange({ text: event.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              {renderField('fontSize', 'Font size (mm)', shape.fontSize, (fontSize) => onShapeChange({ fontSize }), {
+                min: 1,
+              })}
+            </>
+          )}
+          {shape.type === 'dimension' && (
+            <div className="grid grid-cols-2 gap-2">
+              {renderField('length', 'Length (mm)', shape.length, (length) => onShapeChange({ length }), { min: 0 })}
+              {renderField('offset', 'Offset (mm)', shape.offsetMm, (offsetMm) => onShapeChange({ offsetMm }))}
+            </div>
+          )}
+        </InspectorSection>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,127 @@
+import type { ReactNode } from 'react'
+import type { TopologyReport } from '../../analysis/topology'
+import { getTopologyNodeId } from '../../analysis/topology'
+
+interface LayoutAnalysisPanelProps {
+  report: TopologyReport
+  describeItem: (itemId: string) => string
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onRemoveDanglingConnections: () => void
+  onClose: () => void
+}
+
+const formatLength = (lengthMm: number) =>
+  lengthMm >= 1000 ? `${(lengthMm / 1000).toFixed(2)} m` : `${Math.round(lengthMm)} mm`
+
+const entryClassName = (isFocused: boolean) =>
+  `w-full rounded border px-2 py-1 text-left text-sm transition ${
+    isFocused
+      ? 'border-red-500/60 bg-red-500/10 text-slate-100'
+      : 'border-slate-800 bg-slate-900 text-slate-200 hover:border-slate-600 hover:bg-slate-800'
+  }`
+
+function ReportSection({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        {title} <span className="text-slate-500">({count})</span>
+      </span>
+      {count === 0 ? <p className="text-xs text-slate-500">None</p> : <ul className="flex flex-col gap-1">{children}</ul>}
+    </div>
+  )
+}
+
+export function LayoutAnalysisPanel({
+  report,
+  describeItem,
+  focusedKey,
+  onFocus,
+  onRemoveDanglingConnections,
+  onClose,
+}: LayoutAnalysisPanelProps) {
+  const { networks, openEnds, isolatedItemIds, danglingConnections } = report
+
+  const renderFocusButton = (key: string, content: ReactNode) => (
+    <li key={key}>
+      <button
+        type="button"
+        onClick={() => onFocus(focusedKey === key ? null : key)}
+        className={entryClassName(focusedKey === key)}
+      >
+        {content}
+      </button>
+    </li>
+  )
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Layout analysis</span>
+          <p className="text-sm font-medium text-slate-100">
+            {networks.length} {networks.length === 1 ? 'network' : 'networks'} · {openEnds.length} open{' '}
+            {openEnds.length === 1 ? 'end' : 'ends'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="flex flex-col gap-3 overflow-y-auto px-3 py-2">
+        <ReportSection title="Networks" count={networks.length}>
+          {networks.map((network, index) =>
+            renderFocusButton(
+              `network:${index}`,
+              <>
+                <span className="block">Network {index + 1}</span>
+                <span className="block text-xs text-slate-500">
+                  {network.itemIds.length} pieces · {formatLength(network.lengthMm)} · {network.openEnds.length} open{' '}
+                  {network.openEnds.length === 1 ? 'end' : 'ends'}
+                </span>
+              </>,
+            ),
+          )}
+        </ReportSection>
+
+        <ReportSection title="Open ends" count={openEnds.length}>
+          {openEnds.map((endpoint) =>
+            renderFocusButton(
+              `open:${getTopologyNodeId(endpoint)}`,
+              `${describeItem(endpoint.itemId)} · ${endpoint.connectorKey}`,
+            ),
+          )}
+        </ReportSection>
+
+        <ReportSection title="Isolated pieces" count={isolatedItemIds.length}>
+          {isolatedItemIds.map((itemId) => renderFocusButton(`isolated:${itemId}`, describeItem(itemId)))}
+        </ReportSection>
+
+        <ReportSection title="Dangling connections" count={danglingConnections.length}>
+          {danglingConnections.map(({ connection, reason }) => (
+            <li
+              key={connection.endpoints.map(getTopologyNodeId).join('|')}
+              className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs text-amber-300"
+            >
+              {reason}
+            </li>
+          ))}
+        </ReportSection>
+        {danglingConnections.length > 0 && (
+          <button
+            type="button"
+            onClick={onRemoveDanglingConnections}
+            className="self-end rounded bg-red-900 px-3 py-1 text-xs font-semibold text-red-300 transition hover:bg-red-800"
+          >
+            Remove dangling connections
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,187 @@
+import { useState, type FormEvent } from 'react'
+import type { TrackSystemDefinition } from '../../types/trackSystem'
+import {
+  GENERATOR_CLOSURE_TOLERANCE_MM,
+  type LayoutGeneratorKind,
+  type LayoutGeneratorOptions,
+  type LayoutGeneratorResult,
+} from '../../geometry/layoutGenerators'
+
+interface LayoutGeneratorPanelProps {
+  trackSystem: TrackSystemDefinition
+  /** Adds the plan to the layout when it can be built */
+  onGenerate: (options: LayoutGeneratorOptions) => LayoutGeneratorResult
+  onClose: () => void
+}
+
+type OptionsDraft = Omit<LayoutGeneratorOptions, 'straightCount' | 'trackCount'> & {
+  straightCount: string
+  trackCount: string
+}
+
+const KIND_LABELS: Record<LayoutGeneratorKind, string> = {
+  oval: 'Oval',
+  'double-oval': 'Double-track oval',
+  'figure-eight': 'Figure eight',
+  ladder: 'Ladder yard',
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+export function LayoutGeneratorPanel({ trackSystem, onGenerate, onClose }: LayoutGeneratorPanelProps) {
+  const byType = (type: string) => trackSystem.components.filter((component) => component.type === type)
+  const curves = byType('curve')
+  const straights = byType('straight')
+  const crossings = byType('crossing')
+  const switches = byType('switch').filter((component) => component.meta?.variant === 'simple-switch')
+
+  const [draft, setDraft] = useState<OptionsDraft>({
+    kind: 'oval',
+    curveId: curves[0]?.id ?? '',
+    straightId: straights[0]?.id ?? '',
+    straightCount: '2',
+    crossingId: crossings[0]?.id ?? '',
+    switchId: switches[0]?.id ?? '',
+    trackCount: '4',
+  })
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const updateDraft = <K extends keyof OptionsDraft>(key: K, value: OptionsDraft[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const straightCount = Number(draft.straightCount)
+    const trackCount = Number(draft.trackCount)
+    if (!Number.isInteger(straightCount) || straightCount < 0 || !Number.isInteger(trackCount) || trackCount < 2) {
+      setMessage({ text: 'Straights must be a whole number of zero or more and a yard needs two tracks.', isError: true })
+      return
+    }
+
+    const result = onGenerate({ ...draft, straightCount, trackCount })
+    if ('error' in result) {
+      setMessage({ text: result.error, isError: true })
+      return
+    }
+    const { items, closureErrorMm } = result.layout
+    setMessage(
+      closureErrorMm > GENERATOR_CLOSURE_TOLERANCE_MM
+        ? {
+            text: `Placed ${items.length} pieces, but the loops miss by ${closureErrorMm.toFixed(1)} mm and were left open.`,
+            isError: true,
+          }
+        : { text: `Placed ${items.length} pieces.`, isError: false },
+    )
+  }
+
+  const renderSelect = (
+    key: 'curveId' | 'straightId' | 'crossingId' | 'switchId',
+    label: string,
+    options: typeof curves,
+  ) => (
+    <label className={labelClassName}>
+      {label}
+      <select value={draft[key]} onChange={(event) => updateDraft(key, event.target.value)} className={inputClassName}>
+        {options.map((component) => (
+          <option key={component.id} value={component.id}>
+            {component.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  const usesLoops = draft.kind !== 'ladder'
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="fixed bottom-16 right-80 z-20 flex w-80 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl"
+    >
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Generate plan</span>
+          <p className="text-sm font-medium text-slate-100">{trackSystem.name}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="flex flex-col gap-2 px-3 py-2">
+        <label className={labelClassName}>
+          Plan
+          <select
+            value={draft.kind}
+            onChange={(event) => updateDraft('kind', event.target.value as LayoutGeneratorKind)}
+            className={inputClassName}
+          >
+            {Object.entries(KIND_LABELS).map(([kind, label]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {usesLoops && renderSelect('curveId', draft.kind === 'double-oval' ? 'Inner curve' : 'Curve', curves)}
+        {draft.kind === 'figure-eight' && renderSelect('crossingId', 'Crossing', crossings)}
+        {draft.kind === 'ladder' && (
+          <div className="grid grid-cols-2 gap-2">
+            {renderSelect('switchId', 'First switch', switches)}
+            <label className={labelClassName}>
+              Tracks
+              <input
+                type="number"
+                min={2}
+                step="1"
+                value={draft.trackCount}
+                onChange={(event) => updateDraft('trackCount', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        )}
+        {draft.kind === 'figure-eight' ? (
+          <p className="text-xs text-slate-500">The straights on each loop are picked so it closes through the crossing.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {renderSelect('straightId', 'Straight', straights)}
+            <label className={labelClassName}>
+              {usesLoops ? 'Per side' : 'Per track'}
+              <input
+                type="number"
+                min={0}
+                step="1"
+                value={draft.straightCount}
+                onChange={(event) => updateDraft('straightCount', event.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        )}
+        {draft.kind === 'double-oval' && (
+          <p className="text-xs text-slate-500">
+            The outer track uses the curve {trackSystem.parallelSpacingMm} mm wider, at the system's track spacing.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 pb-2">
+        <p className={`text-xs ${message?.isError ? 'text-red-400' : 'text-slate-500'}`}>{message?.text}</p>
+        <button
+          type="submit"
+          className="rounded bg-blue-900 px-3 py-1 text-xs font-semibold text-blue-300 transition hover:bg-blue-800"
+        >
+          Generate
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,81 @@
+import type { ParallelProposal, ParallelSide, ParallelTrackResult } from '../../geometry/parallelTrack'
+
+interface ParallelTrackPanelProps {
+  /** Proposals for the current selection */
+  result: ParallelTrackResult
+  onPreview: (side: ParallelSide | null) => void
+  onPlace: (side: ParallelSide) => void
+  onClose: () => void
+}
+
+const SIDE_LABELS: Record<ParallelSide, string> = {
+  left: 'Left side',
+  right: 'Right side',
+}
+
+const describeProposal = ({ steps, issues }: ParallelProposal) =>
+  `${steps.length} ${steps.length === 1 ? 'piece' : 'pieces'} · ${
+    issues.length === 0 ? 'exact' : `${issues.length} inexact ${issues.length === 1 ? 'spot' : 'spots'}`
+  }`
+
+export function ParallelTrackPanel({ result, onPreview, onPlace, onClose }: ParallelTrackPanelProps) {
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-80 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Parallel track</span>
+          <p className="text-sm font-medium text-slate-100">
+            {'error' in result
+              ? 'Nothing to follow'
+              : `${result.trackSystem.parallelSpacingMm} mm spacing · ${result.trackSystem.name}`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      {'error' in result ? (
+        <p className="px-3 py-2 text-xs text-slate-500">{result.error}</p>
+      ) : (
+        <ul className="flex flex-col gap-2 overflow-y-auto px-3 py-2">
+          {result.proposals.map((proposal) => (
+            <li key={proposal.side} className="flex flex-col gap-1">
+              <button
+                type="button"
+                onClick={() => onPlace(proposal.side)}
+                onMouseEnter={() => onPreview(proposal.side)}
+                onMouseLeave={() => onPreview(null)}
+                onFocus={() => onPreview(proposal.side)}
+                onBlur={() => onPreview(null)}
+                disabled={proposal.steps.length === 0}
+                className="w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-left transition hover:border-blue-500/60 hover:bg-blue-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <span className="block text-sm text-slate-100">{SIDE_LABELS[proposal.side]}</span>
+                <span className="block text-xs text-slate-500">{describeProposal(proposal)}</span>
+              </button>
+              {proposal.issues.length > 0 && (
+                <ul className="flex flex-col gap-0.5 pl-2">
+                  {proposal.issues.map((issue) => (
+                    <li key={issue.itemId} className="text-xs text-amber-300">
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!('error' in result) && (
+        <p className="border-t border-slate-800 px-3 py-2 text-xs text-slate-500">
+          Sides are seen along the selected run; hover a side to preview it.
+        </p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,97 @@
+import type { ReversingSection } from '../../analysis/polarity'
+import { REVERSING_SECTION_LABELS, getInsulatedJointKey } from '../../analysis/polarity'
+
+interface PolarityReportPanelProps {
+  sections: ReversingSection[]
+  describeItem: (itemId: string) => string
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onClose: () => void
+}
+
+const formatLength = (lengthMm: number) =>
+  lengthMm >= 1000 ? `${(lengthMm / 1000).toFixed(2)} m` : `${Math.round(lengthMm)} mm`
+
+export function PolarityReportPanel({ sections, describeItem, focusedKey, onFocus, onClose }: PolarityReportPanelProps) {
+  // Joints at an isolating track are listed but need no joiners of their own
+  const jointCount = sections.reduce(
+    (total, section) => total + section.insulatedJoints.filter((joint) => !joint.providedByTrack).length,
+    0,
+  )
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Polarity</span>
+          <p className="text-sm font-medium text-slate-100">
+            {sections.length === 0
+              ? 'No reversing sections'
+              : `${sections.length} reversing ${sections.length === 1 ? 'section' : 'sections'} · ${jointCount} insulated ${
+                  jointCount === 1 ? 'joint' : 'joints'
+                }`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+        >
+          Close
+        </button>
+      </header>
+
+      <div className="flex flex-col gap-3 overflow-y-auto px-3 py-2">
+        {sections.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            Every joint keeps the rails the same way round, so the layout can be wired as one DCC district.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500">
+              Isolate each section with insulated joiners in both rails at the marked joints and feed it through an
+              auto-reverser. Trains must fit inside the section.
+            </p>
+            <ul className="flex flex-col gap-1">
+              {sections.map((section, index) => {
+                const key = `section:${index}`
+                const isFocused = focusedKey === key
+                return (
+                  <li key={key}>
+                    <button
+                      type="button"
+                      onClick={() => onFocus(isFocused ? null : key)}
+                      className={`w-full rounded border px-2 py-1 text-left text-sm transition ${
+                        isFocused
+                          ? 'border-red-500/60 bg-red-500/10 text-slate-100'
+                          : 'border-slate-800 bg-slate-900 text-slate-200 hover:border-slate-600 hover:bg-slate-800'
+                      }`}
+                    >
+                      <span className="block">
+                        {REVERSING_SECTION_LABELS[section.kind]} {index + 1}
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        {section.itemIds.length} pieces · {formatLength(section.lengthMm)}
+                      </span>
+                      {section.insulatedJoints.map((joint) => (
+                        <span
+                          key={getInsulatedJointKey(joint)}
+                          className={`block text-xs ${joint.providedByTrack ? 'text-slate-500' : 'text-amber-300'}`}
+                        >
+                          {joint.endpoints
+                            .map((endpoint) => `${describeItem(endpoint.itemId)} ${endpoint.connectorKey}`)
+                            .join(' ↔ ')}
+                          {joint.providedByTrack && ' · isolating track'}
+                        </span>
+                      ))}
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </section>
+  )
+}
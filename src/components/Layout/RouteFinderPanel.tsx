@@ -0,0 +1,115 @@
+import type { EndpointRef } from '../../types/trackSystem'
+import type { TrackRoute } from '../../analysis/routeFinder'
+
+interface RouteFinderPanelProps {
+  /** Start and end endpoint, or null until two endpoints are selected */
+  endpoints: [EndpointRef, EndpointRef] | null
+  route: TrackRoute | null
+  /** Open ends a train starting at the first endpoint can never reach */
+  unreachableEnds: EndpointRef[]
+  describeItem: (itemId: string) => string
+  onSwap: () => void
+  onClose: () => void
+}
+
+const formatLength = (lengthMm: number) =>
+  lengthMm >= 1000 ? `${(lengthMm / 1000).toFixed(2)} m` : `${Math.round(lengthMm)} mm`
+
+export function RouteFinderPanel({
+  endpoints,
+  route,
+  unreachableEnds,
+  describeItem,
+  onSwap,
+  onClose,
+}: RouteFinderPanelProps) {
+  const describeEndpoint = (endpoint: EndpointRef) => `${describeItem(endpoint.itemId)} · ${endpoint.connectorKey}`
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Route finder</span>
+          <p className="text-sm font-medium text-slate-100">
+            {!endpoints
+              ? 'Select a start and an end endpoint'
+              : route
+                ? `${formatLength(route.lengthMm)} · ${route.steps.length} pieces`
+                : 'No route without reversing'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onSwap}
+            disabled={!endpoints}
+            className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Swap
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80"
+          >
+            Close
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-col gap-3 overflow-y-auto px-3 py-2 text-sm">
+        {!endpoints ? (
+          <p className="text-xs text-slate-500">
+            Shift-click two endpoints on the canvas. The route starts at the first one; trains may take any switch
+            leg but never reverse inside a piece.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-400">
+              {describeEndpoint(endpoints[0])} → {describeEndpoint(endpoints[1])}
+            </p>
+            {route && (
+              <div className="flex flex-col gap-1">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Switch positions</span>
+                {route.switchSettings.length === 0 ? (
+                  <p className="text-xs text-slate-500">No switches on this route</p>
+                ) : (
+                  <ol className="flex flex-col gap-1">
+                    {route.switchSettings.map((setting, index) => (
+                      <li
+                        key={`${setting.itemId}-${index}`}
+                        className="flex justify-between rounded border border-slate-800 bg-slate-900 px-2 py-1"
+                      >
+                        <span>{setting.componentId}</span>
+                        <span className="text-slate-400">{setting.setting}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                Unreachable from start ({unreachableEnds.length})
+              </span>
+              {unreachableEnds.length === 0 ? (
+                <p className="text-xs text-slate-500">Every open end can be reached</p>
+              ) : (
+                <ul className="flex flex-col gap-1">
+                  {unreachableEnds.map((endpoint) => (
+                    <li
+                      key={`${endpoint.itemId}:${endpoint.connectorKey}`}
+                      className="rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs text-amber-300"
+                    >
+                      {describeEndpoint(endpoint)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,104 @@
+import type { SwitchAddressIssue, SwitchInventoryEntry } from '../../analysis/switchInventory'
+import { SWITCH_MOTOR_TYPE_LABELS } from '../../constants/switchInventory'
+
+interface SwitchListPanelProps {
+  entries: SwitchInventoryEntry[]
+  issues: SwitchAddressIssue[]
+  focusedKey: string | null
+  onFocus: (key: string | null) => void
+  onExportCsv: () => void
+  onClose: () => void
+}
+
+const buttonClassName =
+  'rounded border border-slate-800 bg-slate-900 px-2 py-1 text-xs font-medium text-slate-200 transition hover:border-slate-600 hover:bg-slate-900/80 disabled:cursor-not-allowed disabled:opacity-60'
+
+const entryClassName = (isFocused: boolean) =>
+  `w-full rounded border px-2 py-1 text-left text-sm transition ${
+    isFocused
+      ? 'border-red-500/60 bg-red-500/10 text-slate-100'
+      : 'border-slate-800 bg-slate-900 text-slate-200 hover:border-slate-600 hover:bg-slate-800'
+  }`
+
+export function SwitchListPanel({ entries, issues, focusedKey, onFocus, onExportCsv, onClose }: SwitchListPanelProps) {
+  const itemsWithIssues = new Set(issues.flatMap((issue) => issue.itemIds))
+
+  return (
+    <section className="fixed bottom-16 right-80 z-20 flex max-h-[70vh] w-96 flex-col rounded-lg border border-slate-800 bg-slate-950 text-slate-100 shadow-2xl">
+      <header className="flex items-center justify-between border-b border-slate-800 px-3 py-2">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Switch list</span>
+          <p className="text-sm font-medium text-slate-100">
+            {entries.length} {entries.length === 1 ? 'switch' : 'switches'} · {issues.length}{' '}
+            {issues.length === 1 ? 'problem' : 'problems'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={onExportCsv} disabled={entries.length === 0} className={buttonClassName}>
+            Export CSV
+          </button>
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-col gap-3 overflow-y-auto px-3 py-2">
+        {entries.length === 0 ? (
+          <p className="text-xs text-slate-500">The layout has no switches yet.</p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500">Select a single switch on the canvas to edit its name and addresses.</p>
+            <ul className="flex flex-col gap-1">
+              {entries.map(({ itemId, component, operation, isConfigured }) => {
+                const key = `switch:${itemId}`
+                return (
+                  <li key={itemId}>
+                    <button
+                      type="button"
+                      onClick={() => onFocus(focusedKey === key ? null : key)}
+                      className={entryClassName(focusedKey === key)}
+                    >
+                      <span className="flex justify-between gap-2">
+                        <span className={itemsWithIssues.has(itemId) ? 'text-amber-300' : undefined}>
+                          {operation.name} <span className="text-slate-500">· {component.id}</span>
+                        </span>
+                        <span className="text-slate-400">
+                          {operation.addresses.length > 0 ? operation.addresses.join(' / ') : '—'}
+                        </span>
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        {isConfigured
+                          ? `${SWITCH_MOTOR_TYPE_LABELS[operation.motorType]} · ${operation.defaultPosition}`
+                          : 'Not configured'}
+                      </span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </>
+        )}
+
+        {issues.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Problems</span>
+            <ul className="flex flex-col gap-1">
+              {issues.map((issue, index) => (
+                <li key={`${index}-${issue.message}`}>
+                  <button
+                    type="button"
+                    onClick={() => onFocus(focusedKey === `issue:${index}` ? null : `issue:${index}`)}
+                    className={entryClassName(focusedKey === `issue:${index}`)}
+                  >
+                    <span className="text-xs text-amber-300">{issue.message}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,97 @@
+import type { SwitchMotorType, SwitchOperation } from '../../types/layout'
+import type { SwitchAddressIssue, SwitchInventoryEntry } from '../../analysis/switchInventory'
+import { getSwitchAddressCount, getSwitchPositions } from '../../analysis/switchInventory'
+import {
+  MAX_DCC_ACCESSORY_ADDRESS,
+  MIN_DCC_ACCESSORY_ADDRESS,
+  SWITCH_MOTOR_TYPES,
+  SWITCH_MOTOR_TYPE_LABELS,
+} from '../../constants/switchInventory'
+
+interface SwitchOperationSectionProps {
+  entry: SwitchInventoryEntry
+  /** Issues that involve this switch, e.g. an address another switch already uses */
+  issues: SwitchAddressIssue[]
+  onChange: (operation: SwitchOperation) => void
+}
+
+const inputClassName =
+  'w-full rounded border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500/60'
+const labelClassName = 'flex flex-col gap-1 text-xs text-slate-400'
+
+export function SwitchOperationSection({ entry, issues, onChange }: SwitchOperationSectionProps) {
+  const { component, operation } = entry
+  const addressCount = getSwitchAddressCount(component)
+  const positions = getSwitchPositions(component)
+
+  const updateAddress = (index: number, value: string) => {
+    const addresses: (number | undefined)[] = Array.from({ length: addressCount }, (_, slot) => operation.addresses[slot])
+    const parsed = Number.parseInt(value, 10)
+    addresses[index] = Number.isFinite(parsed) ? parsed : undefined
+    // Keep the slots in order; an emptied first slot drops the second address into it
+    onChange({ ...operation, addresses: addresses.filter((address): address is number => address !== undefined) })
+  }
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-slate-800 px-3 py-2">
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Switch operation</span>
+      <label className={labelClassName}>
+        Name
+        <input
+          type="text"
+          value={operation.name}
+          onChange={(event) => onChange({ ...operation, name: event.target.value })}
+          className={inputClassName}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {Array.from({ length: addressCount }, (_, index) => (
+          <label key={index} className={labelClassName}>
+            {addressCount === 1 ? 'DCC address' : `Address ${index + 1}`}
+            <input
+              type="number"
+              min={MIN_DCC_ACCESSORY_ADDRESS}
+              max={MAX_DCC_ACCESSORY_ADDRESS}
+              value={operation.addresses[index] ?? ''}
+              onChange={(event) => updateAddress(index, event.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <label className={labelClassName}>
+        Motor
+        <select
+          value={operation.motorType}
+          onChange={(event) => onChange({ ...operation, motorType: event.target.value as SwitchMotorType })}
+          className={inputClassName}
+        >
+          {SWITCH_MOTOR_TYPES.map((motorType) => (
+            <option key={motorType} value={motorType}>
+              {SWITCH_MOTOR_TYPE_LABELS[motorType]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={labelClassName}>
+        Default position
+        <select
+          value={operation.defaultPosition}
+          onChange={(event) => onChange({ ...operation, defaultPosition: event.target.value })}
+          className={inputClassName}
+        >
+          {positions.map((position) => (
+            <option key={position} value={position}>
+              {position}
+            </option>
+          ))}
+        </select>
+      </label>
+      {issues.map((issue) => (
+        <p key={issue.message} className="text-xs text-amber-300">
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  )
+}
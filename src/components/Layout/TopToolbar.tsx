@@ -1,5 +1,7 @@
 import type { Project } from '../../types/project'
 import type { ShapeType } from '../../types/layout'
+import type { ReportPanelType } from '../../types/analysis'
+import type { CanvasSelectionTool } from './Canvas'
 import { Undo, Redo } from 'lucide-react'
 
 interface TopToolbarProps {
@@ -12,6 +14,10 @@ interface TopToolbarProps {
   onImport: () => void
   onConnectEndpoints: () => void
   onDisconnectEndpoints: () => void
+  onCloseGap: () => void
+  onOpenGenerator: () => void
+  onOpenHelix: () => void
+  onOpenParallel: () => void
   onRotateSelectedLeft: () => void
   onRotateSelectedRight: () => void
   onDeleteSelected: () => void
@@ -21,6 +27,9 @@ interface TopToolbarProps {
   onToggleDebug: () => void
   canConnectEndpoints: boolean
   canDisconnectEndpoints: boolean
+  canCloseGap: boolean
+  canGenerate: boolean
+  canOpenParallel: boolean
   canRotateSelection: boolean
   canDeleteSelection: boolean
   canUndo: boolean
@@ -33,7 +42,11 @@ interface TopToolbarProps {
   onToggleColors: () => void
   drawingTool: ShapeType | null
   onDrawingToolChange: (tool: ShapeType | null) => void
+  selectionTool: CanvasSelectionTool | null
+  onSelectionToolChange: (tool: CanvasSelectionTool | null) => void
   onDimensionAction?: (type: 'center' | 'inner' | 'outer') => boolean
+  reportPanel: ReportPanelType | null
+  onReportPanelChange: (panel: ReportPanelType | null) => void
 }
 
 export function TopToolbar({
@@ -46,6 +59,10 @@ export function TopToolbar({
   onImport,
   onConnectEndpoints,
   onDisconnectEndpoints,
+  onCloseGap,
+  onOpenGenerator,
+  onOpenHelix,
+  onOpenParallel,
   onRotateSelectedLeft,
   onRotateSelectedRight,
   onDeleteSelected,
@@ -55,6 +72,9 @@ export function TopToolbar({
   onToggleDebug,
   canConnectEndpoints,
   canDisconnectEndpoints,
+  canCloseGap,
+  canGenerate,
+  canOpenParallel,
   canRotateSelection,
   canDeleteSelection,
   canUndo,
@@ -67,7 +87,11 @@ export function TopToolbar({
   onToggleColors,
   drawingTool,
   onDrawingToolChange,
+  selectionTool,
+  onSelectionToolChange,
   onDimensionAction,
+  reportPanel,
+  onReportPanelChange,
 }: TopToolbarProps) {
   const baseControlStyles =
     'rounded border px-2 py-1 font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2'
@@ -117,6 +141,25 @@ export function TopToolbar({
           >
             <Redo className="h-4 w-4" aria-hidden />
           </button>
+          <div className="flex items-center gap-2 border-r border-slate-800 pr-3">
+            <span className="text-xs text-slate-400">Select:</span>
+            <button
+              type="button"
+              onClick={() => onSelectionToolChange(selectionTool === 'box' ? null : 'box')}
+              className={`${baseControlStyles} ${selectionTool === 'box' ? shapeButtonActive : shapeButton}`}
+              title="Box select (Shift adds, Alt removes)"
+            >
+              ⬚
+            </button>
+            <button
+              type="button"
+              onClick={() => onSelectionToolChange(selectionTool === 'lasso' ? null : 'lasso')}
+              className={`${baseControlStyles} ${selectionTool === 'lasso' ? shapeButtonActive : shapeButton}`}
+              title="Lasso select (Shift adds, Alt removes)"
+            >
+              ➰
+            </button>
+          </div>
           <div className="flex items-center gap-2 border-r border-slate-800 pr-3">
             <span className="text-xs text-slate-400">Shapes:</span>
             <button
@@ -195,6 +238,42 @@ export function TopToolbar({
           >
             Disconnect
           </button>
+          <button
+            type="button"
+            onClick={onCloseGap}
+            disabled={!canCloseGap}
+            className={`${baseControlStyles} ${accentButton}`}
+            title="Fill the gap between the two selected endpoints with catalog pieces"
+          >
+            Close gap
+          </button>
+          <button
+            type="button"
+            onClick={onOpenGenerator}
+            disabled={!canGenerate}
+            className={`${baseControlStyles} ${accentButton}`}
+            title="Build an oval, figure eight or ladder yard from the active track system"
+          >
+            Generate
+          </button>
+          <button
+            type="button"
+            onClick={onOpenHelix}
+            disabled={!canGenerate}
+            className={`${baseControlStyles} ${accentButton}`}
+            title="Stack curves into a helix with a rise per turn"
+          >
+            Helix
+          </button>
+          <button
+            type="button"
+            onClick={onOpenParallel}
+            disabled={!canOpenParallel}
+            className={`${baseControlStyles} ${accentButton}`}
+            title="Lay a track alongside the selected run at the system's parallel spacing"
+          >
+            Parallel
+          </button>
           <button
             type="button"
             onClick={onRotateSelectedLeft}
@@ -230,6 +309,73 @@ export function TopToolbar({
         </div>
 
         <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2 border-r border-slate-800 pr-3">
+            <span className="text-xs text-slate-400">Reports:</span>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'closure' ? null : 'closure')}
+              className={`${baseControlStyles} ${reportPanel === 'closure' ? shapeButtonActive : shapeButton}`}
+              title="List joints that do not close exactly"
+            >
+              Closure
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'clearance' ? null : 'clearance')}
+              className={`${baseControlStyles} ${reportPanel === 'clearance' ? shapeButtonActive : shapeButton}`}
+              title="Overlapping tracks and tracks too close to each other or to walls and pillars"
+            >
+              Clearance
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'elevation' ? null : 'elevation')}
+              className={`${baseControlStyles} ${reportPanel === 'elevation' ? shapeButtonActive : shapeButton}`}
+              title="Grades between set heights and tracks passing too low over each other"
+            >
+              Elevation
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'topology' ? null : 'topology')}
+              className={`${baseControlStyles} ${reportPanel === 'topology' ? shapeButtonActive : shapeButton}`}
+              title="Networks, open ends, isolated pieces and broken connections"
+            >
+              Analysis
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'route' ? null : 'route')}
+              className={`${baseControlStyles} ${reportPanel === 'route' ? shapeButtonActive : shapeButton}`}
+              title="Shortest route between the two selected endpoints"
+            >
+              Route
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'polarity' ? null : 'polarity')}
+              className={`${baseControlStyles} ${reportPanel === 'polarity' ? shapeButtonActive : shapeButton}`}
+              title="Reversing loops and wyes that need insulated joiners for DCC"
+            >
+              Polarity
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'blocks' ? null : 'blocks')}
+              className={`${baseControlStyles} ${reportPanel === 'blocks' ? shapeButtonActive : shapeButton}`}
+              title="Electrical blocks, feeders and insulated joints"
+            >
+              Blocks
+            </button>
+            <button
+              type="button"
+              onClick={() => onReportPanelChange(reportPanel === 'switches' ? null : 'switches')}
+              className={`${baseControlStyles} ${reportPanel === 'switches' ? shapeButtonActive : shapeButton}`}
+              title="Switch names, DCC addresses and motors"
+            >
+              Switches
+            </button>
+          </div>
           <button
             type="button"
             onClick={onToggleDebug}
@@ -14,6 +14,7 @@ interface TrackUsageCounterProps {
 
 export function TrackUsageCounter({ totalCount, typeCounts, componentCounts }: TrackUsageCounterProps) {
   const [isOpen, setIsOpen] = useState(false)
+  const showSystemNames = new Set(componentCounts.map((entry) => entry.trackSystemId)).size > 1
 
   return (
     <div className="fixed bottom-4 right-4 flex flex-col items-end gap-2">
@@ -43,12 +44,14 @@ export function TrackUsageCounter({ totalCount, typeCounts, componentCounts }: T
           ) : (
             <div className="mt-1 flex max-h-40 flex-col gap-2 overflow-y-auto">
               {componentCounts.map((entry) => (
-                <div key={entry.componentId} className="flex items-start justify-between gap-2 text-[11px]">
+                <div key={`${entry.trackSystemId}:${entry.componentId}`} className="flex items-start justify-between gap-2 text-[11px]">
                   <div className="flex flex-col overflow-hidden">
                     <span className="truncate text-slate-100">{entry.label}</span>
                     <span className="truncate text-[10px] text-slate-500">
+                      {showSystemNames ? `${entry.trackSystemName} · ` : ''}
                       {TRACK_COMPONENT_TYPE_LABELS[entry.type]}
                       {entry.article ? ` · ${entry.article}` : ''}
+                      {entry.usedLengthMm !== undefined ? ` · ${Math.round(entry.usedLengthMm)} mm laid` : ''}
                     </span>
                   </div>
                   <span className="ml-3 flex-shrink-0 font-semibold text-white">{entry.count}</span>
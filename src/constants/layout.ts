@@ -4,3 +4,7 @@ export const TEXT_FONT_SIZE_MM = 12
 export const TEXT_CHAR_WIDTH_FACTOR = 0.55
 export const TEXT_DEFAULT_WIDTH_MM = 120
 export const TEXT_DEFAULT_HEIGHT_MM = 60
+
+/** Colors handed out to new electrical blocks, in order */
+export const BLOCK_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#eab308', '#a855f7', '#ec4899', '#14b8a6', '#ef4444']
+export const UNASSIGNED_BLOCK_COLOR = '#64748b'
@@ -0,0 +1,15 @@
+import type { SwitchMotorType } from '../types/layout'
+
+export const SWITCH_MOTOR_TYPES: SwitchMotorType[] = ['manual', 'piko-55271', 'solenoid', 'stall-motor', 'servo']
+
+export const SWITCH_MOTOR_TYPE_LABELS: Record<SwitchMotorType, string> = {
+  manual: 'Manual',
+  'piko-55271': 'PIKO 55271 drive',
+  solenoid: 'Twin-coil solenoid',
+  'stall-motor': 'Stall motor',
+  servo: 'Servo',
+}
+
+/** Accessory address range most command stations accept */
+export const MIN_DCC_ACCESSORY_ADDRESS = 1
+export const MAX_DCC_ACCESSORY_ADDRESS = 2044
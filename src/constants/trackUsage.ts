@@ -1,11 +1,34 @@
-import type { TrackComponentType } from '../types/trackSystem'
+import type { AccessoryKind, TrackComponentType } from '../types/trackSystem'
 
-export const TRACK_COMPONENT_TYPES: TrackComponentType[] = ['straight', 'curve', 'switch', 'other']
+export const TRACK_COMPONENT_TYPES: TrackComponentType[] = [
+  'straight',
+  'curve',
+  'switch',
+  'crossing',
+  'flex',
+  'turntable',
+  'traverser',
+  'accessory',
+  'other',
+]
 
 export const TRACK_COMPONENT_TYPE_LABELS: Record<TrackComponentType, string> = {
   straight: 'Straight',
   curve: 'Curve',
   switch: 'Switch',
   crossing: 'Crossing',
+  flex: 'Flex',
+  turntable: 'Turntable',
+  traverser: 'Transfer table',
+  accessory: 'Accessory',
   other: 'Other',
 }
+
+export const ACCESSORY_KINDS: AccessoryKind[] = ['buffer-stop', 'uncoupler', 'feeder', 'isolating']
+
+export const ACCESSORY_KIND_LABELS: Record<AccessoryKind, string> = {
+  'buffer-stop': 'Buffer stop',
+  uncoupler: 'Uncoupler',
+  feeder: 'Feeder',
+  isolating: 'Isolating',
+}
@@ -0,0 +1,160 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const fleischmannPiccolo_N: TrackSystemDefinition = {
+  id: 'fleischmann-piccolo-n',
+  name: 'Fleischmann piccolo N',
+  scale: 'N',
+  ratio: 160,
+  gaugeMm: 9,
+  parallelSpacingMm: 33.6,
+  moduleLengthMm: 222,
+  // Nominal piccolo (9100 series) dimensions; the 9135 counter curve restores parallel spacing after a switch.
+  components: [
+    {
+      id: '9100',
+      label: '9100 Straight 222 mm',
+      type: 'straight',
+      article: '9100',
+      color: '#F9E79F',
+      lengthMm: 222,
+    },
+    {
+      id: '9101',
+      label: '9101 Straight 111 mm',
+      type: 'straight',
+      article: '9101',
+      color: '#F5B041',
+      lengthMm: 111,
+    },
+    {
+      id: '9102',
+      label: '9102 Straight 104.2 mm',
+      type: 'straight',
+      article: '9102',
+      color: '#E67E22',
+      lengthMm: 104.2,
+    },
+    {
+      id: '9103',
+      label: '9103 Straight 55.5 mm',
+      type: 'straight',
+      article: '9103',
+      color: '#C0392B',
+      lengthMm: 55.5,
+    },
+    {
+      id: '9104',
+      label: '9104 Straight 27.7 mm',
+      type: 'straight',
+      article: '9104',
+      color: '#8E44AD',
+      lengthMm: 27.7,
+    },
+    {
+      id: '9120',
+      label: '9120 R1 Curve 45° r=192 mm',
+      type: 'curve',
+      article: '9120',
+      color: '#D6EAF8',
+      radiusMm: 192,
+      angleDeg: 45,
+      clockwise: false,
+    },
+    {
+      id: '9121',
+      label: '9121 R1 Curve 15° r=192 mm',
+      type: 'curve',
+      article: '9121',
+      color: '#D6EAF8',
+      radiusMm: 192,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '9125',
+      label: '9125 R2 Curve 45° r=225.6 mm',
+      type: 'curve',
+      article: '9125',
+      color: '#AED6F1',
+      radiusMm: 225.6,
+      angleDeg: 45,
+      clockwise: false,
+    },
+    {
+      id: '9126',
+      label: '9126 R2 Curve 15° r=225.6 mm',
+      type: 'curve',
+      article: '9126',
+      color: '#AED6F1',
+      radiusMm: 225.6,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '9135',
+      label: '9135 Counter Curve 15° r=430 mm',
+      type: 'curve',
+      article: '9135',
+      color: '#3498DB',
+      radiusMm: 430,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '9170',
+      label: '9170 Left Switch 15°',
+      type: 'switch',
+      article: '9170',
+      color: '#52BE80',
+      lengthMm: 111,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 111,
+        branchRadiusMm: 430,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: '9171',
+      label: '9171 Right Switch 15°',
+      type: 'switch',
+      article: '9171',
+      color: '#52BE80',
+      lengthMm: 111,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 111,
+        branchRadiusMm: 430,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: '9182',
+      label: '9182 Double Slip Switch 15°',
+      type: 'switch',
+      article: '9182',
+      color: '#F4D03F',
+      lengthMm: 111,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 111,
+        crossingAngleDeg: 15,
+        slipRadiusMm: 430,
+      },
+    },
+    {
+      id: '9160',
+      label: '9160 Crossing 15°',
+      type: 'crossing',
+      article: '9160',
+      color: '#FFF9C4',
+      lengthMm: 111,
+      meta: {
+        lengthMm: 111,
+        crossingAngleDeg: 15,
+      },
+    },
+  ],
+}
@@ -0,0 +1,167 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const fleischmannProfi_H0: TrackSystemDefinition = {
+  id: 'fleischmann-profi-h0',
+  name: 'Fleischmann profi H0',
+  scale: 'H0',
+  ratio: 87,
+  gaugeMm: 16.5,
+  parallelSpacingMm: 63.5,
+  moduleLengthMm: 200,
+  // Nominal profi-track dimensions; the 6103 and 6106 straights compensate the switch and curve offsets.
+  components: [
+    {
+      id: '6101',
+      label: '6101 Straight 200 mm',
+      type: 'straight',
+      article: '6101',
+      color: '#F5B041',
+      lengthMm: 200,
+    },
+    {
+      id: '6102',
+      label: '6102 Straight 100 mm',
+      type: 'straight',
+      article: '6102',
+      color: '#E67E22',
+      lengthMm: 100,
+    },
+    {
+      id: '6103',
+      label: '6103 Straight 105.8 mm',
+      type: 'straight',
+      article: '6103',
+      color: '#D81B60',
+      lengthMm: 105.8,
+    },
+    {
+      id: '6106',
+      label: '6106 Straight 111 mm',
+      type: 'straight',
+      article: '6106',
+      color: '#8E44AD',
+      lengthMm: 111,
+    },
+    {
+      id: '6120',
+      label: '6120 R1 Curve 36° r=356.5 mm',
+      type: 'curve',
+      article: '6120',
+      color: '#D6EAF8',
+      radiusMm: 356.5,
+      angleDeg: 36,
+      clockwise: false,
+    },
+    {
+      id: '6121',
+      label: '6121 R1 Curve 18° r=356.5 mm',
+      type: 'curve',
+      article: '6121',
+      color: '#D6EAF8',
+      radiusMm: 356.5,
+      angleDeg: 18,
+      clockwise: false,
+    },
+    {
+      id: '6125',
+      label: '6125 R2 Curve 36° r=420 mm',
+      type: 'curve',
+      article: '6125',
+      color: '#AED6F1',
+      radiusMm: 420,
+      angleDeg: 36,
+      clockwise: false,
+    },
+    {
+      id: '6126',
+      label: '6126 R2 Curve 18° r=420 mm',
+      type: 'curve',
+      article: '6126',
+      color: '#AED6F1',
+      radiusMm: 420,
+      angleDeg: 18,
+      clockwise: false,
+    },
+    {
+      id: '6128',
+      label: '6128 Counter Curve 18° r=647.6 mm',
+      type: 'curve',
+      article: '6128',
+      color: '#154360',
+      radiusMm: 647.6,
+      angleDeg: 18,
+      clockwise: false,
+    },
+    {
+      id: '6170',
+      label: '6170 Left Switch 18°',
+      type: 'switch',
+      article: '6170',
+      color: '#52BE80',
+      lengthMm: 200,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 200,
+        branchRadiusMm: 647.6,
+        branchAngleDeg: 18,
+      },
+    },
+    {
+      id: '6171',
+      label: '6171 Right Switch 18°',
+      type: 'switch',
+      article: '6171',
+      color: '#52BE80',
+      lengthMm: 200,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 200,
+        branchRadiusMm: 647.6,
+        branchAngleDeg: 18,
+      },
+    },
+    {
+      id: '6157',
+      label: '6157 3-Way Switch 18°',
+      type: 'switch',
+      article: '6157',
+      color: '#117864',
+      lengthMm: 200,
+      meta: {
+        variant: 'three-way',
+        straightLengthMm: 200,
+        branchRadiusMm: 647.6,
+        branchAngleDeg: 18,
+        branchOffsetMm: 0,
+      },
+    },
+    {
+      id: '6174',
+      label: '6174 Double Slip Switch 18°',
+      type: 'switch',
+      article: '6174',
+      color: '#F4D03F',
+      lengthMm: 200,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 200,
+        crossingAngleDeg: 18,
+        slipRadiusMm: 647.6,
+      },
+    },
+    {
+      id: '6160',
+      label: '6160 Crossing 18°',
+      type: 'crossing',
+      article: '6160',
+      color: '#FFF9C4',
+      lengthMm: 200,
+      meta: {
+        lengthMm: 200,
+        crossingAngleDeg: 18,
+      },
+    },
+  ],
+}
@@ -0,0 +1,329 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const maerklinC_H0: TrackSystemDefinition = {
+  id: 'maerklin-c-h0',
+  name: 'Märklin C-Gleis H0',
+  scale: 'H0',
+  ratio: 87,
+  gaugeMm: 16.5,
+  parallelSpacingMm: 77.5,
+  moduleLengthMm: 188.3,
+  // Nominal Märklin C-track dimensions; the 77.5 mm spacing matches the R1→R2 step and the 24611/24612 turnout offset.
+  components: [
+    {
+      id: '24360',
+      label: '24360 Straight 360 mm',
+      type: 'straight',
+      article: '24360',
+      color: '#F9E79F',
+      lengthMm: 360,
+    },
+    {
+      id: '24236',
+      label: '24236 Straight 236.1 mm',
+      type: 'straight',
+      article: '24236',
+      color: '#F5B041',
+      lengthMm: 236.1,
+    },
+    {
+      id: '24229',
+      label: '24229 Straight 229.3 mm',
+      type: 'straight',
+      article: '24229',
+      color: '#EB984E',
+      lengthMm: 229.3,
+    },
+    {
+      id: '24188',
+      label: '24188 Straight 188.3 mm',
+      type: 'straight',
+      article: '24188',
+      color: '#E67E22',
+      lengthMm: 188.3,
+    },
+    {
+      id: '24172',
+      label: '24172 Straight 171.7 mm',
+      type: 'straight',
+      article: '24172',
+      color: '#CA6F1E',
+      lengthMm: 171.7,
+    },
+    {
+      id: '24094',
+      label: '24094 Straight 94.2 mm',
+      type: 'straight',
+      article: '24094',
+      color: '#C0392B',
+      lengthMm: 94.2,
+    },
+    {
+      id: '24077',
+      label: '24077 Straight 77.5 mm',
+      type: 'straight',
+      article: '24077',
+      color: '#D81B60',
+      lengthMm: 77.5,
+    },
+    {
+      id: '24071',
+      label: '24071 Straight 70.8 mm',
+      type: 'straight',
+      article: '24071',
+      color: '#AD1457',
+      lengthMm: 70.8,
+    },
+    {
+      id: '24064',
+      label: '24064 Straight 64.3 mm',
+      type: 'straight',
+      article: '24064',
+      color: '#8E44AD',
+      lengthMm: 64.3,
+    },
+    {
+      id: '24130',
+      label: '24130 R1 Curve 30° r=360 mm',
+      type: 'curve',
+      article: '24130',
+      color: '#D6EAF8',
+      radiusMm: 360,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '24115',
+      label: '24115 R1 Curve 15° r=360 mm',
+      type: 'curve',
+      article: '24115',
+      color: '#D6EAF8',
+      radiusMm: 360,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '24107',
+      label: '24107 R1 Curve 7.5° r=360 mm',
+      type: 'curve',
+      article: '24107',
+      color: '#D6EAF8',
+      radiusMm: 360,
+      angleDeg: 7.5,
+      clockwise: false,
+    },
+    {
+      id: '24230',
+      label: '24230 R2 Curve 30° r=437.5 mm',
+      type: 'curve',
+      article: '24230',
+      color: '#AED6F1',
+      radiusMm: 437.5,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '24215',
+      label: '24215 R2 Curve 15° r=437.5 mm',
+      type: 'curve',
+      article: '24215',
+      color: '#AED6F1',
+      radiusMm: 437.5,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '24224',
+      label: '24224 R2 Curve 24.3° r=437.5 mm',
+      type: 'curve',
+      article: '24224',
+      color: '#85C1E9',
+      radiusMm: 437.5,
+      angleDeg: 24.3,
+      clockwise: false,
+    },
+    {
+      id: '24206',
+      label: '24206 R2 Curve 5.7° r=437.5 mm',
+      type: 'curve',
+      article: '24206',
+      color: '#85C1E9',
+      radiusMm: 437.5,
+      angleDeg: 5.7,
+      clockwise: false,
+    },
+    {
+      id: '24330',
+      label: '24330 R3 Curve 30° r=515 mm',
+      type: 'curve',
+      article: '24330',
+      color: '#3498DB',
+      radiusMm: 515,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '24315',
+      label: '24315 R3 Curve 15° r=515 mm',
+      type: 'curve',
+      article: '24315',
+      color: '#3498DB',
+      radiusMm: 515,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '24430',
+      label: '24430 R4 Curve 30° r=579.3 mm',
+      type: 'curve',
+      article: '24430',
+      color: '#2874A6',
+      radiusMm: 579.3,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '24530',
+      label: '24530 R5 Curve 30° r=643.6 mm',
+      type: 'curve',
+      article: '24530',
+      color: '#1B4F72',
+      radiusMm: 643.6,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '24515',
+      label: '24515 R5 Curve 15° r=643.6 mm',
+      type: 'curve',
+      article: '24515',
+      color: '#1B4F72',
+      radiusMm: 643.6,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: '24912',
+      label: '24912 R9 Curve 12.1° r=1114.6 mm',
+      type: 'curve',
+      article: '24912',
+      color: '#154360',
+      radiusMm: 1114.6,
+      angleDeg: 12.1,
+      clockwise: false,
+    },
+    {
+      id: '24611',
+      label: '24611 Left Switch 24.3° R2',
+      type: 'switch',
+      article: '24611',
+      color: '#52BE80',
+      lengthMm: 188.3,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 188.3,
+        branchRadiusMm: 437.5,
+        branchAngleDeg: 24.3,
+      },
+    },
+    {
+      id: '24612',
+      label: '24612 Right Switch 24.3° R2',
+      type: 'switch',
+      article: '24612',
+      color: '#52BE80',
+      lengthMm: 188.3,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 188.3,
+        branchRadiusMm: 437.5,
+        branchAngleDeg: 24.3,
+      },
+    },
+    {
+      id: '24711',
+      label: '24711 Slender Left Switch 12.1° R9',
+      type: 'switch',
+      article: '24711',
+      color: '#27AE60',
+      lengthMm: 236.1,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 236.1,
+        branchRadiusMm: 1114.6,
+        branchAngleDeg: 12.1,
+      },
+    },
+    {
+      id: '24712',
+      label: '24712 Slender Right Switch 12.1° R9',
+      type: 'switch',
+      article: '24712',
+      color: '#27AE60',
+      lengthMm: 236.1,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 236.1,
+        branchRadiusMm: 1114.6,
+        branchAngleDeg: 12.1,
+      },
+    },
+    {
+      id: '24630',
+      label: '24630 3-Way Switch 24.3°',
+      type: 'switch',
+      article: '24630',
+      color: '#117864',
+      lengthMm: 188.3,
+      meta: {
+        variant: 'three-way',
+        straightLengthMm: 188.3,
+        branchRadiusMm: 437.5,
+        branchAngleDeg: 24.3,
+        branchOffsetMm: 0,
+      },
+    },
+    {
+      id: '24624',
+      label: '24624 Double Slip Switch 24.3°',
+      type: 'switch',
+      article: '24624',
+      color: '#F4D03F',
+      lengthMm: 188.3,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 188.3,
+        crossingAngleDeg: 24.3,
+        slipRadiusMm: 437.5,
+      },
+    },
+    {
+      id: '24640',
+      label: '24640 Crossing 24.3°',
+      type: 'crossing',
+      article: '24640',
+      color: '#FFF9C4',
+      lengthMm: 188.3,
+      meta: {
+        lengthMm: 188.3,
+        crossingAngleDeg: 24.3,
+      },
+    },
+    {
+      id: '24740',
+      label: '24740 Crossing 12.1°',
+      type: 'crossing',
+      article: '24740',
+      color: '#FFF176',
+      lengthMm: 236.1,
+      meta: {
+        lengthMm: 236.1,
+        crossingAngleDeg: 12.1,
+      },
+    },
+  ],
+}
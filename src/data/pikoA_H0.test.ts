@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest'
+import { pikoA_H0 } from './pikoA_H0'
+import { getComponentGeometry, normalizeAngle } from '../geometry/trackGeometry'
+import type { TrackConnector } from '../types/trackSystem'
+
+// Figures as printed in the PIKO A catalogue (piko-a-track-h0-track-system-en.pdf)
+const G239 = 239.07
+const G231 = 230.93
+const G119 = 119.54
+const G115 = 115.46
+const G107 = 107.32
+const G62 = 61.88
+const R1 = 360
+const R2 = 421.88
+const R3 = 483.75
+const R4 = 545.63
+const R9 = 907.97
+
+const TOLERANCE_MM = 0.01
+const TOLERANCE_DEG = 1e-6
+
+interface ExpectedConnector {
+  x: number
+  y: number
+  heading: number
+  /**
+   * Position depends on a dimension the catalogue does not give (listed in `unverifiedDimensions`);
+   * only the heading is checked
+   */
+  unverified?: boolean
+}
+
+const straight = (lengthMm: number): Record<string, ExpectedConnector> => ({
+  start: { x: 0, y: 0, heading: 180 },
+  end: { x: lengthMm, y: 0, heading: 0 },
+})
+
+/** End of an arc that leaves the origin along +x, turning towards +y for a positive sign */
+const arcEnd = (radiusMm: number, angleDeg: number, sign = 1): ExpectedConnector => {
+  const rad = (angleDeg * Math.PI) / 180
+  return {
+    x: radiusMm * Math.sin(rad),
+    y: sign * radiusMm * (1 - Math.cos(rad)),
+    heading: sign * angleDeg,
+  }
+}
+
+/** Curves are laid out so they finish heading along +x */
+const curve = (radiusMm: number, angleDeg: number): Record<string, ExpectedConnector> => ({
+  start: { x: 0, y: 0, heading: angleDeg - 180 },
+  end: { ...arcEnd(radiusMm, angleDeg), heading: 0 },
+})
+
+const crossing = (lengthMm: number, angleDeg: number): Record<string, ExpectedConnector> => {
+  const half = lengthMm / 2
+  const rad = (angleDeg * Math.PI) / 180
+  const dx = half * Math.cos(rad)
+  const dy = half * Math.sin(rad)
+  return {
+    ...straight(lengthMm),
+    crossStart: { x: half - dx, y: -dy, heading: 180 + angleDeg },
+    crossEnd: { x: half + dx, y: dy, heading: angleDeg },
+  }
+}
+
+const simpleSwitch = (sign: 1 | -1): Record<string, ExpectedConnector> => ({
+  ...straight(G239),
+  branch: arcEnd(R9, 15, sign),
+  diverging: arcEnd(R9, 15, sign),
+})
+
+const curvedSwitch = (innerRadiusMm: number, sign: 1 | -1): Record<string, ExpectedConnector> => {
+  const inner = arcEnd(innerRadiusMm, 30, sign)
+  const outer = arcEnd(R9, 30, sign)
+  return {
+    start: { x: 0, y: 0, heading: sign * 30 - 180 },
+    end: { ...outer, heading: 0, unverified: true },
+    inner: { ...inner, heading: 0 },
+  }
+}
+
+const EXPECTED: Record<string, Record<string, ExpectedConnector>> = {
+  G239: straight(G239),
+  G231: straight(G231),
+  G119: straight(G119),
+  G115: straight(G115),
+  G107: straight(G107),
+  G62: straight(G62),
+  'GUE62-H': straight(G62),
+  'GUE62-U': straight(G62),
+  G940: straight(940),
+  'R1-30': curve(R1, 30),
+  'R1-7.5': curve(R1, 7.5),
+  'R2-30': curve(R2, 30),
+  'R2-7.5': curve(R2, 7.5),
+  'R3-30': curve(R3, 30),
+  'R4-30': curve(R4, 30),
+  'R9-15': curve(R9, 15),
+  WL: simpleSwitch(-1),
+  WR: simpleSwitch(1),
+  W3: {
+    ...straight(G239),
+    leftBranch: arcEnd(R9, 15, -1),
+    rightBranch: arcEnd(R9, 15, 1),
+  },
+  DKW: crossing(G239, 15),
+  BWL: curvedSwitch(R2, -1),
+  BWR: curvedSwitch(R2, 1),
+  'BWL-R3': curvedSwitch(R3, -1),
+  'BWR-R3': curvedSwitch(R3, 1),
+  WY: {
+    start: { x: 0, y: 0, heading: 180 },
+    end: arcEnd(R9, 15, -1),
+    left: arcEnd(R9, 15, -1),
+    right: arcEnd(R9, 15, 1),
+  },
+  K15: crossing(G239, 15),
+  K30: crossing(G119, 30),
+  PB: {
+    start: { x: 0, y: 0, heading: 180 },
+    end: { x: 0, y: 0, heading: 180 },
+  },
+  'G231-F': straight(G231),
+  'G231-I': straight(G231),
+}
+
+// Article list on pages 6 (track) and 7 (accessories) of the catalogue
+const ARTICLES: Record<string, string> = {
+  G239: '55200',
+  G231: '55201',
+  G119: '55202',
+  G115: '55203',
+  G107: '55204',
+  G62: '55205',
+  'GUE62-H': '55207',
+  'GUE62-U': '55208',
+  G940: '55209',
+  'R1-30': '55211',
+  'R1-7.5': '55251',
+  'R2-30': '55212',
+  'R2-7.5': '55252',
+  'R3-30': '55213',
+  'R4-30': '55214',
+  'R9-15': '55219',
+  WL: '55220',
+  WR: '55221',
+  W3: '55225',
+  DKW: '55224',
+  BWL: '55222',
+  BWR: '55223',
+  'BWL-R3': '55227',
+  'BWR-R3': '55228',
+  WY: '55226',
+  K15: '55240',
+  K30: '55241',
+  PB: '55280',
+  'G231-F': '55201 + 55270',
+  'G231-I': '55201 + 55291',
+}
+
+const connectorsOf = (id: string): Record<string, TrackConnector> => {
+  const def = pikoA_H0.components.find((component) => component.id === id)
+  if (!def) throw new Error(`Missing PIKO A component ${id}`)
+  const geometry = getComponentGeometry(def)
+  return { start: geometry.start, end: geometry.end, ...geometry.extraConnectors }
+}
+
+describe('PIKO A catalog geometry', () => {
+  it('covers every catalog component', () => {
+    expect(pikoA_H0.components.map((component) => component.id).sort()).toEqual(
+      Object.keys(EXPECTED).sort(),
+    )
+  })
+
+  it('uses the catalogue article numbers', () => {
+    const articles = Object.fromEntries(pikoA_H0.components.map((component) => [component.id, component.article]))
+    expect(articles).toEqual(ARTICLES)
+  })
+
+  it('keeps straight lengths true to the catalogue', () => {
+    for (const component of pikoA_H0.components) {
+      if (component.type !== 'straight') continue
+      expect(EXPECTED[component.id].end.x).toBeCloseTo(component.lengthMm ?? 0, 6)
+    }
+  })
+
+  it.each(Object.entries(EXPECTED))('%s connectors match the dimensions the catalogue gives', (id, expected) => {
+    const connectors = connectorsOf(id)
+    expect(Object.keys(connectors).sort()).toEqual(Object.keys(expected).sort())
+    for (const [name, want] of Object.entries(expected)) {
+      const got = connectors[name]
+      const headingError = Math.abs(normalizeAngle(got.directionDeg - want.heading))
+      expect(headingError, `${id}.${name} heading`).toBeLessThan(TOLERANCE_DEG)
+      if (want.unverified) continue
+      expect(Math.abs(got.xMm - want.x), `${id}.${name} x`).toBeLessThan(TOLERANCE_MM)
+      expect(Math.abs(got.yMm - want.y), `${id}.${name} y`).toBeLessThan(TOLERANCE_MM)
+    }
+  })
+
+  it('flags dimensions the catalogue does not give', () => {
+    const unverified = pikoA_H0.components
+      .filter((component) => Array.isArray(component.meta?.unverifiedDimensions))
+      .map((component) => component.id)
+      .sort()
+    expect(unverified).toEqual(['BWL', 'BWL-R3', 'BWR', 'BWR-R3', 'PB'])
+  })
+
+  it('spaces neighbouring curve radii and switch branches by the parallel track distance', () => {
+    expect(R2 - R1).toBeCloseTo(pikoA_H0.parallelSpacingMm ?? 0, 1)
+    expect(R3 - R2).toBeCloseTo(pikoA_H0.parallelSpacingMm ?? 0, 1)
+    expect(R4 - R3).toBeCloseTo(pikoA_H0.parallelSpacingMm ?? 0, 1)
+    expect(2 * arcEnd(R9, 15).y).toBeCloseTo(pikoA_H0.parallelSpacingMm ?? 0, 1)
+  })
+})
@@ -8,7 +8,10 @@ export const pikoA_H0: TrackSystemDefinition = {
   gaugeMm: 16.5,
   parallelSpacingMm: 61.88,
   moduleLengthMm: 470,
+  minFlexRadiusMm: 358,
   // Dimensions lifted from the official PIKO catalogue so every length/angle stays true to the prototype.
+  // Article numbers follow the catalogue's article list (piko-a-track-h0-track-system-en.pdf, page 6 for
+  // track and page 7 for accessories).
   components: [
     {
       id: 'G239',
@@ -16,7 +19,7 @@ export const pikoA_H0: TrackSystemDefinition = {
       type: 'straight',
       article: '55200',
       color: '#F5B041',
-      lengthMm: 239,
+      lengthMm: 239.07,
     },
     {
       id: 'G231',
@@ -58,6 +61,30 @@ export const pikoA_H0: TrackSystemDefinition = {
       color: '#512E5F',
       lengthMm: 61.88,
     },
+    {
+      id: 'GUE62-H',
+      label: 'GUE62-H Adaptor to PIKO U-profile track',
+      type: 'straight',
+      article: '55207',
+      color: '#6C3483',
+      lengthMm: 61.88,
+    },
+    {
+      id: 'GUE62-U',
+      label: 'GUE62-U Adaptor to other 2.5 mm track',
+      type: 'straight',
+      article: '55208',
+      color: '#7D3C98',
+      lengthMm: 61.88,
+    },
+    {
+      id: 'G940',
+      label: 'G940 Flex Track 940 mm',
+      type: 'flex',
+      article: '55209',
+      color: '#A9CCE3',
+      lengthMm: 940,
+    },
     {
       id: 'R1-30',
       label: 'R1 Curve 30° r=360 mm',
@@ -68,33 +95,53 @@ export const pikoA_H0: TrackSystemDefinition = {
       angleDeg: 30,
       clockwise: false,
     },
+    {
+      id: 'R1-7.5',
+      label: 'R1 Curve 7.5° r=360 mm',
+      type: 'curve',
+      article: '55251',
+      color: '#D6EAF8',
+      radiusMm: 360.0,
+      angleDeg: 7.5,
+      clockwise: false,
+    },
     {
       id: 'R2-30',
-      label: 'R2 Curve 30° r=421.9 mm',
+      label: 'R2 Curve 30° r=421.88 mm',
       type: 'curve',
       article: '55212',
       color: '#3498DB',
-      radiusMm: 421.9,
+      radiusMm: 421.88,
       angleDeg: 30,
       clockwise: false,
     },
+    {
+      id: 'R2-7.5',
+      label: 'R2 Curve 7.5° r=421.88 mm',
+      type: 'curve',
+      article: '55252',
+      color: '#85C1E9',
+      radiusMm: 421.88,
+      angleDeg: 7.5,
+      clockwise: false,
+    },
     {
       id: 'R3-30',
-      label: 'R3 Curve 30° r=483.8 mm',
+      label: 'R3 Curve 30° r=483.75 mm',
       type: 'curve',
       article: '55213',
       color: '#2874A6',
-      radiusMm: 483.8,
+      radiusMm: 483.75,
       angleDeg: 30,
       clockwise: false,
     },
     {
       id: 'R4-30',
-      label: 'R4 Curve 30° r=545.6 mm',
+      label: 'R4 Curve 30° r=545.63 mm',
       type: 'curve',
       article: '55214',
       color: '#1B4F72',
-      radiusMm: 545.6,
+      radiusMm: 545.63,
       angleDeg: 30,
       clockwise: false,
     },
@@ -112,13 +159,13 @@ export const pikoA_H0: TrackSystemDefinition = {
       id: 'WL',
       label: 'WL Left Switch 15° R9',
       type: 'switch',
-      article: '55221',
+      article: '55220',
       color: '#52BE80',
-      lengthMm: 239,
+      lengthMm: 239.07,
       meta: {
         variant: 'simple-switch',
         direction: 'right',
-        straightLengthMm: 239,
+        straightLengthMm: 239.07,
         branchRadiusMm: 907.97,
         branchAngleDeg: 15,
       },
@@ -127,13 +174,13 @@ export const pikoA_H0: TrackSystemDefinition = {
       id: 'WR',
       label: 'WR Right Switch 15° R9',
       type: 'switch',
-      article: '55220',
+      article: '55221',
       color: '#52BE80',
-      lengthMm: 239,
+      lengthMm: 239.07,
       meta: {
         variant: 'simple-switch',
         direction: 'left',
-        straightLengthMm: 239,
+        straightLengthMm: 239.07,
         branchRadiusMm: 907.97,
         branchAngleDeg: 15,
       },
@@ -142,12 +189,13 @@ export const pikoA_H0: TrackSystemDefinition = {
       id: 'W3',
       label: 'W3 3-Way Switch',
       type: 'switch',
-      article: '55224',
+      // PDF page 6: "55225 Three Way Switch W3"
+      article: '55225',
       color: '#117864',
-      lengthMm: 239,
+      lengthMm: 239.07,
       meta: {
         variant: 'three-way',
-        straightLengthMm: 239,
+        straightLengthMm: 239.07,
         branchRadiusMm: 907.97,
         branchAngleDeg: 15,
         branchOffsetMm: 0,
@@ -157,14 +205,100 @@ export const pikoA_H0: TrackSystemDefinition = {
       id: 'DKW',
       label: 'DKW Double Slip Switch',
       type: 'switch',
-      article: '55224', // Note: Article number might be different, using placeholder or checking if available. DKW is usually 55224.
+      article: '55224',
       color: '#F4D03F',
-      lengthMm: 239,
+      lengthMm: 239.07,
       meta: {
         variant: 'double-slip',
-        lengthMm: 239,
+        lengthMm: 239.07,
         crossingAngleDeg: 15,
-        slipRadiusMm: 907.97, // Assuming R9 for slip
+        slipRadiusMm: 907.97,
+      },
+    },
+    {
+      id: 'BWL',
+      label: 'BWL Left Curved Switch R2',
+      type: 'switch',
+      // PDF page 6: "55222 Curved Switch BWL"
+      article: '55222',
+      color: '#7DCEA0',
+      meta: {
+        variant: 'curved-switch',
+        direction: 'right',
+        innerRadiusMm: 421.88,
+        outerRadiusMm: 907.97,
+        angleDeg: 30,
+        // The catalogue only gives the main track's radius. The R9 outer leg is a guess: its end sits 65.1 mm
+        // off the inner leg rather than at the 61.88 mm track spacing
+        unverifiedDimensions: ['outerRadiusMm'],
+      },
+    },
+    {
+      id: 'BWR',
+      label: 'BWR Right Curved Switch R2',
+      type: 'switch',
+      // PDF page 6: "55223 Curved Switch BWR"
+      article: '55223',
+      color: '#7DCEA0',
+      meta: {
+        variant: 'curved-switch',
+        direction: 'left',
+        innerRadiusMm: 421.88,
+        outerRadiusMm: 907.97,
+        angleDeg: 30,
+        // The catalogue only gives the main track's radius. The R9 outer leg is a guess: its end sits 65.1 mm
+        // off the inner leg rather than at the 61.88 mm track spacing
+        unverifiedDimensions: ['outerRadiusMm'],
+      },
+    },
+    {
+      id: 'BWL-R3',
+      label: 'BWL-R3 Left Curved Switch R3',
+      type: 'switch',
+      // PDF page 6: "55227 Curved Switch BWL-R3, left"
+      article: '55227',
+      color: '#45B39D',
+      meta: {
+        variant: 'curved-switch',
+        direction: 'right',
+        innerRadiusMm: 483.75,
+        outerRadiusMm: 907.97,
+        angleDeg: 30,
+        // The catalogue only gives the main track's radius. The R9 outer leg is a guess: its end sits 65.1 mm
+        // off the inner leg rather than at the 61.88 mm track spacing
+        unverifiedDimensions: ['outerRadiusMm'],
+      },
+    },
+    {
+      id: 'BWR-R3',
+      label: 'BWR-R3 Right Curved Switch R3',
+      type: 'switch',
+      // PDF page 6: "55228 Curved Switch BWR-R3, right"
+      article: '55228',
+      color: '#45B39D',
+      meta: {
+        variant: 'curved-switch',
+        direction: 'left',
+        innerRadiusMm: 483.75,
+        outerRadiusMm: 907.97,
+        angleDeg: 30,
+        // The catalogue only gives the main track's radius. The R9 outer leg is a guess: its end sits 65.1 mm
+        // off the inner leg rather than at the 61.88 mm track spacing
+        unverifiedDimensions: ['outerRadiusMm'],
+      },
+    },
+    {
+      id: 'WY',
+      label: 'WY Y Switch 2 × 15° R9',
+      type: 'switch',
+      // PDF page 6: "55226 Y Switch WY"
+      article: '55226',
+      color: '#A9DFBF',
+      meta: {
+        variant: 'y-switch',
+        stubLengthMm: 0,
+        branchRadiusMm: 907.97,
+        branchAngleDeg: 15,
       },
     },
     {
@@ -173,9 +307,9 @@ export const pikoA_H0: TrackSystemDefinition = {
       type: 'crossing',
       article: '55240',
       color: '#FFF9C4',
-      lengthMm: 239,
+      lengthMm: 239.07,
       meta: {
-        lengthMm: 239,
+        lengthMm: 239.07,
         crossingAngleDeg: 15,
       },
     },
@@ -191,5 +325,46 @@ export const pikoA_H0: TrackSystemDefinition = {
         crossingAngleDeg: 30,
       },
     },
+    {
+      id: 'PB',
+      label: 'Buffer stop',
+      type: 'accessory',
+      // PDF page 7: "55280 Bumper (Buffer Stop)"; 55281 is the track cleaning block
+      article: '55280',
+      color: '#6D4C41',
+      // Footprint of the stop beyond the rail end; the catalogue gives no exact figure
+      lengthMm: 40,
+      meta: {
+        kind: 'buffer-stop',
+        lengthMm: 40,
+        unverifiedDimensions: ['lengthMm'],
+      },
+    },
+    {
+      id: 'G231-F',
+      label: 'G231 Feeder straight with terminal box',
+      type: 'accessory',
+      // PDF page 7: the 55270 terminal box fits track G231
+      article: '55201 + 55270',
+      color: '#E67E22',
+      lengthMm: 230.93,
+      meta: {
+        kind: 'feeder',
+        lengthMm: 230.93,
+      },
+    },
+    {
+      id: 'G231-I',
+      label: 'G231 Isolating straight with insulated joiners',
+      type: 'accessory',
+      // PDF page 7: 55291 insulated rail joiners replace the standard ones
+      article: '55201 + 55291',
+      color: '#E67E22',
+      lengthMm: 230.93,
+      meta: {
+        kind: 'isolating',
+        lengthMm: 230.93,
+      },
+    },
   ],
 }
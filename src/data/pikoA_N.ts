@@ -0,0 +1,167 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const pikoA_N: TrackSystemDefinition = {
+  id: 'piko-a-n',
+  name: 'PIKO A-Gleis N',
+  scale: 'N',
+  ratio: 160,
+  gaugeMm: 9,
+  parallelSpacingMm: 33.6,
+  moduleLengthMm: 312,
+  // Nominal PIKO A N dimensions; radii step by the 33.6 mm parallel spacing like the H0 range.
+  components: [
+    {
+      id: 'G312',
+      label: 'G312 Straight 312 mm',
+      type: 'straight',
+      article: '55300',
+      color: '#F9E79F',
+      lengthMm: 312,
+    },
+    {
+      id: 'G117',
+      label: 'G117 Straight 117 mm',
+      type: 'straight',
+      article: '55301',
+      color: '#F5B041',
+      lengthMm: 117,
+    },
+    {
+      id: 'G104',
+      label: 'G104 Straight 104.5 mm',
+      type: 'straight',
+      article: '55302',
+      color: '#E67E22',
+      lengthMm: 104.5,
+    },
+    {
+      id: 'G52',
+      label: 'G52 Straight 52.3 mm',
+      type: 'straight',
+      article: '55303',
+      color: '#C0392B',
+      lengthMm: 52.3,
+    },
+    {
+      id: 'R1',
+      label: 'R1 Curve 30° r=194.6 mm',
+      type: 'curve',
+      article: '55311',
+      color: '#D6EAF8',
+      radiusMm: 194.6,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R2',
+      label: 'R2 Curve 30° r=228.2 mm',
+      type: 'curve',
+      article: '55312',
+      color: '#AED6F1',
+      radiusMm: 228.2,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R3',
+      label: 'R3 Curve 30° r=261.8 mm',
+      type: 'curve',
+      article: '55313',
+      color: '#3498DB',
+      radiusMm: 261.8,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R4',
+      label: 'R4 Curve 30° r=295.4 mm',
+      type: 'curve',
+      article: '55314',
+      color: '#2874A6',
+      radiusMm: 295.4,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R9-15',
+      label: 'R9 Curve 15° r=493.8 mm',
+      type: 'curve',
+      article: '55319',
+      color: '#154360',
+      radiusMm: 493.8,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: 'WL',
+      label: 'WL Left Switch 15° R9',
+      type: 'switch',
+      article: '55320',
+      color: '#52BE80',
+      lengthMm: 130,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 130,
+        branchRadiusMm: 493.8,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: 'WR',
+      label: 'WR Right Switch 15° R9',
+      type: 'switch',
+      article: '55321',
+      color: '#52BE80',
+      lengthMm: 130,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 130,
+        branchRadiusMm: 493.8,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: 'W3',
+      label: 'W3 3-Way Switch',
+      type: 'switch',
+      article: '55325',
+      color: '#117864',
+      lengthMm: 130,
+      meta: {
+        variant: 'three-way',
+        straightLengthMm: 130,
+        branchRadiusMm: 493.8,
+        branchAngleDeg: 15,
+        branchOffsetMm: 0,
+      },
+    },
+    {
+      id: 'DKW',
+      label: 'DKW Double Slip Switch',
+      type: 'switch',
+      article: '55324',
+      color: '#F4D03F',
+      lengthMm: 130,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 130,
+        crossingAngleDeg: 15,
+        slipRadiusMm: 493.8,
+      },
+    },
+    {
+      id: 'K15',
+      label: 'K15 Crossing 15°',
+      type: 'crossing',
+      article: '55340',
+      color: '#FFF9C4',
+      lengthMm: 130,
+      meta: {
+        lengthMm: 130,
+        crossingAngleDeg: 15,
+      },
+    },
+  ],
+}
@@ -0,0 +1,167 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const rocoGeoLine_H0: TrackSystemDefinition = {
+  id: 'roco-geoline-h0',
+  name: 'Roco geoLine H0',
+  scale: 'H0',
+  ratio: 87,
+  gaugeMm: 16.5,
+  parallelSpacingMm: 76.5,
+  moduleLengthMm: 200,
+  // Nominal geoLine dimensions; switches pair with the R10 counter curve to restore the 76.5 mm track spacing.
+  components: [
+    {
+      id: '61110',
+      label: 'G200 Straight 200 mm',
+      type: 'straight',
+      article: '61110',
+      color: '#F5B041',
+      lengthMm: 200,
+    },
+    {
+      id: '61111',
+      label: 'G185 Straight 185 mm',
+      type: 'straight',
+      article: '61111',
+      color: '#EB984E',
+      lengthMm: 185,
+    },
+    {
+      id: '61112',
+      label: 'G100 Straight 100 mm',
+      type: 'straight',
+      article: '61112',
+      color: '#E67E22',
+      lengthMm: 100,
+    },
+    {
+      id: '61113',
+      label: 'G76.5 Straight 76.5 mm',
+      type: 'straight',
+      article: '61113',
+      color: '#C0392B',
+      lengthMm: 76.5,
+    },
+    {
+      id: '61122',
+      label: 'R2 Curve 30° r=358 mm',
+      type: 'curve',
+      article: '61122',
+      color: '#D6EAF8',
+      radiusMm: 358,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '61123',
+      label: 'R3 Curve 30° r=434.5 mm',
+      type: 'curve',
+      article: '61123',
+      color: '#AED6F1',
+      radiusMm: 434.5,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '61124',
+      label: 'R4 Curve 30° r=511 mm',
+      type: 'curve',
+      article: '61124',
+      color: '#3498DB',
+      radiusMm: 511,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '61125',
+      label: 'R5 Curve 30° r=587.5 mm',
+      type: 'curve',
+      article: '61125',
+      color: '#2874A6',
+      radiusMm: 587.5,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: '61130',
+      label: 'R10 Counter Curve 22.5° r=502.7 mm',
+      type: 'curve',
+      article: '61130',
+      color: '#154360',
+      radiusMm: 502.7,
+      angleDeg: 22.5,
+      clockwise: false,
+    },
+    {
+      id: '61140',
+      label: 'WL Left Switch 22.5° R10',
+      type: 'switch',
+      article: '61140',
+      color: '#52BE80',
+      lengthMm: 200,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 200,
+        branchRadiusMm: 502.7,
+        branchAngleDeg: 22.5,
+      },
+    },
+    {
+      id: '61141',
+      label: 'WR Right Switch 22.5° R10',
+      type: 'switch',
+      article: '61141',
+      color: '#52BE80',
+      lengthMm: 200,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 200,
+        branchRadiusMm: 502.7,
+        branchAngleDeg: 22.5,
+      },
+    },
+    {
+      id: '61154',
+      label: 'W3 3-Way Switch 22.5°',
+      type: 'switch',
+      article: '61154',
+      color: '#117864',
+      lengthMm: 200,
+      meta: {
+        variant: 'three-way',
+        straightLengthMm: 200,
+        branchRadiusMm: 502.7,
+        branchAngleDeg: 22.5,
+        branchOffsetMm: 0,
+      },
+    },
+    {
+      id: '61164',
+      label: 'DKW Double Slip Switch 22.5°',
+      type: 'switch',
+      article: '61164',
+      color: '#F4D03F',
+      lengthMm: 200,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 200,
+        crossingAngleDeg: 22.5,
+        slipRadiusMm: 502.7,
+      },
+    },
+    {
+      id: '61160',
+      label: 'K22 Crossing 22.5°',
+      type: 'crossing',
+      article: '61160',
+      color: '#FFF9C4',
+      lengthMm: 200,
+      meta: {
+        lengthMm: 200,
+        crossingAngleDeg: 22.5,
+      },
+    },
+  ],
+}
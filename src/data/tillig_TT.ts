@@ -0,0 +1,167 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+export const tillig_TT: TrackSystemDefinition = {
+  id: 'tillig-tt',
+  name: 'Tillig Modellgleis TT',
+  scale: 'TT',
+  ratio: 120,
+  gaugeMm: 12,
+  parallelSpacingMm: 43,
+  moduleLengthMm: 166,
+  // Nominal Tillig Modellgleis dimensions; radii step by the 43 mm track spacing.
+  components: [
+    {
+      id: 'G1',
+      label: 'G1 Straight 166 mm',
+      type: 'straight',
+      article: '83101',
+      color: '#F9E79F',
+      lengthMm: 166,
+    },
+    {
+      id: 'G2',
+      label: 'G2 Straight 83 mm',
+      type: 'straight',
+      article: '83102',
+      color: '#F5B041',
+      lengthMm: 83,
+    },
+    {
+      id: 'G3',
+      label: 'G3 Straight 41.5 mm',
+      type: 'straight',
+      article: '83103',
+      color: '#E67E22',
+      lengthMm: 41.5,
+    },
+    {
+      id: 'G4',
+      label: 'G4 Straight 43 mm',
+      type: 'straight',
+      article: '83104',
+      color: '#C0392B',
+      lengthMm: 43,
+    },
+    {
+      id: 'R11',
+      label: 'R11 Curve 30° r=267 mm',
+      type: 'curve',
+      article: '83111',
+      color: '#D6EAF8',
+      radiusMm: 267,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R1',
+      label: 'R1 Curve 30° r=310 mm',
+      type: 'curve',
+      article: '83121',
+      color: '#AED6F1',
+      radiusMm: 310,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R2',
+      label: 'R2 Curve 30° r=353 mm',
+      type: 'curve',
+      article: '83122',
+      color: '#3498DB',
+      radiusMm: 353,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R3',
+      label: 'R3 Curve 30° r=396 mm',
+      type: 'curve',
+      article: '83123',
+      color: '#2874A6',
+      radiusMm: 396,
+      angleDeg: 30,
+      clockwise: false,
+    },
+    {
+      id: 'R6',
+      label: 'R6 Curve 15° r=631 mm',
+      type: 'curve',
+      article: '83126',
+      color: '#154360',
+      radiusMm: 631,
+      angleDeg: 15,
+      clockwise: false,
+    },
+    {
+      id: 'EW1-L',
+      label: 'EW1 Left Switch 15°',
+      type: 'switch',
+      article: '83321',
+      color: '#52BE80',
+      lengthMm: 166,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'right',
+        straightLengthMm: 166,
+        branchRadiusMm: 631,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: 'EW1-R',
+      label: 'EW1 Right Switch 15°',
+      type: 'switch',
+      article: '83322',
+      color: '#52BE80',
+      lengthMm: 166,
+      meta: {
+        variant: 'simple-switch',
+        direction: 'left',
+        straightLengthMm: 166,
+        branchRadiusMm: 631,
+        branchAngleDeg: 15,
+      },
+    },
+    {
+      id: 'DWW',
+      label: 'DWW 3-Way Switch 15°',
+      type: 'switch',
+      article: '83361',
+      color: '#117864',
+      lengthMm: 166,
+      meta: {
+        variant: 'three-way',
+        straightLengthMm: 166,
+        branchRadiusMm: 631,
+        branchAngleDeg: 15,
+        branchOffsetMm: 0,
+      },
+    },
+    {
+      id: 'DKW',
+      label: 'DKW Double Slip Switch 15°',
+      type: 'switch',
+      article: '83341',
+      color: '#F4D03F',
+      lengthMm: 166,
+      meta: {
+        variant: 'double-slip',
+        lengthMm: 166,
+        crossingAngleDeg: 15,
+        slipRadiusMm: 631,
+      },
+    },
+    {
+      id: 'K15',
+      label: 'K15 Crossing 15°',
+      type: 'crossing',
+      article: '83371',
+      color: '#FFF9C4',
+      lengthMm: 166,
+      meta: {
+        lengthMm: 166,
+        crossingAngleDeg: 15,
+      },
+    },
+  ],
+}
@@ -0,0 +1,23 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+import { fleischmannPiccolo_N } from './fleischmannPiccolo_N'
+import { fleischmannProfi_H0 } from './fleischmannProfi_H0'
+import { maerklinC_H0 } from './maerklinC_H0'
+import { pikoA_H0 } from './pikoA_H0'
+import { pikoA_N } from './pikoA_N'
+import { rocoGeoLine_H0 } from './rocoGeoLine_H0'
+import { tillig_TT } from './tillig_TT'
+
+/** Catalogs bundled with the app; layouts keep a copy but always render against these definitions. */
+export const BUILT_IN_TRACK_SYSTEMS: TrackSystemDefinition[] = [
+  pikoA_H0,
+  maerklinC_H0,
+  rocoGeoLine_H0,
+  fleischmannProfi_H0,
+  tillig_TT,
+  pikoA_N,
+  fleischmannPiccolo_N,
+]
+
+export function findBuiltInTrackSystem(id: string): TrackSystemDefinition | null {
+  return BUILT_IN_TRACK_SYSTEMS.find((system) => system.id === id) ?? null
+}
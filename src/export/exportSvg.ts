@@ -10,16 +10,20 @@ import type {
   TrackConnector,
   TrackSystemDefinition,
 } from '../types/trackSystem'
-import { getComponentGeometry, rotatePointLocal } from '../geometry/trackGeometry'
+import { getComponentGeometry, getPlacedItemGeometry, rotatePointLocal } from '../geometry/trackGeometry'
+import { getPolylineBounds, samplePathD } from '../geometry/pathSampling'
+import { DEFAULT_TRACK_SYSTEM_METRICS, getTrackSystemMetrics } from '../geometry/trackSystemMetrics'
 import {
   TEXT_CHAR_WIDTH_FACTOR,
   TEXT_DEFAULT_HEIGHT_MM,
   TEXT_DEFAULT_WIDTH_MM,
+  UNASSIGNED_BLOCK_COLOR,
 } from '../constants/layout'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+import { REVERSING_SECTION_LABELS, type ReversingSection } from '../analysis/polarity'
+import type { BlockReport } from '../analysis/blockReport'
 
-const TRACK_STROKE_WIDTH_MM = 28
 const EXPORT_BLACK = '#000'
-const LABEL_OFFSET_MM = 18
 const LABEL_FONT_SIZE = 16
 const SHAPE_STROKE_WIDTH = 2
 const DIMENSION_TICK_LENGTH_MM = 8
@@ -28,6 +32,11 @@ const DIMENSION_FONT_SIZE = 8
 const METADATA_FONT_SIZE = 14
 const CANVAS_OUTLINE_STROKE_WIDTH = 1
 const METADATA_SPACING = 16
+const INSULATED_JOINT_RADIUS_MM = 6
+const INSULATED_JOINT_FONT_SIZE = 10
+const FEEDER_MARKER_RADIUS_MM = 5
+const INSULATED_JOINT_STROKE_WIDTH = 4
+const ACCESSORY_MARKER_STROKE_WIDTH = 2
 
 type Bounds = {
   minX: number
@@ -54,6 +63,20 @@ const getLocalBounds = (component: TrackComponentDefinition, trackWidth: number)
     return { minX: -r, maxX: r, minY: -r, maxY: r }
   }
 
+  if (component.type === 'turntable' && component.lengthMm) {
+    const r = component.lengthMm / 2
+    return { minX: -r, maxX: r, minY: -r, maxY: r }
+  }
+
+  if (component.type === 'accessory' && component.lengthMm) {
+    return { minX: 0, maxX: component.lengthMm, minY: -trackWidth, maxY: trackWidth }
+  }
+
+  if (component.type === 'traverser' && component.lengthMm) {
+    const pitLength = Number(component.meta?.trackSpacingMm) * (Number(component.meta?.trackCount) - 1) || 0
+    return { minX: 0, maxX: component.lengthMm, minY: -trackWidth, maxY: pitLength + trackWidth }
+  }
+
   return { minX: -50, maxX: 50, minY: -10, maxY: 10 }
 }
 
@@ -135,8 +158,6 @@ const computeLabelAnchor = (connectors: ConnectorEntry[]) => {
 const escapeXml = (value: string) =>
   value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 
-const trackBoundsPadding = TRACK_STROKE_WIDTH_MM / 4
-
 const estimateTextWidth = (text: string, fontSize: number) => {
   const length = Math.max(text.length, 1)
   return length * fontSize * TEXT_CHAR_WIDTH_FACTOR
@@ -196,6 +217,67 @@ const buildTrackUsageList = (
   `
 }
 
+const buildInsulatedJointMarkers = (sections: ReversingSection[]): string =>
+  sections
+    .flatMap((section, index) =>
+      section.insulatedJoints.map(
+        ({ position }) => `
+      <g>
+        <circle cx="${position.xMm}" cy="${position.yMm}" r="${INSULATED_JOINT_RADIUS_MM}" fill="white" stroke="${EXPORT_BLACK}" stroke-width="${SHAPE_STROKE_WIDTH}" />
+        <text x="${position.xMm}" y="${position.yMm + INSULATED_JOINT_FONT_SIZE / 3}" text-anchor="middle" font-size="${INSULATED_JOINT_FONT_SIZE}" font-weight="bold" fill="${EXPORT_BLACK}">${index + 1}</text>
+      </g>`,
+      ),
+    )
+    .join('\n')
+
+const buildReversingSectionList = (sections: ReversingSection[], bounds: Bounds, paddingMm: number): string => {
+  const fontSize = METADATA_FONT_SIZE
+  const lineHeight = fontSize * 1.3
+  const startX = bounds.minX + paddingMm / 2
+  const titleY = bounds.maxY - paddingMm / 2 - sections.length * lineHeight
+
+  const entries = sections
+    .map((section, index) => {
+      const text = `${index + 1}. ${REVERSING_SECTION_LABELS[section.kind]}: ${section.insulatedJoints.length} joints, section ${Math.round(section.lengthMm)} mm`
+      const y = titleY + (index + 1) * lineHeight
+      return `<text x="${startX}" y="${y}" font-size="${fontSize}" fill="${EXPORT_BLACK}">${escapeXml(text)}</text>`
+    })
+    .join('\n')
+
+  return `
+    <g id="insulated-joints-list">
+      <text x="${startX}" y="${titleY}" font-size="${fontSize}" font-weight="bold" fill="${EXPORT_BLACK}">Insulated joiners (numbered markers):</text>
+      ${entries}
+    </g>
+  `
+}
+
+const buildBlockLegend = (report: BlockReport, bounds: Bounds, paddingMm: number): string => {
+  const fontSize = METADATA_FONT_SIZE
+  const lineHeight = fontSize * 1.3
+  const startX = bounds.minX + paddingMm / 2
+  const titleY = bounds.minY + paddingMm / 2 + fontSize
+  const summaries = report.unassigned.itemIds.length ? [...report.blocks, report.unassigned] : report.blocks
+
+  const entries = summaries
+    .map((summary, index) => {
+      const y = titleY + (index + 1) * lineHeight
+      const color = summary.block?.color ?? UNASSIGNED_BLOCK_COLOR
+      const text = `${summary.block?.name ?? 'Unassigned'}: ${(summary.lengthMm / 1000).toFixed(2)} m, ${summary.feederCount} feeders`
+      return `
+        <rect x="${startX}" y="${y - fontSize * 0.8}" width="${fontSize}" height="${fontSize * 0.8}" fill="${color}" />
+        <text x="${startX + fontSize * 1.5}" y="${y}" font-size="${fontSize}" fill="${EXPORT_BLACK}">${escapeXml(text)}</text>`
+    })
+    .join('\n')
+
+  return `
+    <g id="block-legend">
+      <text x="${startX}" y="${titleY}" font-size="${fontSize}" font-weight="bold" fill="${EXPORT_BLACK}">Blocks (● feeder, ┃ insulated joint):</text>
+      ${entries}
+    </g>
+  `
+}
+
 const buildDimensionsDisplay = (
   bounds: Bounds,
   paddingMm: number,
@@ -419,31 +501,66 @@ const buildShapeElement = (shape: CanvasShape) => {
 
 export function buildLayoutSvgString(
   layout: LayoutState,
-  trackSystem: TrackSystemDefinition,
-  options?: { paddingMm?: number; trackUsage?: TrackUsageEntry[] },
+  trackSystems: TrackSystemDefinition[],
+  options?: {
+    paddingMm?: number
+    trackUsage?: TrackUsageEntry[]
+    reversingSections?: ReversingSection[]
+    /** Draws the wiring diagram variant: pieces colored by block, feeders, insulated joints and a block legend */
+    wiring?: BlockReport
+  },
 ) {
   const padding = options?.paddingMm ?? 2
-  const componentMap = new Map<string, TrackComponentDefinition>()
-  trackSystem.components.forEach((component) => componentMap.set(component.id, component))
+  const componentMap = buildComponentLookup(trackSystems)
+  const metricsBySystem = new Map(trackSystems.map((system) => [system.id, getTrackSystemMetrics(system)]))
+
+  const wiring = options?.wiring
+  const blockColorById = new Map((layout.blocks ?? []).map((block) => [block.id, block.color]))
+  const worldConnectors = new Map<string, { connector: TrackConnector; sleeperWidthMm: number }>()
 
   const trackElements: string[] = []
   const shapeElements: string[] = []
+  const wiringElements: string[] = []
   let bounds: Bounds | null = null
 
   layout.placedItems.forEach((item) => {
-    const component = componentMap.get(item.componentId)
+    const component = componentMap.get(getItemComponentKey(item))
     if (!component) return
-    const geometry = getComponentGeometry(component)
+    const metrics = metricsBySystem.get(item.trackSystemId) ?? DEFAULT_TRACK_SYSTEM_METRICS
+    const geometry = getPlacedItemGeometry(component, item, metrics.sleeperWidthMm)
 
     const connectorEntries = listConnectorEntries(geometry)
     const labelAnchor = computeLabelAnchor(connectorEntries)
     const rotatedLabelAnchor = rotatePointLocal(labelAnchor.xMm, labelAnchor.yMm, item.rotationDeg)
-    const labelOffsetPoint = rotatePointLocal(0, -LABEL_OFFSET_MM, item.rotationDeg)
+    const labelOffsetPoint = rotatePointLocal(0, -metrics.labelOffsetMm, item.rotationDeg)
     const labelX = item.x + rotatedLabelAnchor.x + labelOffsetPoint.x
     const labelY = item.y + rotatedLabelAnchor.y + labelOffsetPoint.y
 
     const path = geometry.buildPathD()
-    const trackColor = component.color ?? EXPORT_BLACK
+    const trackColor = wiring
+      ? (item.blockId && blockColorById.get(item.blockId)) || UNASSIGNED_BLOCK_COLOR
+      : component.color ?? EXPORT_BLACK
+
+    if (wiring) {
+      connectorEntries.forEach(({ key, local }) => {
+        const position = rotatePointLocal(local.xMm, local.yMm, item.rotationDeg)
+        const dir = rotatePointLocal(local.dir.x, local.dir.y, item.rotationDeg)
+        worldConnectors.set(`${item.id}:${key}`, {
+          connector: { ...local, xMm: item.x + position.x, yMm: item.y + position.y, dir },
+          sleeperWidthMm: metrics.sleeperWidthMm,
+        })
+      })
+      if (item.hasFeeder) {
+        const anchor = rotatePointLocal(labelAnchor.xMm, labelAnchor.yMm, item.rotationDeg)
+        wiringElements.push(
+          `<circle cx="${item.x + anchor.x}" cy="${item.y + anchor.y}" r="${FEEDER_MARKER_RADIUS_MM}" fill="${EXPORT_BLACK}" stroke="white" stroke-width="1" />`,
+        )
+      }
+    }
+
+    const markerElement = geometry.buildMarkerPathD
+      ? `<path d="${geometry.buildMarkerPathD(metrics.sleeperWidthMm)}" fill="none" stroke="white" stroke-width="${ACCESSORY_MARKER_STROKE_WIDTH}" />`
+      : ''
 
     trackElements.push(`
       <g>
@@ -452,27 +569,55 @@ export function buildLayoutSvgString(
             d="${path}"
             fill="${trackColor}"
             stroke="${trackColor}"
-            stroke-width="${TRACK_STROKE_WIDTH_MM}"
+            stroke-width="${metrics.sleeperWidthMm}"
             stroke-linecap="butt"
             stroke-linejoin="miter"
           />
+          ${markerElement}
         </g>
-        <text x="${labelX}" y="${labelY}" text-anchor="middle" font-size="${LABEL_FONT_SIZE}" font-weight="bold" fill="${EXPORT_BLACK}">${escapeXml(
+        <text x="${labelX}" y="${labelY}" text-anchor="middle" font-size="${LABEL_FONT_SIZE * metrics.scaleFactor}" font-weight="bold" fill="${EXPORT_BLACK}">${escapeXml(
       component.id,
     )}</text>
       </g>
     `.trim())
 
-    const localBounds = expandBounds(getLocalBounds(component, TRACK_STROKE_WIDTH_MM), trackBoundsPadding)
+    // Flex pieces have no catalog dimensions to estimate from, so measure their sampled path instead
+    const flexBounds = component.type === 'flex' ? getPolylineBounds(samplePathD(path)) : null
+    const localBounds = expandBounds(
+      flexBounds ?? getLocalBounds(component, metrics.sleeperWidthMm),
+      metrics.sleeperWidthMm / 4 + (flexBounds ? metrics.sleeperWidthMm / 2 : 0),
+    )
     const worldBounds = transformBounds(localBounds, item.x, item.y, item.rotationDeg)
     bounds = mergeBounds(bounds, worldBounds)
   })
 
+  const insulatedConnections = wiring ? (layout.connections ?? []).filter((connection) => connection.insulated) : []
+  insulatedConnections.forEach((connection) => {
+    const [endpoint] = connection.endpoints
+    const entry = worldConnectors.get(`${endpoint.itemId}:${endpoint.connectorKey}`)
+    if (!entry) return
+    const { connector } = entry
+    const halfLength = entry.sleeperWidthMm * 0.75
+    wiringElements.push(
+      `<line x1="${connector.xMm - connector.dir.y * halfLength}" y1="${connector.yMm + connector.dir.x * halfLength}" x2="${connector.xMm + connector.dir.y * halfLength}" y2="${connector.yMm - connector.dir.x * halfLength}" stroke="${EXPORT_BLACK}" stroke-width="${INSULATED_JOINT_STROKE_WIDTH}" />`,
+    )
+  })
+
   layout.shapes.forEach((shape) => {
     shapeElements.push(buildShapeElement(shape))
     bounds = mergeBounds(bounds, getShapeBounds(shape))
   })
 
+  const reversingSections = options?.reversingSections ?? []
+  reversingSections.forEach((section) => {
+    section.insulatedJoints.forEach(({ position }) => {
+      bounds = mergeBounds(
+        bounds,
+        expandBounds({ minX: position.xMm, maxX: position.xMm, minY: position.yMm, maxY: position.yMm }, INSULATED_JOINT_RADIUS_MM),
+      )
+    })
+  })
+
   if (!bounds) {
     const emptyView = expandBounds({ minX: -100, maxX: 100, minY: -100, maxY: 100 }, padding)
     return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${emptyView.minX} ${emptyView.minY} ${emptyView.maxX - emptyView.minX} ${emptyView.maxY - emptyView.minY}" fill="none"></svg>`
@@ -490,7 +635,24 @@ export function buildLayoutSvgString(
   const trackUsageList = trackUsageData.length ? buildTrackUsageList(trackUsageData, padded, padding) : ''
   const dimensionsDisplay = buildDimensionsDisplay(bounds, padding, trackUsageData.length)
 
-  const content = [canvasOutline, ...trackElements, ...shapeElements, trackUsageList, dimensionsDisplay]
+  const insulatedJointMarkers = buildInsulatedJointMarkers(reversingSections)
+  const reversingSectionList = reversingSections.length
+    ? buildReversingSectionList(reversingSections, padded, padding)
+    : ''
+
+  const blockLegend = wiring ? buildBlockLegend(wiring, padded, padding) : ''
+
+  const content = [
+    canvasOutline,
+    ...trackElements,
+    ...wiringElements,
+    ...shapeElements,
+    insulatedJointMarkers,
+    blockLegend,
+    trackUsageList,
+    dimensionsDisplay,
+    reversingSectionList,
+  ]
     .filter(Boolean)
     .join('\n')
 
@@ -0,0 +1,27 @@
+import type { SwitchInventoryEntry } from '../analysis/switchInventory'
+import { SWITCH_MOTOR_TYPE_LABELS } from '../constants/switchInventory'
+
+const CSV_HEADER = ['Name', 'Component', 'Article', 'Address 1', 'Address 2', 'Motor', 'Default position']
+
+const escapeCsvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * Switch list for programming accessory decoders, one row per switch sorted by first address. Switches
+ * without an address go last.
+ */
+export function buildSwitchListCsv(entries: SwitchInventoryEntry[]): string {
+  const firstAddress = (entry: SwitchInventoryEntry) => entry.operation.addresses[0] ?? Number.POSITIVE_INFINITY
+  const rows = [...entries]
+    .sort((a, b) => firstAddress(a) - firstAddress(b))
+    .map(({ component, operation }) => [
+      operation.name,
+      component.id,
+      component.article ?? '',
+      operation.addresses[0]?.toString() ?? '',
+      operation.addresses[1]?.toString() ?? '',
+      SWITCH_MOTOR_TYPE_LABELS[operation.motorType],
+      operation.defaultPosition,
+    ])
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\n')
+}
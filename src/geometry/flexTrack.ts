@@ -0,0 +1,149 @@
+import type { TrackComponentDefinition, Vec2 } from '../types/trackSystem'
+
+/**
+ * Flex track is a cubic Bézier in the item's local frame. P0 is always the origin (the start connector),
+ * so only P1..P3 are stored on the placed item.
+ */
+export type FlexControlPoints = [Vec2, Vec2, Vec2]
+
+const DEFAULT_FLEX_LENGTH_MM = 300
+const FLEX_SAMPLE_COUNT = 64
+/** Handles closer than this to their anchor would make the end tangent undefined */
+export const MIN_FLEX_HANDLE_LENGTH_MM = 1
+
+const ORIGIN: Vec2 = { x: 0, y: 0 }
+
+/** A freshly placed flex piece is one stock length, laid straight. */
+export function getDefaultFlexControlPoints(def: TrackComponentDefinition): FlexControlPoints {
+  const length = def.lengthMm && def.lengthMm > 0 ? def.lengthMm : DEFAULT_FLEX_LENGTH_MM
+  return [
+    { x: length / 3, y: 0 },
+    { x: (length * 2) / 3, y: 0 },
+    { x: length, y: 0 },
+  ]
+}
+
+export function isFlexControlPoints(value: unknown): value is FlexControlPoints {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every(
+      (point) =>
+        typeof point === 'object' &&
+        point !== null &&
+        Number.isFinite((point as Vec2).x) &&
+        Number.isFinite((point as Vec2).y),
+    )
+  )
+}
+
+export function evaluateFlexPoint(points: FlexControlPoints, t: number): Vec2 {
+  const [p1, p2, p3] = points
+  const mt = 1 - t
+  const a = mt * mt * mt
+  const b = 3 * mt * mt * t
+  const c = 3 * mt * t * t
+  const d = t * t * t
+  return {
+    x: a * ORIGIN.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * ORIGIN.y + b * p1.y + c * p2.y + d * p3.y,
+  }
+}
+
+const evaluateFirstDerivative = (points: FlexControlPoints, t: number): Vec2 => {
+  const [p1, p2, p3] = points
+  const mt = 1 - t
+  return {
+    x: 3 * mt * mt * (p1.x - ORIGIN.x) + 6 * mt * t * (p2.x - p1.x) + 3 * t * t * (p3.x - p2.x),
+    y: 3 * mt * mt * (p1.y - ORIGIN.y) + 6 * mt * t * (p2.y - p1.y) + 3 * t * t * (p3.y - p2.y),
+  }
+}
+
+const evaluateSecondDerivative = (points: FlexControlPoints, t: number): Vec2 => {
+  const [p1, p2, p3] = points
+  const mt = 1 - t
+  return {
+    x: 6 * mt * (p2.x - 2 * p1.x + ORIGIN.x) + 6 * t * (p3.x - 2 * p2.x + p1.x),
+    y: 6 * mt * (p2.y - 2 * p1.y + ORIGIN.y) + 6 * t * (p3.y - 2 * p2.y + p1.y),
+  }
+}
+
+/** Unit tangent in the direction of travel (P0 → P3). */
+export function getFlexTangent(points: FlexControlPoints, t: number): Vec2 {
+  const derivative = evaluateFirstDerivative(points, t)
+  const length = Math.hypot(derivative.x, derivative.y)
+  if (length > 1e-9) return { x: derivative.x / length, y: derivative.y / length }
+  // Degenerate handle: fall back to the chord so connectors still get a direction
+  const end = points[2]
+  const chord = Math.hypot(end.x, end.y) || 1
+  return { x: end.x / chord, y: end.y / chord }
+}
+
+export function getFlexLength(points: FlexControlPoints): number {
+  let length = 0
+  let previous = ORIGIN
+  for (let i = 1; i <= FLEX_SAMPLE_COUNT; i += 1) {
+    const point = evaluateFlexPoint(points, i / FLEX_SAMPLE_COUNT)
+    length += Math.hypot(point.x - previous.x, point.y - previous.y)
+    previous = point
+  }
+  return length
+}
+
+/** Tightest radius along the spline; Infinity for a straight piece. */
+export function getFlexMinRadius(points: FlexControlPoints): number {
+  let minRadius = Number.POSITIVE_INFINITY
+  for (let i = 0; i <= FLEX_SAMPLE_COUNT; i += 1) {
+    const t = i / FLEX_SAMPLE_COUNT
+    const d1 = evaluateFirstDerivative(points, t)
+    const d2 = evaluateSecondDerivative(points, t)
+    const cross = Math.abs(d1.x * d2.y - d1.y * d2.x)
+    const speed = Math.hypot(d1.x, d1.y)
+    if (cross < 1e-9 || speed < 1e-9) continue
+    minRadius = Math.min(minRadius, (speed * speed * speed) / cross)
+  }
+  return minRadius
+}
+
+export function buildFlexPathD(points: FlexControlPoints): string {
+  const [p1, p2, p3] = points
+  return `M 0 0 C ${p1.x} ${p1.y} ${p2.x} ${p2.y} ${p3.x} ${p3.y}`
+}
+
+export type FlexHandleIndex = 0 | 1 | 2
+
+/**
+ * Moves one control point to `target` (local coordinates). Connected ends keep their pose: a locked
+ * end cannot move and its handle only slides along the existing tangent so the joint stays aligned.
+ * Dragging the end point carries its handle along so the end tangent is preserved.
+ */
+export function moveFlexHandle(
+  points: FlexControlPoints,
+  handleIndex: FlexHandleIndex,
+  target: Vec2,
+  locks: { start: boolean; end: boolean },
+): FlexControlPoints {
+  const [p1, p2, p3] = points
+
+  if (handleIndex === 0) {
+    if (!locks.start) return [target, p2, p3]
+    const tangent = getFlexTangent(points, 0)
+    const distance = Math.max(MIN_FLEX_HANDLE_LENGTH_MM, target.x * tangent.x + target.y * tangent.y)
+    return [{ x: tangent.x * distance, y: tangent.y * distance }, p2, p3]
+  }
+
+  if (handleIndex === 1) {
+    if (!locks.end) return [p1, target, p3]
+    const tangent = getFlexTangent(points, 1)
+    const distance = Math.max(
+      MIN_FLEX_HANDLE_LENGTH_MM,
+      -((target.x - p3.x) * tangent.x + (target.y - p3.y) * tangent.y),
+    )
+    return [p1, { x: p3.x - tangent.x * distance, y: p3.y - tangent.y * distance }, p3]
+  }
+
+  if (locks.end) return points
+  const dx = target.x - p3.x
+  const dy = target.y - p3.y
+  return [p1, { x: p2.x + dx, y: p2.y + dy }, target]
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_GAP_SOLVER_OPTIONS, solveGap } from './gapSolver'
+import { toRad } from './geometryUtils'
+import type { EndpointPose } from './trackEndpoint'
+import { pikoA_H0 } from '../data/pikoA_H0'
+
+const G231 = 230.93
+
+const pose = (xMm: number, yMm: number, directionDeg: number): EndpointPose => ({
+  position: { xMm, yMm },
+  direction: { x: Math.cos(toRad(directionDeg)), y: Math.sin(toRad(directionDeg)) },
+  directionDeg,
+})
+
+const options = { ...DEFAULT_GAP_SOLVER_OPTIONS, maxPieces: 2 }
+
+describe('solveGap', () => {
+  it('closes a gap whose end heading sits just below -180°', () => {
+    // Loop ends come out of the chained transforms with headings like this one
+    const [best] = solveGap(pose(0, 0, -179.99999999999994), pose(-G231, 0, 0), pikoA_H0, options)
+    expect(best?.steps.map((step) => step.component.id)).toEqual(['G231'])
+    expect(best?.angleErrorDeg).toBeLessThan(1e-6)
+  })
+
+  it.each([179.5, 180.5])('accepts a target heading of %s° within a 1° tolerance', (targetDeg) => {
+    const [best] = solveGap(pose(0, 0, 0), pose(G231, 0, targetDeg), pikoA_H0, options)
+    expect(best?.steps.map((step) => step.component.id)).toEqual(['G231'])
+    expect(best?.angleErrorDeg).toBeCloseTo(0.5, 6)
+  })
+
+  it.each([178.5, 181.5])('rejects a target heading of %s° outside a 1° tolerance', (targetDeg) => {
+    const candidates = solveGap(pose(0, 0, 0), pose(G231, 0, targetDeg), pikoA_H0, options)
+    expect(candidates.some((candidate) => candidate.steps.length === 1)).toBe(false)
+  })
+})
@@ -0,0 +1,264 @@
+import type { TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { toRad } from './geometryUtils'
+import { getComponentGeometry, normalizeAngle } from './trackGeometry'
+import type { EndpointPose } from './trackEndpoint'
+import { getGeometryConnector, placeConnectorAtPose, type ChainStep } from './trackChain'
+import { getFlexMinRadius, MIN_FLEX_HANDLE_LENGTH_MM, type FlexControlPoints } from './flexTrack'
+
+export interface GapSolverOptions {
+  positionToleranceMm: number
+  angleToleranceDeg: number
+  /** Longest sequence considered; the search grows exponentially with it */
+  maxPieces: number
+  includeFlex: boolean
+  maxCandidates: number
+}
+
+export const DEFAULT_GAP_SOLVER_OPTIONS: GapSolverOptions = {
+  positionToleranceMm: 2,
+  angleToleranceDeg: 1,
+  maxPieces: 6,
+  includeFlex: false,
+  maxCandidates: 5,
+}
+
+export const MAX_GAP_SOLVER_PIECES = 8
+
+export interface GapCandidate {
+  /** Pieces in order from the first endpoint to the second */
+  steps: ChainStep[]
+  positionErrorMm: number
+  angleErrorDeg: number
+}
+
+/** A catalog piece reduced to how it moves the open end: offset and heading change in the travel frame. */
+type Move = {
+  step: ChainStep
+  dx: number
+  dy: number
+  dh: number
+}
+
+/** Open end while searching; `h` is the heading of travel, i.e. the outward direction of the end. */
+type SearchState = {
+  x: number
+  y: number
+  h: number
+  depth: number
+  move: Move | null
+  parent: SearchState | null
+}
+
+const POSITION_KEY_STEP_MM = 0.05
+const HEADING_KEY_STEP_DEG = 0.01
+
+const angleDifference = (a: number, b: number) => Math.abs(normalizeAngle(a - b))
+
+function listMoves(system: TrackSystemDefinition): Move[] {
+  const moves: Move[] = []
+  const seen = new Set<string>()
+  // An open end at the origin facing +x: the travel frame every move is expressed in
+  const origin: EndpointPose = { position: { xMm: 0, yMm: 0 }, direction: { x: 1, y: 0 }, directionDeg: 0 }
+
+  system.components.forEach((component) => {
+    if (component.type !== 'straight' && component.type !== 'curve') return
+    const geometry = getComponentGeometry(component)
+    // Curves are asymmetric: entering through the other end turns the opposite way
+    for (const [entryKey, exitKey] of [['start', 'end'], ['end', 'start']]) {
+      const entry = getGeometryConnector(geometry, entryKey)
+      const exit = getGeometryConnector(geometry, exitKey)
+      if (!entry || !exit) continue
+      const transform = placeConnectorAtPose(entry, origin)
+      const rad = toRad(transform.rotationDeg)
+      const dx = transform.x + exit.xMm * Math.cos(rad) - exit.yMm * Math.sin(rad)
+      const dy = transform.y + exit.xMm * Math.sin(rad) + exit.yMm * Math.cos(rad)
+      const dh = normalizeAngle(exit.directionDeg + transform.rotationDeg)
+      if (Math.hypot(dx, dy) < 1e-6) continue
+      // Identical pieces (and both directions of a straight) only add duplicate branches
+      const key = `${dx.toFixed(2)}:${dy.toFixed(2)}:${dh.toFixed(2)}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      moves.push({ step: { component, entryKey, exitKey }, dx, dy, dh })
+    }
+  })
+
+  return moves
+}
+
+/** Breadth-first expansion from one open end; states that cannot reach `target` in time are pruned. */
+function expand(
+  start: EndpointPose,
+  moves: Move[],
+  depth: number,
+  target: EndpointPose,
+  maxPieces: number,
+  reachMm: number,
+  slackMm: number,
+): SearchState[] {
+  const root: SearchState = {
+    x: start.position.xMm,
+    y: start.position.yMm,
+    h: start.directionDeg,
+    depth: 0,
+    move: null,
+    parent: null,
+  }
+  const states = [root]
+  const seen = new Set<string>()
+  let frontier = [root]
+
+  for (let level = 1; level <= depth; level += 1) {
+    const next: SearchState[] = []
+    for (const state of frontier) {
+      const rad = toRad(state.h)
+      const cos = Math.cos(rad)
+      const sin = Math.sin(rad)
+      for (const move of moves) {
+        const x = state.x + move.dx * cos - move.dy * sin
+        const y = state.y + move.dx * sin + move.dy * cos
+        const remaining = maxPieces - level
+        if (Math.hypot(target.position.xMm - x, target.position.yMm - y) > remaining * reachMm + slackMm) {
+          continue
+        }
+        const h = normalizeAngle(state.h + move.dh)
+        const key = `${Math.round(x / POSITION_KEY_STEP_MM)}:${Math.round(y / POSITION_KEY_STEP_MM)}:${Math.round(
+          h / HEADING_KEY_STEP_DEG,
+        )}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        const child: SearchState = { x, y, h, depth: level, move, parent: state }
+        next.push(child)
+        states.push(child)
+      }
+    }
+    frontier = next
+  }
+
+  return states
+}
+
+const collectSteps = (state: SearchState): ChainStep[] => {
+  const steps: ChainStep[] = []
+  for (let current: SearchState | null = state; current?.move; current = current.parent) {
+    steps.unshift(current.move.step)
+  }
+  return steps
+}
+
+const reverseStep = (step: ChainStep): ChainStep => ({ ...step, entryKey: step.exitKey, exitKey: step.entryKey })
+
+/**
+ * Searches straights and curves of `system` for sequences that lead from `from` to `to`. Both ends are
+ * grown towards each other (meet in the middle), so `maxPieces` pieces only cost two searches of half
+ * that depth. Candidates are ranked by piece count, then by the remaining position and angle error.
+ */
+export function solveGap(
+  from: EndpointPose,
+  to: EndpointPose,
+  system: TrackSystemDefinition,
+  options: GapSolverOptions = DEFAULT_GAP_SOLVER_OPTIONS,
+): GapCandidate[] {
+  const maxPieces = Math.max(1, Math.min(MAX_GAP_SOLVER_PIECES, Math.round(options.maxPieces)))
+  const positionTolerance = Math.max(0, options.positionToleranceMm)
+  const angleTolerance = Math.max(0, options.angleToleranceDeg)
+  const moves = listMoves(system)
+  const candidates = new Map<string, GapCandidate>()
+
+  if (moves.length > 0) {
+    const reachMm = Math.max(...moves.map((move) => Math.hypot(move.dx, move.dy)))
+    const forward = expand(from, moves, Math.ceil(maxPieces / 2), to, maxPieces, reachMm, positionTolerance)
+    const backward = expand(to, moves, Math.floor(maxPieces / 2), from, maxPieces, reachMm, positionTolerance)
+
+    const cellSize = Math.max(positionTolerance, 1)
+    const cellKey = (cx: number, cy: number) => `${cx}:${cy}`
+    const grid = new Map<string, SearchState[]>()
+    backward.forEach((state) => {
+      const key = cellKey(Math.floor(state.x / cellSize), Math.floor(state.y / cellSize))
+      const bucket = grid.get(key)
+      if (bucket) bucket.push(state)
+      else grid.set(key, [state])
+    })
+
+    forward.forEach((state) => {
+      const cx = Math.floor(state.x / cellSize)
+      const cy = Math.floor(state.y / cellSize)
+      for (let ox = -1; ox <= 1; ox += 1) {
+        for (let oy = -1; oy <= 1; oy += 1) {
+          grid.get(cellKey(cx + ox, cy + oy))?.forEach((other) => {
+            const pieceCount = state.depth + other.depth
+            if (pieceCount === 0 || pieceCount > maxPieces) return
+            const positionErrorMm = Math.hypot(state.x - other.x, state.y - other.y)
+            // The two open ends must face each other
+            const angleErrorDeg = angleDifference(state.h, other.h + 180)
+            if (positionErrorMm > positionTolerance || angleErrorDeg > angleTolerance) return
+
+            const steps = [...collectSteps(state), ...collectSteps(other).reverse().map(reverseStep)]
+            addCandidate(candidates, { steps, positionErrorMm, angleErrorDeg })
+          })
+        }
+      }
+    })
+  }
+
+  if (options.includeFlex) {
+    const flex = solveWithFlex(from, to, system)
+    if (flex) addCandidate(candidates, flex)
+  }
+
+  return Array.from(candidates.values())
+    .sort(
+      (a, b) =>
+        a.steps.length - b.steps.length ||
+        a.positionErrorMm - b.positionErrorMm ||
+        a.angleErrorDeg - b.angleErrorDeg,
+    )
+    .slice(0, Math.max(1, options.maxCandidates))
+}
+
+/** Orderings of the same pieces are near-identical to the user; only the most accurate one is kept. */
+function addCandidate(candidates: Map<string, GapCandidate>, candidate: GapCandidate) {
+  // Straights are symmetric, so only the turning sense of curves tells two sequences apart
+  const key = candidate.steps
+    .map((step) => (step.component.type === 'curve' ? `${step.component.id}/${step.entryKey}` : step.component.id))
+    .sort()
+    .join('|')
+  const existing = candidates.get(key)
+  if (
+    !existing ||
+    candidate.positionErrorMm + candidate.angleErrorDeg < existing.positionErrorMm + existing.angleErrorDeg
+  ) {
+    candidates.set(key, candidate)
+  }
+}
+
+/** A single flex piece bent from one end to the other, if it stays above the system's minimum radius. */
+function solveWithFlex(from: EndpointPose, to: EndpointPose, system: TrackSystemDefinition): GapCandidate | null {
+  const component: TrackComponentDefinition | undefined = system.components.find(
+    (candidate) => candidate.type === 'flex',
+  )
+  if (!component) return null
+
+  // Flex is laid from its start connector, so its local +x runs along the outward direction of `from`
+  const rad = toRad(-from.directionDeg)
+  const cos = Math.cos(rad)
+  const sin = Math.sin(rad)
+  const toLocal = (x: number, y: number) => ({ x: x * cos - y * sin, y: x * sin + y * cos })
+  const end = toLocal(to.position.xMm - from.position.xMm, to.position.yMm - from.position.yMm)
+  const chord = Math.hypot(end.x, end.y)
+  if (chord < MIN_FLEX_HANDLE_LENGTH_MM) return null
+
+  const handle = Math.max(MIN_FLEX_HANDLE_LENGTH_MM, chord / 3)
+  const outward = toLocal(to.direction.x, to.direction.y)
+  const controlPoints: FlexControlPoints = [
+    { x: handle, y: 0 },
+    { x: end.x + outward.x * handle, y: end.y + outward.y * handle },
+    end,
+  ]
+  if (system.minFlexRadiusMm && getFlexMinRadius(controlPoints) < system.minFlexRadiusMm) return null
+
+  return {
+    steps: [{ component, entryKey: 'start', exitKey: 'end', controlPoints }],
+    positionErrorMm: 0,
+    angleErrorDeg: 0,
+  }
+}
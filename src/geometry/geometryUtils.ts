@@ -3,6 +3,7 @@ export interface Vec2 {
   y: number
 }
 
+/** PIKO A H0 sleeper width; other systems derive theirs via getTrackSystemMetrics */
 export const TRACK_EDGE_WIDTH_MM = 28
 export const HALF_TRACK_EDGE_WIDTH_MM = TRACK_EDGE_WIDTH_MM / 2
 
@@ -33,12 +34,13 @@ export const normalFromTangent = (tangent: Vec2): Vec2 => {
   return normalizeVec(n)
 }
 
-export const edgeCorners = (center: Vec2, tangent: Vec2) => {
+export const edgeCorners = (center: Vec2, tangent: Vec2, widthMm = TRACK_EDGE_WIDTH_MM) => {
   const t = normalizeVec(tangent)
   const n = normalFromTangent(t)
+  const halfWidth = widthMm / 2
   return {
-    left: { x: center.x - n.x * HALF_TRACK_EDGE_WIDTH_MM, y: center.y - n.y * HALF_TRACK_EDGE_WIDTH_MM },
-    right: { x: center.x + n.x * HALF_TRACK_EDGE_WIDTH_MM, y: center.y + n.y * HALF_TRACK_EDGE_WIDTH_MM },
+    left: { x: center.x - n.x * halfWidth, y: center.y - n.y * halfWidth },
+    right: { x: center.x + n.x * halfWidth, y: center.y + n.y * halfWidth },
   }
 }
 
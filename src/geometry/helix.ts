@@ -0,0 +1,93 @@
+import type { EndpointConnection, PlacedItem } from '../types/layout'
+import type { TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import type { EndpointPose } from './trackEndpoint'
+import { getTrackSystemMetrics } from './trackSystemMetrics'
+import { getTurnStep, layChain, type ChainOptions } from './trackChain'
+
+export interface HelixOptions {
+  curveId: string
+  /** Height gained per full turn, rail top to rail top */
+  risePerTurnMm: number
+  /** Fractions are rounded to whole pieces */
+  turns: number
+}
+
+export interface HelixPlan {
+  curve: TrackComponentDefinition
+  piecesPerTurn: number
+  pieceCount: number
+  /** Track length of one turn */
+  turnLengthMm: number
+  gradePercent: number
+  totalRiseMm: number
+  /** Rise per turn the scale's loading gauge needs, including a thin deck */
+  requiredRiseMm: number
+}
+
+export type HelixPlanResult = { plan: HelixPlan } | { error: string }
+
+export type HelixResult =
+  | { plan: HelixPlan; items: PlacedItem[]; connections: EndpointConnection[] }
+  | { error: string }
+
+const ORIGIN_POSE: EndpointPose = { position: { xMm: 0, yMm: 0 }, direction: { x: 1, y: 0 }, directionDeg: 0 }
+
+/** Grade and clearance of a helix, without building it. */
+export function planHelix(system: TrackSystemDefinition, options: HelixOptions): HelixPlanResult {
+  const curve = system.components.find((component) => component.id === options.curveId && component.type === 'curve')
+  if (!curve?.angleDeg || !curve.radiusMm) return { error: 'Pick a curve for the helix.' }
+  const piecesPerTurn = 360 / curve.angleDeg
+  if (Math.abs(piecesPerTurn - Math.round(piecesPerTurn)) > 1e-6) {
+    return { error: `${curve.id} does not add up to a full circle (${curve.angleDeg}° per piece).` }
+  }
+  if (!(options.risePerTurnMm > 0)) return { error: 'The rise per turn must be above zero.' }
+  const pieceCount = Math.round(options.turns * piecesPerTurn)
+  if (pieceCount < 1) return { error: 'The helix needs at least one piece.' }
+
+  const turnLengthMm = 2 * Math.PI * curve.radiusMm
+  return {
+    plan: {
+      curve,
+      piecesPerTurn: Math.round(piecesPerTurn),
+      pieceCount,
+      turnLengthMm,
+      gradePercent: (options.risePerTurnMm / turnLengthMm) * 100,
+      totalRiseMm: (options.risePerTurnMm * pieceCount) / piecesPerTurn,
+      requiredRiseMm: getTrackSystemMetrics(system).verticalClearanceMm,
+    },
+  }
+}
+
+/**
+ * Lays the helix as one chain of curves turning the same way, every turn on top of the one before.
+ * Both ends of each piece get a height, rising evenly from zero, so grades and levels need no
+ * interpolation. The ring is centred on `center`.
+ */
+export function buildHelix(
+  system: TrackSystemDefinition,
+  options: HelixOptions,
+  center: { x: number; y: number },
+  chainOptions: ChainOptions,
+): HelixResult {
+  const result = planHelix(system, options)
+  if ('error' in result) return result
+  const { plan } = result
+
+  const step = getTurnStep(plan.curve, 1, chainOptions)
+  const chain = layChain(ORIGIN_POSE, Array.from({ length: plan.pieceCount }, () => step), chainOptions)
+  const risePerPieceMm = options.risePerTurnMm / plan.piecesPerTurn
+
+  // The chain turns towards +y from the origin, so the ring's centre is one radius down that way
+  const dx = center.x
+  const dy = center.y - plan.curve.radiusMm!
+  const items = chain.items.map((item, index) => ({
+    ...item,
+    x: item.x + dx,
+    y: item.y + dy,
+    heightsMm: {
+      [step.entryKey]: index * risePerPieceMm,
+      [step.exitKey]: (index + 1) * risePerPieceMm,
+    },
+  }))
+  return { plan, items, connections: chain.connections }
+}
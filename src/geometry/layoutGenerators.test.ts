@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { generateLayout, type LayoutGeneratorOptions } from './layoutGenerators'
+import { getPlacedItemGeometry, normalizeAngle } from './trackGeometry'
+import { getEndpointPose, type EndpointPose } from './trackEndpoint'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { PlacedItem } from '../types/layout'
+
+const generate = (options: Partial<LayoutGeneratorOptions>) => {
+  let nextId = 0
+  const result = generateLayout(
+    pikoA_H0,
+    {
+      kind: 'ladder',
+      curveId: 'R1-30',
+      straightId: 'G231',
+      straightCount: 2,
+      crossingId: 'K15',
+      switchId: 'WL',
+      trackCount: 4,
+      ...options,
+    },
+    { x: 0, y: 0 },
+    { trackSystemId: pikoA_H0.id, widthMm: 28, createId: () => `item-${(nextId += 1)}` },
+  )
+  if ('error' in result) throw new Error(result.error)
+  return result.layout
+}
+
+/** Endpoints no other piece sits on; aliased connectors of one piece count once. */
+const openEnds = (items: PlacedItem[]): EndpointPose[] => {
+  const lookup = buildComponentLookup([pikoA_H0])
+  const byPosition = new Map<string, { itemIds: Set<string>; pose: EndpointPose }>()
+  items.forEach((item) => {
+    const geometry = getPlacedItemGeometry(lookup.get(getItemComponentKey(item))!, item)
+    const connectors = [geometry.start, geometry.end, ...Object.values(geometry.extraConnectors ?? {})]
+    connectors.forEach((connector) => {
+      const pose = getEndpointPose(item, connector)
+      const key = `${pose.position.xMm.toFixed(1)}:${pose.position.yMm.toFixed(1)}`
+      const entry = byPosition.get(key) ?? { itemIds: new Set<string>(), pose }
+      entry.itemIds.add(item.id)
+      byPosition.set(key, entry)
+    })
+  })
+  return Array.from(byPosition.values())
+    .filter((entry) => entry.itemIds.size === 1)
+    .map((entry) => entry.pose)
+}
+
+describe('ladder generator', () => {
+  it.each(['WL', 'WR'])('lays parallel yard tracks off a %s ladder', (switchId) => {
+    const trackCount = 4
+    const layout = generate({ switchId, trackCount })
+    expect(layout.closureErrorMm).toBe(0)
+    // Switches, the closing curve and two straights per yard track
+    expect(layout.items).toHaveLength(trackCount - 1 + 1 + trackCount * 2)
+
+    // The ladder is entered against +x; every yard track must leave parallel to it
+    const ends = openEnds(layout.items)
+    const heading = (target: number) => (pose: EndpointPose) =>
+      Math.abs(normalizeAngle(pose.directionDeg - target)) < 1e-6
+    const yardEnds = ends.filter(heading(0))
+    expect(ends).toHaveLength(trackCount + 1)
+    expect(ends.filter(heading(180))).toHaveLength(1)
+    expect(yardEnds).toHaveLength(trackCount)
+
+    const offsets = yardEnds.map((pose) => pose.position.yMm).sort((a, b) => a - b)
+    offsets.slice(1).forEach((offset, index) => {
+      expect(offset - offsets[index]).toBeCloseTo(pikoA_H0.parallelSpacingMm, 1)
+    })
+  })
+})
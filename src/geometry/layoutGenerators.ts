@@ -0,0 +1,310 @@
+import type { EndpointConnection, PlacedItem } from '../types/layout'
+import type { EndpointRef, TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { toRad } from './geometryUtils'
+import { getComponentGeometry } from './trackGeometry'
+import type { EndpointPose } from './trackEndpoint'
+import {
+  getGeometryConnector,
+  getPlacedEndpointPose,
+  getTurnStep,
+  layChain,
+  pickStraights,
+  type ChainOptions,
+  type ChainStep,
+  type LaidChain,
+} from './trackChain'
+
+export type LayoutGeneratorKind = 'oval' | 'double-oval' | 'figure-eight' | 'ladder'
+
+export interface LayoutGeneratorOptions {
+  kind: LayoutGeneratorKind
+  /** Curve of the loops; the inner one for a double-track oval */
+  curveId: string
+  straightId: string
+  /** Straights on each side of an oval, or on each yard track */
+  straightCount: number
+  /** Figure eight only */
+  crossingId: string
+  /** Ladder only: the first switch; the others are its mirror image */
+  switchId: string
+  /** Ladder only */
+  trackCount: number
+}
+
+export interface GeneratedLayout {
+  items: PlacedItem[]
+  connections: EndpointConnection[]
+  /** Largest gap at a joint that should close; anything above the tolerance is left open */
+  closureErrorMm: number
+}
+
+export type LayoutGeneratorResult = { layout: GeneratedLayout } | { error: string }
+
+/** Joints of a generated plan closer than this are connected. */
+export const GENERATOR_CLOSURE_TOLERANCE_MM = 1
+
+const MATCH_TOLERANCE_MM = 1
+const ANGLE_TOLERANCE_DEG = 0.01
+
+const ORIGIN_POSE: EndpointPose = { position: { xMm: 0, yMm: 0 }, direction: { x: 1, y: 0 }, directionDeg: 0 }
+
+const poseAt = (xMm: number, yMm: number, directionDeg: number): EndpointPose => {
+  const rad = toRad(directionDeg)
+  return { position: { xMm, yMm }, direction: { x: Math.cos(rad), y: Math.sin(rad) }, directionDeg }
+}
+
+const poseDistance = (a: EndpointPose, b: EndpointPose) =>
+  Math.hypot(a.position.xMm - b.position.xMm, a.position.yMm - b.position.yMm)
+
+const isWholeNumber = (value: number) => Math.abs(value - Math.round(value)) < 1e-6
+
+const straightStep = (component: TrackComponentDefinition): ChainStep => ({ component, entryKey: 'start', exitKey: 'end' })
+
+const repeat = (step: ChainStep, count: number) => Array.from({ length: count }, () => step)
+
+/** Ties the last piece of a laid loop back to its first. */
+const closeChain = (chain: LaidChain): EndpointConnection[] =>
+  chain.first && chain.last ? [...chain.connections, { endpoints: [chain.last, chain.first] }] : chain.connections
+
+function generateOval(
+  system: TrackSystemDefinition,
+  options: LayoutGeneratorOptions,
+  chainOptions: ChainOptions,
+): LayoutGeneratorResult {
+  const curve = system.components.find((component) => component.id === options.curveId && component.type === 'curve')
+  const straight = system.components.find(
+    (component) => component.id === options.straightId && component.type === 'straight',
+  )
+  if (!curve?.angleDeg || !curve.radiusMm) return { error: 'Pick a curve for the loops.' }
+  if (options.straightCount > 0 && !straight) return { error: 'Pick a straight for the sides.' }
+  const curvesPerEnd = 180 / curve.angleDeg
+  if (!isWholeNumber(curvesPerEnd)) {
+    return { error: `${curve.id} does not add up to a half circle (${curve.angleDeg}° per piece).` }
+  }
+
+  const loops: { curve: TrackComponentDefinition; start: EndpointPose }[] = [{ curve, start: ORIGIN_POSE }]
+  if (options.kind === 'double-oval') {
+    const outerRadius = curve.radiusMm + system.parallelSpacingMm
+    const outer = system.components.find(
+      (component) =>
+        component.type === 'curve' &&
+        Math.abs((component.angleDeg ?? 0) - curve.angleDeg!) < ANGLE_TOLERANCE_DEG &&
+        Math.abs((component.radiusMm ?? 0) - outerRadius) <= MATCH_TOLERANCE_MM,
+    )
+    if (!outer) {
+      return { error: `No ${curve.angleDeg}° curve of radius ${outerRadius.toFixed(1)} mm for the outer track.` }
+    }
+    // The inner loop turns towards +y, so the outer one starts on the -y side of it
+    loops.push({ curve: outer, start: poseAt(0, -system.parallelSpacingMm, 0) })
+  }
+
+  const items: PlacedItem[] = []
+  const connections: EndpointConnection[] = []
+  loops.forEach((loop) => {
+    const turn = getTurnStep(loop.curve, 1, chainOptions)
+    const side = straight ? repeat(straightStep(straight), options.straightCount) : []
+    const end = repeat(turn, Math.round(curvesPerEnd))
+    const chain = layChain(loop.start, [...end, ...side, ...end, ...side], chainOptions)
+    items.push(...chain.items)
+    connections.push(...closeChain(chain))
+  })
+
+  return { layout: { items, connections, closureErrorMm: 0 } }
+}
+
+/**
+ * Loop leaving the crossing at `from` and coming back into it at `to`. The straights on both sides of
+ * the turn are sized so the loop closes; catalog lengths rarely match exactly, so the miss is reported.
+ */
+function layCrossingLoop(
+  from: { ref: EndpointRef; pose: EndpointPose },
+  to: { ref: EndpointRef; pose: EndpointPose },
+  turn: ChainStep[],
+  straights: TrackComponentDefinition[],
+  chainOptions: ChainOptions,
+) {
+  const arc = layChain(from.pose, turn, chainOptions).endPose
+  const sum = { x: from.pose.direction.x + arc.direction.x, y: from.pose.direction.y + arc.direction.y }
+  const gap = { x: to.pose.position.xMm - arc.position.xMm, y: to.pose.position.yMm - arc.position.yMm }
+  const lengthMm = (gap.x * sum.x + gap.y * sum.y) / (sum.x * sum.x + sum.y * sum.y)
+  // Both sides miss by the same amount, so each gets half of the tolerance
+  const side = pickStraights(straights, lengthMm, GENERATOR_CLOSURE_TOLERANCE_MM / 2).map(straightStep)
+
+  const chain = layChain(from.pose, [...side, ...turn, ...[...side].reverse()], chainOptions)
+  const errorMm = poseDistance(chain.endPose, to.pose)
+  const connections = [...chain.connections]
+  if (chain.first) connections.push({ endpoints: [from.ref, chain.first] })
+  if (chain.last && errorMm <= GENERATOR_CLOSURE_TOLERANCE_MM) connections.push({ endpoints: [chain.last, to.ref] })
+  return { items: chain.items, connections, errorMm, isLengthPossible: lengthMm >= 0 }
+}
+
+function generateFigureEight(
+  system: TrackSystemDefinition,
+  options: LayoutGeneratorOptions,
+  chainOptions: ChainOptions,
+): LayoutGeneratorResult {
+  const curve = system.components.find((component) => component.id === options.curveId && component.type === 'curve')
+  const crossing = system.components.find(
+    (component) => component.id === options.crossingId && component.type === 'crossing',
+  )
+  if (!curve?.angleDeg) return { error: 'Pick a curve for the loops.' }
+  const crossingAngleDeg = Number((crossing?.meta as { crossingAngleDeg?: unknown } | undefined)?.crossingAngleDeg)
+  if (!crossing || !Number.isFinite(crossingAngleDeg)) return { error: 'Pick a crossing for the middle.' }
+  // Each loop turns by half a circle plus the crossing angle
+  const curvesPerLoop = (180 + crossingAngleDeg) / curve.angleDeg
+  if (!isWholeNumber(curvesPerLoop)) {
+    return { error: `${180 + crossingAngleDeg}° per loop is not a whole number of ${curve.id} curves.` }
+  }
+
+  const [crossingItem] = layChain(ORIGIN_POSE, [straightStep(crossing)], chainOptions).items
+  const endpoint = (connectorKey: string) => ({
+    ref: { itemId: crossingItem.id, connectorKey },
+    pose: getPlacedEndpointPose(crossingItem, crossing, connectorKey),
+  })
+  const pairs = [
+    [endpoint('end'), endpoint('crossEnd')],
+    [endpoint('start'), endpoint('crossStart')],
+  ] as const
+  const straights = system.components.filter((component) => component.type === 'straight')
+
+  const items: PlacedItem[] = [crossingItem]
+  const connections: EndpointConnection[] = []
+  let closureErrorMm = 0
+  for (const [from, to] of pairs) {
+    if (!from.pose || !to.pose) return { error: `${crossing.id} has no second track to loop back into.` }
+    // Turn towards the side the loop comes back in on
+    const offset = {
+      x: to.pose.position.xMm - from.pose.position.xMm,
+      y: to.pose.position.yMm - from.pose.position.yMm,
+    }
+    const sign = from.pose.direction.x * offset.y - from.pose.direction.y * offset.x >= 0 ? 1 : -1
+    const turn = repeat(getTurnStep(curve, sign, chainOptions), Math.round(curvesPerLoop))
+    const loop = layCrossingLoop(
+      { ref: from.ref, pose: from.pose },
+      { ref: to.ref, pose: to.pose },
+      turn,
+      straights,
+      chainOptions,
+    )
+    if (!loop.isLengthPossible) return { error: `${curve.id} is too wide to loop back into ${crossing.id}.` }
+    items.push(...loop.items)
+    connections.push(...loop.connections)
+    closureErrorMm = Math.max(closureErrorMm, loop.errorMm)
+  }
+
+  return { layout: { items, connections, closureErrorMm } }
+}
+
+function generateLadder(
+  system: TrackSystemDefinition,
+  options: LayoutGeneratorOptions,
+  chainOptions: ChainOptions,
+): LayoutGeneratorResult {
+  const first = system.components.find((component) => component.id === options.switchId && component.type === 'switch')
+  const firstBranch = first && getGeometryConnector(getComponentGeometry(first), 'branch')
+  if (!first || !firstBranch) return { error: 'Pick a simple left or right switch for the ladder.' }
+  if (options.trackCount < 2) return { error: 'A ladder needs at least two tracks.' }
+  const straight = system.components.find(
+    (component) => component.id === options.straightId && component.type === 'straight',
+  )
+  if (options.straightCount > 0 && !straight) return { error: 'Pick a straight for the yard tracks.' }
+
+  // Further switches sit on the diverging ladder line and branch back, so they are the mirror image
+  const partner = system.components.find((component) => {
+    if (component.type !== 'switch') return false
+    const branch = getGeometryConnector(getComponentGeometry(component), 'branch')
+    return (
+      !!branch &&
+      Math.abs(branch.xMm - firstBranch.xMm) <= MATCH_TOLERANCE_MM &&
+      Math.abs(branch.yMm + firstBranch.yMm) <= MATCH_TOLERANCE_MM
+    )
+  })
+  if (!partner && options.trackCount > 2) return { error: `No mirror image of ${first.id} for the ladder.` }
+
+  // The last track leaves the ladder line through a curve matching the switch branch
+  const branchAngleDeg = Math.abs(firstBranch.directionDeg)
+  const branchRadiusMm = Math.abs(firstBranch.yMm) / (1 - Math.cos(toRad(branchAngleDeg)))
+  const counterCurve = system.components.find(
+    (component) =>
+      component.type === 'curve' &&
+      Math.abs((component.angleDeg ?? 0) - branchAngleDeg) < ANGLE_TOLERANCE_DEG &&
+      Math.abs((component.radiusMm ?? 0) - branchRadiusMm) <= MATCH_TOLERANCE_MM,
+  )
+  if (!counterCurve) {
+    return { error: `No ${branchAngleDeg}° curve of radius ${branchRadiusMm.toFixed(1)} mm to end the ladder.` }
+  }
+
+  const items: PlacedItem[] = []
+  const connections: EndpointConnection[] = []
+  const trackStarts: { ref: EndpointRef; pose: EndpointPose }[] = []
+  /** Lays a switch on the ladder line; one route continues the ladder, the other starts a yard track. */
+  const laySwitch = (
+    component: TrackComponentDefinition,
+    pose: EndpointPose,
+    previous: EndpointRef | null,
+    ladderKey: 'end' | 'branch',
+  ) => {
+    const [item] = layChain(pose, [straightStep(component)], chainOptions).items
+    items.push(item)
+    if (previous) connections.push({ endpoints: [previous, { itemId: item.id, connectorKey: 'start' }] })
+    const exit = (connectorKey: string) => ({
+      ref: { itemId: item.id, connectorKey },
+      pose: getPlacedEndpointPose(item, component, connectorKey)!,
+    })
+    trackStarts.push(exit(ladderKey === 'end' ? 'branch' : 'end'))
+    return exit(ladderKey)
+  }
+
+  // The first switch's branch starts the ladder line; the mirrored switches run straight along it and
+  // branch back parallel to the first track
+  let ladder = laySwitch(first, ORIGIN_POSE, null, 'branch')
+  for (let track = 2; track < options.trackCount; track += 1) {
+    ladder = laySwitch(partner!, ladder.pose, ladder.ref, 'end')
+  }
+  const sign = firstBranch.directionDeg > 0 ? -1 : 1
+  const end = layChain(ladder.pose, [getTurnStep(counterCurve, sign, chainOptions)], chainOptions)
+  items.push(...end.items)
+  if (end.first) connections.push({ endpoints: [ladder.ref, end.first] })
+  if (end.last) trackStarts.push({ ref: end.last, pose: end.endPose })
+
+  if (straight && options.straightCount > 0) {
+    trackStarts.forEach((start) => {
+      const chain = layChain(start.pose, repeat(straightStep(straight), options.straightCount), chainOptions)
+      items.push(...chain.items)
+      connections.push(...chain.connections)
+      if (chain.first) connections.push({ endpoints: [start.ref, chain.first] })
+    })
+  }
+
+  return { layout: { items, connections, closureErrorMm: 0 } }
+}
+
+/** Moves generated pieces so the middle of their positions lands on `center`. */
+const centerItems = (items: PlacedItem[], center: { x: number; y: number }) => {
+  if (items.length === 0) return items
+  const xs = items.map((item) => item.x)
+  const ys = items.map((item) => item.y)
+  const dx = center.x - (Math.min(...xs) + Math.max(...xs)) / 2
+  const dy = center.y - (Math.min(...ys) + Math.max(...ys)) / 2
+  return items.map((item) => ({ ...item, x: item.x + dx, y: item.y + dy }))
+}
+
+/**
+ * Builds a common plan from the pieces of one track system. The result is ordinary connected pieces,
+ * centred on `center`, ready to be added to a layout.
+ */
+export function generateLayout(
+  system: TrackSystemDefinition,
+  options: LayoutGeneratorOptions,
+  center: { x: number; y: number },
+  chainOptions: ChainOptions,
+): LayoutGeneratorResult {
+  const result =
+    options.kind === 'figure-eight'
+      ? generateFigureEight(system, options, chainOptions)
+      : options.kind === 'ladder'
+        ? generateLadder(system, options, chainOptions)
+        : generateOval(system, options, chainOptions)
+  if ('error' in result) return result
+  return { layout: { ...result.layout, items: centerItems(result.layout.items, center) } }
+}
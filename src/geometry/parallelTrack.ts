@@ -0,0 +1,210 @@
+import type { LayoutState, PlacedItem } from '../types/layout'
+import type { ConnectorKey, TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { buildComponentLookup, getItemComponentKey } from '../utils/trackSystemUtils'
+import { normalizeAngle } from './trackGeometry'
+import type { EndpointPose } from './trackEndpoint'
+import { getTrackSystemMetrics } from './trackSystemMetrics'
+import {
+  getPlacedEndpointPose,
+  getTurnStep,
+  layChain,
+  pickStraights,
+  type ChainOptions,
+  type ChainStep,
+} from './trackChain'
+
+/** Side of the selected run, looking along it from its first piece */
+export type ParallelSide = 'left' | 'right'
+
+export interface ParallelIssue {
+  /** Selected piece alongside which the parallel track is not exact */
+  itemId: string
+  message: string
+}
+
+export interface ParallelProposal {
+  side: ParallelSide
+  /** Open end the parallel track is laid from */
+  start: EndpointPose
+  steps: ChainStep[]
+  issues: ParallelIssue[]
+}
+
+export type ParallelTrackResult =
+  | {
+      trackSystem: TrackSystemDefinition
+      /** The selection is a closed loop, so the parallel track closes too */
+      isLoop: boolean
+      proposals: ParallelProposal[]
+    }
+  | { error: string }
+
+/** Offsets and angle errors up to this much still count as an exact parallel */
+export const PARALLEL_TOLERANCE_MM = 0.5
+const PARALLEL_ANGLE_TOLERANCE_DEG = 0.1
+
+type RunPiece = {
+  item: PlacedItem
+  component: TrackComponentDefinition
+  /** Where the piece is entered, facing the direction of travel */
+  entry: EndpointPose
+  /** Open end after the piece, facing the direction of travel */
+  exit: EndpointPose
+}
+
+const otherEnd = (key: ConnectorKey) => (key === 'start' ? 'end' : 'start')
+
+const reversePose = (pose: EndpointPose): EndpointPose => ({
+  position: pose.position,
+  direction: { x: -pose.direction.x, y: -pose.direction.y },
+  directionDeg: normalizeAngle(pose.directionDeg + 180),
+})
+
+/** Moves a pose sideways; positive distances go to the right of travel on screen. */
+const offsetPose = (pose: EndpointPose, distanceMm: number): EndpointPose => ({
+  ...pose,
+  position: {
+    xMm: pose.position.xMm - pose.direction.y * distanceMm,
+    yMm: pose.position.yMm + pose.direction.x * distanceMm,
+  },
+})
+
+/** Puts the selected pieces in running order, from one open end of the run to the other. */
+function orderRun(
+  layout: LayoutState,
+  itemIds: Set<string>,
+  trackSystems: TrackSystemDefinition[],
+): { pieces: RunPiece[]; isLoop: boolean; trackSystemId: string } | { error: string } {
+  const lookup = buildComponentLookup(trackSystems)
+  const items = layout.placedItems.filter((item) => itemIds.has(item.id))
+  if (items.length === 0) return { error: 'Select a run of connected straights and curves.' }
+  for (const item of items) {
+    const component = lookup.get(getItemComponentKey(item))
+    if (component?.type !== 'straight' && component?.type !== 'curve') {
+      return { error: `${item.componentId} is not a plain straight or curve.` }
+    }
+    if (item.trackSystemId !== items[0].trackSystemId) return { error: 'The selection mixes track systems.' }
+  }
+
+  const links = new Map<string, { itemId: string; connectorKey: ConnectorKey }>()
+  layout.connections.forEach(({ endpoints: [a, b] }) => {
+    if (!itemIds.has(a.itemId) || !itemIds.has(b.itemId)) return
+    links.set(`${a.itemId}:${a.connectorKey}`, b)
+    links.set(`${b.itemId}:${b.connectorKey}`, a)
+  })
+  const isLinked = (itemId: string, key: ConnectorKey) => links.has(`${itemId}:${key}`)
+
+  // Start from a piece with a free end; if there is none the run is a loop
+  const first = items.find((item) => !isLinked(item.id, 'start') || !isLinked(item.id, 'end')) ?? items[0]
+  const isLoop = items.every((item) => isLinked(item.id, 'start') && isLinked(item.id, 'end'))
+  let entryKey: ConnectorKey = isLinked(first.id, 'start') && !isLinked(first.id, 'end') ? 'end' : 'start'
+  let item: PlacedItem | undefined = first
+  const pieces: RunPiece[] = []
+  const visited = new Set<string>()
+
+  while (item && !visited.has(item.id)) {
+    visited.add(item.id)
+    const component = lookup.get(getItemComponentKey(item))!
+    const exitKey = otherEnd(entryKey)
+    const entry = getPlacedEndpointPose(item, component, entryKey)
+    const exit = getPlacedEndpointPose(item, component, exitKey)
+    if (!entry || !exit) return { error: `${item.componentId} has no start and end to follow.` }
+    pieces.push({ item, component, entry: reversePose(entry), exit })
+
+    const next = links.get(`${item.id}:${exitKey}`)
+    entryKey = next?.connectorKey ?? 'start'
+    item = next && items.find((candidate) => candidate.id === next.itemId)
+  }
+
+  if (visited.size !== items.length) return { error: 'The selected pieces must form one connected run of track.' }
+  return { pieces, isLoop, trackSystemId: first.trackSystemId }
+}
+
+function proposeSide(
+  pieces: RunPiece[],
+  system: TrackSystemDefinition,
+  side: ParallelSide,
+  chainOptions: ChainOptions,
+): ParallelProposal {
+  const offsetMm = side === 'right' ? system.parallelSpacingMm : -system.parallelSpacingMm
+  const straights = system.components.filter((component) => component.type === 'straight')
+  const curves = system.components.filter((component) => component.type === 'curve')
+  const start = offsetPose(pieces[0].entry, offsetMm)
+  const steps: ChainStep[] = []
+  const issues: ParallelIssue[] = []
+  let pose = start
+
+  pieces.forEach(({ item, component, entry, exit }) => {
+    const target = offsetPose(exit, offsetMm)
+    const notes: string[] = []
+    let pieceSteps: ChainStep[] = []
+
+    if (component.type === 'straight') {
+      // Sized to the end of the original, which also takes up what a substituted curve left over
+      const lengthMm =
+        (target.position.xMm - pose.position.xMm) * pose.direction.x +
+        (target.position.yMm - pose.position.yMm) * pose.direction.y
+      if (lengthMm > PARALLEL_TOLERANCE_MM) {
+        pieceSteps = pickStraights(straights, lengthMm, PARALLEL_TOLERANCE_MM).map((straight) => ({
+          component: straight,
+          entryKey: 'start',
+          exitKey: 'end',
+        }))
+      }
+    } else {
+      const turnSign = normalizeAngle(exit.directionDeg - entry.directionDeg) >= 0 ? 1 : -1
+      // A curve turning towards the parallel track has it on the inside
+      const radiusMm = (component.radiusMm ?? 0) - Math.sign(offsetMm) * turnSign * system.parallelSpacingMm
+      const match = curves
+        .filter((curve) => Math.abs((curve.angleDeg ?? 0) - (component.angleDeg ?? 0)) < PARALLEL_ANGLE_TOLERANCE_DEG)
+        .sort((a, b) => Math.abs((a.radiusMm ?? 0) - radiusMm) - Math.abs((b.radiusMm ?? 0) - radiusMm))[0]
+      if (!match) {
+        notes.push(`no ${component.angleDeg}° curve in the catalog`)
+      } else {
+        if (Math.abs((match.radiusMm ?? 0) - radiusMm) > PARALLEL_TOLERANCE_MM) {
+          notes.push(`needs radius ${radiusMm.toFixed(1)} mm, ${match.id} used`)
+        }
+        pieceSteps = [getTurnStep(match, turnSign, chainOptions)]
+      }
+    }
+
+    if (pieceSteps.length > 0) pose = layChain(pose, pieceSteps, chainOptions).endPose
+    steps.push(...pieceSteps)
+    const offByMm = Math.hypot(target.position.xMm - pose.position.xMm, target.position.yMm - pose.position.yMm)
+    const offByDeg = Math.abs(normalizeAngle(target.directionDeg - pose.directionDeg))
+    if (offByMm > PARALLEL_TOLERANCE_MM || offByDeg > PARALLEL_ANGLE_TOLERANCE_DEG) {
+      notes.push(`off by ${offByMm.toFixed(1)} mm / ${offByDeg.toFixed(1)}°`)
+    }
+    if (notes.length > 0) issues.push({ itemId: item.id, message: `${component.id}: ${notes.join(', ')}` })
+  })
+
+  return { side, start, steps, issues }
+}
+
+/**
+ * Proposes a track at the system's parallel spacing on both sides of a selected run of straights and
+ * curves. Curves get the radius one spacing further in or out and straights are re-cut to end level with
+ * the original; wherever the catalog has no exact match the proposal says so.
+ */
+export function proposeParallelTrack(
+  layout: LayoutState,
+  itemIds: Set<string>,
+  trackSystems: TrackSystemDefinition[],
+): ParallelTrackResult {
+  const run = orderRun(layout, itemIds, trackSystems)
+  if ('error' in run) return run
+  const trackSystem = trackSystems.find((system) => system.id === run.trackSystemId)
+  if (!trackSystem) return { error: 'The track system of the selection is missing.' }
+
+  let index = 0
+  const chainOptions: ChainOptions = {
+    trackSystemId: trackSystem.id,
+    widthMm: getTrackSystemMetrics(trackSystem).sleeperWidthMm,
+    createId: () => `parallel-probe-${index++}`,
+  }
+  return {
+    trackSystem,
+    isLoop: run.isLoop,
+    proposals: (['left', 'right'] as const).map((side) => proposeSide(run.pieces, trackSystem, side, chainOptions)),
+  }
+}
@@ -0,0 +1,162 @@
+import type { Vec2 } from './geometryUtils'
+
+export type Polyline = Vec2[]
+
+export interface Bounds {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+const DEFAULT_STEP_MM = 5
+
+/**
+ * Converts the path strings produced by `buildPathD` into polylines. Only the commands used by the
+ * track geometry (absolute M, L, A and C) are understood; each M starts a new polyline.
+ */
+export function samplePathD(pathD: string, stepMm = DEFAULT_STEP_MM): Polyline[] {
+  const tokens = pathD.match(/[MLAC]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi) ?? []
+  const polylines: Polyline[] = []
+  let current: Polyline | null = null
+  let cursor: Vec2 = { x: 0, y: 0 }
+  let index = 0
+
+  const next = () => Number(tokens[index++])
+
+  while (index < tokens.length) {
+    const command = tokens[index++].toUpperCase()
+    if (command === 'M') {
+      cursor = { x: next(), y: next() }
+      current = [cursor]
+      polylines.push(current)
+      continue
+    }
+    if (!current) {
+      current = [cursor]
+      polylines.push(current)
+    }
+    if (command === 'L') {
+      const target = { x: next(), y: next() }
+      current.push(...sampleLine(cursor, target, stepMm))
+      cursor = target
+      continue
+    }
+    if (command === 'A') {
+      const rx = next()
+      const ry = next()
+      next() // x-axis rotation, always 0 for track arcs
+      const largeArc = next() === 1
+      const sweep = next() === 1
+      const target = { x: next(), y: next() }
+      current.push(...sampleArc(cursor, target, Math.abs(rx || ry), largeArc, sweep, stepMm))
+      cursor = target
+      continue
+    }
+    if (command === 'C') {
+      const c1 = { x: next(), y: next() }
+      const c2 = { x: next(), y: next() }
+      const target = { x: next(), y: next() }
+      current.push(...sampleCubic(cursor, c1, c2, target, stepMm))
+      cursor = target
+      continue
+    }
+    // Unknown token: stop rather than produce garbage points
+    break
+  }
+
+  return polylines
+}
+
+export function getPolylineBounds(polylines: Polyline[]): Bounds | null {
+  let bounds: Bounds | null = null
+  polylines.forEach((polyline) => {
+    polyline.forEach((point) => {
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, point.x),
+            maxX: Math.max(bounds.maxX, point.x),
+            minY: Math.min(bounds.minY, point.y),
+            maxY: Math.max(bounds.maxY, point.y),
+          }
+        : { minX: point.x, maxX: point.x, minY: point.y, maxY: point.y }
+    })
+  })
+  return bounds
+}
+
+export function getPolylineLength(polyline: Polyline): number {
+  let length = 0
+  for (let i = 1; i < polyline.length; i += 1) {
+    length += Math.hypot(polyline[i].x - polyline[i - 1].x, polyline[i].y - polyline[i - 1].y)
+  }
+  return length
+}
+
+const sampleLine = (from: Vec2, to: Vec2, stepMm: number): Vec2[] => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y)
+  const segments = Math.max(1, Math.ceil(length / stepMm))
+  const points: Vec2[] = []
+  for (let i = 1; i <= segments; i += 1) {
+    const t = i / segments
+    points.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })
+  }
+  return points
+}
+
+const sampleCubic = (from: Vec2, c1: Vec2, c2: Vec2, to: Vec2, stepMm: number): Vec2[] => {
+  // The control polygon is never shorter than the curve, so it bounds the number of samples needed
+  const polygonLength =
+    Math.hypot(c1.x - from.x, c1.y - from.y) + Math.hypot(c2.x - c1.x, c2.y - c1.y) + Math.hypot(to.x - c2.x, to.y - c2.y)
+  const segments = Math.max(1, Math.ceil(polygonLength / stepMm))
+  const points: Vec2[] = []
+  for (let i = 1; i <= segments; i += 1) {
+    const t = i / segments
+    const mt = 1 - t
+    const a = mt * mt * mt
+    const b = 3 * mt * mt * t
+    const c = 3 * mt * t * t
+    const d = t * t * t
+    points.push({
+      x: a * from.x + b * c1.x + c * c2.x + d * to.x,
+      y: a * from.y + b * c1.y + c * c2.y + d * to.y,
+    })
+  }
+  return points
+}
+
+/** Circular arc from endpoint parameterisation (SVG implementation notes, F.6.5, with rx = ry). */
+const sampleArc = (
+  from: Vec2,
+  to: Vec2,
+  radius: number,
+  largeArc: boolean,
+  sweep: boolean,
+  stepMm: number,
+): Vec2[] => {
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const halfChord = Math.hypot(dx, dy)
+  if (halfChord < 1e-9 || radius < 1e-9) return [to]
+
+  const r = Math.max(radius, halfChord)
+  const offset = Math.sqrt(Math.max(0, r * r - halfChord * halfChord)) / halfChord
+  const sign = largeArc === sweep ? -1 : 1
+  const center = {
+    x: (from.x + to.x) / 2 + sign * offset * dy,
+    y: (from.y + to.y) / 2 - sign * offset * dx,
+  }
+
+  const startAngle = Math.atan2(from.y - center.y, from.x - center.x)
+  let delta = Math.atan2(to.y - center.y, to.x - center.x) - startAngle
+  if (sweep && delta < 0) delta += Math.PI * 2
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+
+  const segments = Math.max(1, Math.ceil((Math.abs(delta) * r) / stepMm))
+  const points: Vec2[] = []
+  for (let i = 1; i <= segments; i += 1) {
+    const angle = startAngle + (delta * i) / segments
+    points.push({ x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) })
+  }
+  return points
+}
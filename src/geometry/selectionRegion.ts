@@ -0,0 +1,42 @@
+import type { Vec2 } from './geometryUtils'
+
+/** Closed polygon in world coordinates; the last point connects back to the first. */
+export type SelectionRegion = Vec2[]
+
+/** Lasso points closer together than this are dropped while drawing. */
+export const LASSO_MIN_POINT_SPACING_MM = 4
+
+export function getRectangleRegion(a: Vec2, b: Vec2): SelectionRegion {
+  return [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y },
+  ]
+}
+
+/** Even-odd ray casting, so a self-intersecting lasso behaves like its SVG rendering. */
+export function isPointInRegion(point: Vec2, region: SelectionRegion): boolean {
+  let inside = false
+  for (let i = 0, j = region.length - 1; i < region.length; j = i++) {
+    const a = region[i]
+    const b = region[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** Something is selected by a region only when it lies entirely inside it. */
+export const isOutlineInRegion = (outline: Vec2[], region: SelectionRegion) =>
+  region.length >= 3 && outline.length > 0 && outline.every((point) => isPointInRegion(point, region))
+
+/** Appends a lasso point unless it is too close to the previous one. */
+export function extendLasso(lasso: SelectionRegion, point: Vec2): SelectionRegion {
+  const last = lasso[lasso.length - 1]
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < LASSO_MIN_POINT_SPACING_MM) {
+    return lasso
+  }
+  return [...lasso, point]
+}
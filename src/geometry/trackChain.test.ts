@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { layChain, type ChainOptions } from './trackChain'
+import { pikoA_H0 } from '../data/pikoA_H0'
+
+const component = (id: string) => pikoA_H0.components.find((candidate) => candidate.id === id)!
+
+const ORIGIN = { position: { xMm: 0, yMm: 0 }, direction: { x: 1, y: 0 }, directionDeg: 0 }
+
+const options = (): ChainOptions => {
+  let nextId = 0
+  return { trackSystemId: pikoA_H0.id, widthMm: 28, createId: () => `item-${(nextId += 1)}` }
+}
+
+describe('layChain', () => {
+  it('joins consecutive pieces and ends past the last one', () => {
+    const straight = { component: component('G231'), entryKey: 'start', exitKey: 'end' }
+    const chain = layChain(ORIGIN, [straight, straight], options())
+    expect(chain.items).toHaveLength(2)
+    expect(chain.connections).toHaveLength(1)
+    expect(chain.first).toEqual({ itemId: 'item-1', connectorKey: 'start' })
+    expect(chain.last).toEqual({ itemId: 'item-2', connectorKey: 'end' })
+    expect(chain.endPose.position.xMm).toBeCloseTo(2 * 230.93, 6)
+  })
+
+  it('refuses a step through a connector the piece does not have', () => {
+    const straight = { component: component('G231'), entryKey: 'start', exitKey: 'end' }
+    const broken = { component: component('G231'), entryKey: 'start', exitKey: 'branch' }
+    expect(() => layChain(ORIGIN, [straight, broken], options())).toThrow(/G231 has no "branch" connector/)
+  })
+})
@@ -0,0 +1,182 @@
+import type { EndpointConnection, PlacedItem } from '../types/layout'
+import type {
+  ComponentGeometry,
+  ConnectorKey,
+  EndpointRef,
+  TrackComponentDefinition,
+  TrackConnector,
+  WorldTransform,
+} from '../types/trackSystem'
+import { angleOf, normalizeVec, toDeg, transformPoint } from './geometryUtils'
+import { getPlacedItemGeometry, normalizeAngle, transformConnector } from './trackGeometry'
+import { getEndpointPose, type EndpointPose } from './trackEndpoint'
+import type { FlexControlPoints } from './flexTrack'
+
+/** One piece of a chain: it is entered through `entryKey` and the chain continues from `exitKey`. */
+export interface ChainStep {
+  component: TrackComponentDefinition
+  entryKey: ConnectorKey
+  exitKey: ConnectorKey
+  /** Flex track only */
+  controlPoints?: FlexControlPoints
+}
+
+export interface LaidChain {
+  items: PlacedItem[]
+  /** Joints between consecutive pieces; the joints to existing track are left to the caller */
+  connections: EndpointConnection[]
+  first: EndpointRef | null
+  last: EndpointRef | null
+  /** Open end after the last piece, pointing away from it */
+  endPose: EndpointPose
+}
+
+export type ChainOptions = {
+  trackSystemId: string
+  widthMm: number
+  createId: () => string
+}
+
+/** Longest run of straights `pickStraights` puts together */
+export const MAX_PICKED_STRAIGHTS = 16
+
+/** An open end at the origin facing +x */
+const TRAVEL_ORIGIN_POSE: EndpointPose = {
+  position: { xMm: 0, yMm: 0 },
+  direction: { x: 1, y: 0 },
+  directionDeg: 0,
+}
+
+export function getGeometryConnector(geometry: ComponentGeometry, key: ConnectorKey): TrackConnector | null {
+  if (key === 'start') return geometry.start
+  if (key === 'end') return geometry.end
+  return geometry.extraConnectors?.[key] ?? null
+}
+
+export function poseFromConnector(connector: TrackConnector): EndpointPose {
+  return {
+    position: { xMm: connector.xMm, yMm: connector.yMm },
+    direction: connector.dir,
+    directionDeg: connector.directionDeg,
+  }
+}
+
+/**
+ * Transform that puts a local connector onto an open end, facing it. Same construction as
+ * `computeConnectionTransform`, but anchored on a bare pose so chains can be laid before any item exists.
+ */
+export function placeConnectorAtPose(connector: TrackConnector, pose: EndpointPose): WorldTransform {
+  const target = { x: -pose.direction.x, y: -pose.direction.y }
+  const rotationRad = angleOf(target) - angleOf(normalizeVec(connector.dir))
+  const rotated = transformPoint({ x: connector.xMm, y: connector.yMm }, rotationRad, { x: 0, y: 0 })
+  return {
+    x: pose.position.xMm - rotated.x,
+    y: pose.position.yMm - rotated.y,
+    rotationDeg: normalizeAngle(toDeg(rotationRad)),
+  }
+}
+
+/**
+ * Lays `steps` one after another starting at `startPose`. Every piece is placed exactly on the previous
+ * one, so any mismatch with a target end shows up only at the last joint. Throws when a step names a
+ * connector its component does not have: steps are derived from catalog geometry, so that is a bug in
+ * the caller and a chain with a piece left out would still look complete.
+ */
+export function layChain(startPose: EndpointPose, steps: ChainStep[], options: ChainOptions): LaidChain {
+  const items: PlacedItem[] = []
+  const connections: EndpointConnection[] = []
+  let pose = startPose
+  let first: EndpointRef | null = null
+  let previous: EndpointRef | null = null
+
+  for (const step of steps) {
+    const geometry = getPlacedItemGeometry(step.component, { controlPoints: step.controlPoints }, options.widthMm)
+    const entry = getGeometryConnector(geometry, step.entryKey)
+    const exit = getGeometryConnector(geometry, step.exitKey)
+    if (!entry || !exit) {
+      const missing = entry ? step.exitKey : step.entryKey
+      throw new Error(`Chain step ${step.component.id} has no "${missing}" connector`)
+    }
+
+    const transform = placeConnectorAtPose(entry, pose)
+    const item: PlacedItem = {
+      id: options.createId(),
+      trackSystemId: options.trackSystemId,
+      componentId: step.component.id,
+      x: transform.x,
+      y: transform.y,
+      rotationDeg: transform.rotationDeg,
+    }
+    if (step.controlPoints) item.controlPoints = step.controlPoints
+    items.push(item)
+
+    const entryRef = { itemId: item.id, connectorKey: step.entryKey }
+    if (previous) {
+      connections.push({ endpoints: [previous, entryRef] })
+    } else {
+      first = entryRef
+    }
+    previous = { itemId: item.id, connectorKey: step.exitKey }
+    pose = poseFromConnector(transformConnector(exit, transform))
+  }
+
+  return { items, connections, first, last: previous, endPose: pose }
+}
+
+/** World pose of one connector of a placed piece, or null if the piece has no such connector. */
+export function getPlacedEndpointPose(
+  item: PlacedItem,
+  component: TrackComponentDefinition,
+  connectorKey: ConnectorKey,
+): EndpointPose | null {
+  const connector = getGeometryConnector(getPlacedItemGeometry(component, item), connectorKey)
+  return connector ? getEndpointPose(item, connector) : null
+}
+
+/** Curve step that turns the heading of travel by +angle (`sign` 1) or -angle (`sign` -1). */
+export function getTurnStep(component: TrackComponentDefinition, sign: 1 | -1, options: ChainOptions): ChainStep {
+  const forward: ChainStep = { component, entryKey: 'start', exitKey: 'end' }
+  const probe = layChain(TRAVEL_ORIGIN_POSE, [forward], options)
+  return Math.sign(probe.endPose.directionDeg) === sign ? forward : { component, entryKey: 'end', exitKey: 'start' }
+}
+
+/**
+ * Picks the fewest catalog straights whose total length is within `toleranceMm` of `lengthMm`, or the
+ * closest total when no combination is. Longest pieces come first in the result.
+ */
+export function pickStraights(
+  straights: TrackComponentDefinition[],
+  lengthMm: number,
+  toleranceMm: number,
+): TrackComponentDefinition[] {
+  const sorted = [...straights]
+    .filter((component) => (component.lengthMm ?? 0) > 0)
+    .sort((a, b) => (b.lengthMm ?? 0) - (a.lengthMm ?? 0))
+  let best: TrackComponentDefinition[] = []
+  let bestExcess = Math.max(0, Math.abs(lengthMm) - toleranceMm)
+  const picked: TrackComponentDefinition[] = []
+
+  const search = (index: number, total: number) => {
+    const excess = Math.max(0, Math.abs(lengthMm - total) - toleranceMm)
+    if (excess < bestExcess || (excess === bestExcess && picked.length < best.length)) {
+      best = [...picked]
+      bestExcess = excess
+    }
+    if (index >= sorted.length || picked.length >= MAX_PICKED_STRAIGHTS) return
+    if (bestExcess === 0 && picked.length + 1 >= best.length) return
+    const length = sorted[index].lengthMm ?? 0
+    // Take as many of this piece as still fit, then fewer, then move on to shorter pieces
+    const maxCount = Math.min(
+      MAX_PICKED_STRAIGHTS - picked.length,
+      Math.floor((lengthMm - total + toleranceMm + bestExcess) / length),
+    )
+    for (let count = maxCount; count >= 0; count -= 1) {
+      for (let i = 0; i < count; i += 1) picked.push(sorted[index])
+      search(index + 1, total + count * length)
+      picked.length -= count
+    }
+  }
+
+  search(0, 0)
+  return best
+}
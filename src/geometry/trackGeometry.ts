@@ -1,11 +1,23 @@
+import type { PlacedItem } from '../types/layout'
 import type {
+  AccessoryMeta,
   ComponentGeometry,
   CrossingMeta,
   TrackComponentDefinition,
   TrackConnector,
+  TraverserMeta,
+  TurntableMeta,
   WorldTransform,
 } from '../types/trackSystem'
+import { ACCESSORY_KINDS } from '../constants/trackUsage'
 import { normalizeVec, toDeg, toRad, TRACK_EDGE_WIDTH_MM } from './geometryUtils'
+import {
+  buildFlexPathD,
+  getDefaultFlexControlPoints,
+  getFlexTangent,
+  isFlexControlPoints,
+  type FlexControlPoints,
+} from './flexTrack'
 
 const warnMissing = (id: string) => {
   if (import.meta.env?.DEV) {
@@ -118,7 +130,54 @@ const isCrossingMeta = (meta: unknown): meta is CrossingMeta => {
   return hasNumber(meta.lengthMm) && hasNumber(meta.crossingAngleDeg)
 }
 
-export function getComponentGeometry(def: TrackComponentDefinition): ComponentGeometry {
+const isTurntableMeta = (meta: unknown): meta is TurntableMeta =>
+  isRecord(meta) &&
+  hasNumber(meta.diameterMm) &&
+  hasNumber(meta.connectorSpacingDeg) &&
+  hasNumber(meta.connectorCount)
+
+const isTraverserMeta = (meta: unknown): meta is TraverserMeta =>
+  isRecord(meta) && hasNumber(meta.bridgeLengthMm) && hasNumber(meta.trackSpacingMm) && hasNumber(meta.trackCount)
+
+const isAccessoryMeta = (meta: unknown): meta is AccessoryMeta =>
+  isRecord(meta) && ACCESSORY_KINDS.includes(meta.kind as AccessoryMeta['kind']) && hasNumber(meta.lengthMm)
+
+/** Length of the moving bridge of a turntable or transfer table; null for every other piece. */
+export function getBridgeLengthMm(def: TrackComponentDefinition): number | null {
+  if (def.type === 'turntable' && isTurntableMeta(def.meta)) return def.meta.diameterMm
+  if (def.type === 'traverser' && isTraverserMeta(def.meta)) return def.meta.bridgeLengthMm
+  return null
+}
+
+/**
+ * Connectors carry the sleeper width of the owning system so pieces from different scales never snap together.
+ */
+export function getComponentGeometry(
+  def: TrackComponentDefinition,
+  widthMm: number = TRACK_EDGE_WIDTH_MM,
+): ComponentGeometry {
+  const geometry = buildComponentGeometry(def)
+  return widthMm === TRACK_EDGE_WIDTH_MM ? geometry : withConnectorWidth(geometry, widthMm)
+}
+
+/**
+ * Geometry of a placed piece. Flex track is shaped per instance by its control points; every other
+ * type only depends on its catalog definition.
+ */
+export function getPlacedItemGeometry(
+  def: TrackComponentDefinition,
+  item: Pick<PlacedItem, 'controlPoints'>,
+  widthMm: number = TRACK_EDGE_WIDTH_MM,
+): ComponentGeometry {
+  if (def.type !== 'flex') return getComponentGeometry(def, widthMm)
+  const controlPoints = isFlexControlPoints(item.controlPoints)
+    ? item.controlPoints
+    : getDefaultFlexControlPoints(def)
+  const geometry = getFlexGeometry(controlPoints)
+  return widthMm === TRACK_EDGE_WIDTH_MM ? geometry : withConnectorWidth(geometry, widthMm)
+}
+
+function buildComponentGeometry(def: TrackComponentDefinition): ComponentGeometry {
   switch (def.type) {
     case 'straight':
       return getStraightGeometry(def)
@@ -150,12 +209,43 @@ export function getComponentGeometry(def: TrackComponentDefinition): ComponentGe
       }
       return getStraightGeometry(def)
     }
+    case 'flex':
+      return getFlexGeometry(getDefaultFlexControlPoints(def))
+    case 'turntable':
+      if (isTurntableMeta(def.meta)) {
+        return getTurntableGeometry(def.meta)
+      }
+      return getStraightGeometry(def)
+    case 'traverser':
+      if (isTraverserMeta(def.meta)) {
+        return getTraverserGeometry(def.meta)
+      }
+      return getStraightGeometry(def)
+    case 'accessory':
+      if (isAccessoryMeta(def.meta)) {
+        return getAccessoryGeometry(def.meta)
+      }
+      return getStraightGeometry(def)
     default:
       warnMissing(def.id)
       return getStraightGeometry({ ...def, lengthMm: def.lengthMm ?? 10 })
   }
 }
 
+function withConnectorWidth(geometry: ComponentGeometry, widthMm: number): ComponentGeometry {
+  const resize = (connector: TrackConnector): TrackConnector => ({ ...connector, widthMm })
+  return {
+    ...geometry,
+    start: resize(geometry.start),
+    end: resize(geometry.end),
+    extraConnectors: geometry.extraConnectors
+      ? Object.fromEntries(
+          Object.entries(geometry.extraConnectors).map(([key, connector]) => [key, resize(connector)]),
+        )
+      : undefined,
+  }
+}
+
 const makeConnector = (xMm: number, yMm: number, directionDeg: number): TrackConnector => {
   const angleRad = toRad(directionDeg)
   const dir = normalizeVec({ x: Math.cos(angleRad), y: Math.sin(angleRad) })
@@ -168,6 +258,18 @@ const makeConnector = (xMm: number, yMm: number, directionDeg: number): TrackCon
   }
 }
 
+function getFlexGeometry(controlPoints: FlexControlPoints): ComponentGeometry {
+  const startTangent = getFlexTangent(controlPoints, 0)
+  const endTangent = getFlexTangent(controlPoints, 1)
+  const end = controlPoints[2]
+
+  // Connectors point outwards: against the direction of travel at the start, along it at the end
+  const start = makeConnector(0, 0, toDeg(Math.atan2(-startTangent.y, -startTangent.x)))
+  const endConnector = makeConnector(end.x, end.y, toDeg(Math.atan2(endTangent.y, endTangent.x)))
+
+  return { start, end: endConnector, buildPathD: () => buildFlexPathD(controlPoints) }
+}
+
 function getStraightGeometry(def: TrackComponentDefinition): ComponentGeometry {
   const length = def.lengthMm ?? 0
 
@@ -208,6 +310,7 @@ function getCurveGeometry(def: TrackComponentDefinition): ComponentGeometry {
 /**
  * Models the WL/WR geometry as documented by PIKO (radius 907.97 mm, 15° branch, 239 mm main leg).
  * This captures the heel-to-toe straight plus diverging arc so connectors can snap perfectly.
+ * Other catalogs reuse the same shape with their own straight length, branch radius and angle.
  */
 function getSimpleSwitchGeometry(
   def: TrackComponentDefinition,
@@ -228,10 +331,8 @@ function getSimpleSwitchGeometry(
 
   const branchEndX = radius * Math.sin(thetaRad)
   const branchEndY = directionSign * (radius - radius * Math.cos(thetaRad))
-  // For WL/WR switches using R9 curve (radius 907.97, angle 15°), branch endpoint direction
-  // should match the curve direction: positive for left switches, negative for right switches
-  const isR9Switch = Math.abs(radius - 907.97) < 0.01 && Math.abs(branchAngleDeg - 15) < 0.01
-  const branchDirectionDeg = isR9Switch ? directionSign * branchAngleDeg : 0
+  // Branch endpoint direction follows the diverging arc: positive for left switches, negative for right switches
+  const branchDirectionDeg = directionSign * branchAngleDeg
   const branchConnector = makeConnector(branchEndX, branchEndY, branchDirectionDeg)
 
   const buildPathD = () => {
@@ -260,8 +361,8 @@ function getCurvedSwitchGeometry(meta: CurvedSwitchMeta): ComponentGeometry {
   const sweepFlag = direction === 'left' ? 0 : 1
   const directionSign = direction === 'left' ? 1 : -1
 
-  // Start vector rotated -180° and track angle added for testing
-  const start = makeConnector(0, 0, 180 - 180 + angleDeg)
+  // Like a plain curve, the start points back against the track angle so both legs turn by `angleDeg`
+  const start = makeConnector(0, 0, directionSign * angleDeg - 180)
 
   const buildEnd = (radius: number): TrackConnector => {
     const xMm = radius * Math.sin(theta)
@@ -333,18 +434,17 @@ function getYSwitchGeometry(meta: YSwitchMeta): ComponentGeometry {
   const { stubLengthMm, branchRadiusMm, branchAngleDeg } = meta
   const theta = toRad(branchAngleDeg)
   const start = makeConnector(0, 0, 180)
-  const stubEnd = makeConnector(stubLengthMm, 0, 0)
 
   const buildBranch = (sign: 1 | -1): TrackConnector => {
     const xMm = stubLengthMm + branchRadiusMm * Math.sin(theta)
     const yMm = sign * (branchRadiusMm - branchRadiusMm * Math.cos(theta))
-    // Endpoint vector is horizontal (0°) pointing outside (right) for consistent visualization
-    const directionDeg = 0
-    return makeConnector(xMm, yMm, directionDeg)
+    // Each leg leaves along its own arc, like the diverging leg of a simple switch
+    return makeConnector(xMm, yMm, sign * branchAngleDeg)
   }
 
-  const left = buildBranch(1)
-  const right = buildBranch(-1)
+  // Local -y is on the left on screen, as for left-hand simple switches
+  const left = buildBranch(-1)
+  const right = buildBranch(1)
 
   const buildPathD = () => {
     const largeArcFlag = 0
@@ -355,9 +455,10 @@ function getYSwitchGeometry(meta: YSwitchMeta): ComponentGeometry {
     ].join(' ')
   }
 
+  // The stub ends inside the switch, so `end` aliases the left leg instead of leaving an open joint there
   return {
     start,
-    end: stubEnd,
+    end: left,
     buildPathD,
     extraConnectors: {
       left,
@@ -440,6 +541,94 @@ function getCrossingGeometry(meta: CrossingMeta): ComponentGeometry {
   }
 }
 
+/**
+ * The pit is centred on the origin with the bridge lying along x, `start` at its left end. Radial tracks
+ * are extra connectors on the pit wall pointing outwards; the ones the bridge ends rest on alias them.
+ */
+function getTurntableGeometry(meta: TurntableMeta): ComponentGeometry {
+  const radius = meta.diameterMm / 2
+  const start = makeConnector(-radius, 0, 180)
+  const end = makeConnector(radius, 0, 0)
+
+  const tracks: Record<string, TrackConnector> = {}
+  for (let index = 0; index < Math.floor(meta.connectorCount); index += 1) {
+    const angleDeg = index * meta.connectorSpacingDeg
+    const angleRad = toRad(angleDeg)
+    tracks[`track${index}`] = makeConnector(radius * Math.cos(angleRad), radius * Math.sin(angleRad), angleDeg)
+  }
+
+  const buildPathD = () =>
+    [
+      `M ${radius} 0 A ${radius} ${radius} 0 1 1 ${-radius} 0 A ${radius} ${radius} 0 1 1 ${radius} 0`,
+      `M ${-radius} 0 L ${radius} 0`,
+    ].join(' ')
+
+  return { start, end, buildPathD, extraConnectors: tracks }
+}
+
+/**
+ * The bridge rests on the first pair of tracks, `start` to `end`; every further pair `startN`/`endN` lies
+ * one track spacing further along +y.
+ */
+function getTraverserGeometry(meta: TraverserMeta): ComponentGeometry {
+  const { bridgeLengthMm, trackSpacingMm } = meta
+  const trackCount = Math.max(1, Math.floor(meta.trackCount))
+  const pitLengthMm = (trackCount - 1) * trackSpacingMm
+  const start = makeConnector(0, 0, 180)
+  const end = makeConnector(bridgeLengthMm, 0, 0)
+
+  const tracks: Record<string, TrackConnector> = {}
+  for (let index = 1; index < trackCount; index += 1) {
+    tracks[`start${index}`] = makeConnector(0, index * trackSpacingMm, 180)
+    tracks[`end${index}`] = makeConnector(bridgeLengthMm, index * trackSpacingMm, 0)
+  }
+
+  const buildPathD = () =>
+    [
+      `M 0 0 L ${bridgeLengthMm} 0`,
+      `M 0 0 L 0 ${pitLengthMm}`,
+      `M ${bridgeLengthMm} 0 L ${bridgeLengthMm} ${pitLengthMm}`,
+    ].join(' ')
+
+  return { start, end, buildPathD, extraConnectors: tracks }
+}
+
+/**
+ * Accessories are straights with a symbol on top. A buffer stop only has its `start` connector; `end`
+ * aliases it so the stop itself never counts as an open end.
+ */
+function getAccessoryGeometry(meta: AccessoryMeta): ComponentGeometry {
+  const { kind, lengthMm } = meta
+  const start = makeConnector(0, 0, 180)
+  const end = kind === 'buffer-stop' ? makeConnector(0, 0, 180) : makeConnector(lengthMm, 0, 0)
+  const center = lengthMm / 2
+
+  const buildPathD = () => `M 0 0 L ${lengthMm} 0`
+
+  const buildMarkerPathD = (widthMm: number) => {
+    const half = widthMm / 2
+    switch (kind) {
+      case 'buffer-stop':
+        return [
+          `M ${lengthMm} ${-half} L ${lengthMm} ${half}`,
+          `M 0 ${-half * 0.8} L ${lengthMm} ${half * 0.8}`,
+          `M 0 ${half * 0.8} L ${lengthMm} ${-half * 0.8}`,
+        ].join(' ')
+      case 'uncoupler':
+        return `M ${center - half} ${-half / 2} h ${widthMm} v ${half} h ${-widthMm} Z`
+      case 'feeder': {
+        const radius = widthMm / 4
+        return `M ${center - radius} 0 A ${radius} ${radius} 0 1 0 ${center + radius} 0 A ${radius} ${radius} 0 1 0 ${center - radius} 0`
+      }
+      case 'isolating':
+        // Insulated joiners sit at the start of the piece
+        return `M ${half / 2} ${-half} L ${half / 2} ${half}`
+    }
+  }
+
+  return { start, end, buildPathD, buildMarkerPathD }
+}
+
 // TODO: Add frog/closure-rail samples for WL/WR once wiring/insulated joint modelling is in scope.
 
 export function transformConnector(local: TrackConnector, transform: WorldTransform): TrackConnector {
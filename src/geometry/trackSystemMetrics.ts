@@ -0,0 +1,61 @@
+import type { TrackSystemDefinition } from '../types/trackSystem'
+import { TRACK_EDGE_WIDTH_MM } from './geometryUtils'
+
+/** H0 (16.5 mm gauge) is the reference scale; every drawing constant was tuned against PIKO A H0. */
+const REFERENCE_GAUGE_MM = 16.5
+const REFERENCE_SNAP_DISTANCE_MM = 8
+const REFERENCE_LABEL_FONT_SIZE_MM = 10
+const REFERENCE_LABEL_OFFSET_MM = 18
+/** Room H0 rolling stock needs on each side of the centre line, overhang on curves included */
+const REFERENCE_CLEARANCE_HALF_WIDTH_MM = 25
+/** Rail top to rail top where H0 track passes over track: the loading gauge height plus a thin deck */
+const REFERENCE_VERTICAL_CLEARANCE_MM = 75
+
+export interface TrackSystemMetrics {
+  /** Gauge relative to H0; used to scale fixed drawing sizes such as export labels */
+  scaleFactor: number
+  sleeperWidthMm: number
+  snapDistanceMm: number
+  labelFontSizeMm: number
+  labelOffsetMm: number
+  /** Default half width of the clearance envelope around the centre line */
+  clearanceHalfWidthMm: number
+  /** Default height one track must run above another where they cross */
+  verticalClearanceMm: number
+}
+
+export const DEFAULT_TRACK_SYSTEM_METRICS: TrackSystemMetrics = {
+  scaleFactor: 1,
+  sleeperWidthMm: TRACK_EDGE_WIDTH_MM,
+  snapDistanceMm: REFERENCE_SNAP_DISTANCE_MM,
+  labelFontSizeMm: REFERENCE_LABEL_FONT_SIZE_MM,
+  labelOffsetMm: REFERENCE_LABEL_OFFSET_MM,
+  clearanceHalfWidthMm: REFERENCE_CLEARANCE_HALF_WIDTH_MM,
+  verticalClearanceMm: REFERENCE_VERTICAL_CLEARANCE_MM,
+}
+
+/**
+ * Derives rendering and snapping sizes from the system's gauge so N and TT pieces are not drawn with H0 sleepers.
+ * Catalogs can pin the sleeper width explicitly when the manufacturer's value differs from the scaled default.
+ */
+export function getTrackSystemMetrics(system: TrackSystemDefinition | null | undefined): TrackSystemMetrics {
+  if (!system || !(system.gaugeMm > 0)) return DEFAULT_TRACK_SYSTEM_METRICS
+
+  const scaleFactor = system.gaugeMm / REFERENCE_GAUGE_MM
+  const sleeperWidthMm =
+    system.sleeperWidthMm && system.sleeperWidthMm > 0
+      ? system.sleeperWidthMm
+      : roundMm(TRACK_EDGE_WIDTH_MM * scaleFactor)
+
+  return {
+    scaleFactor,
+    sleeperWidthMm,
+    snapDistanceMm: roundMm(REFERENCE_SNAP_DISTANCE_MM * scaleFactor),
+    labelFontSizeMm: roundMm(REFERENCE_LABEL_FONT_SIZE_MM * scaleFactor),
+    labelOffsetMm: roundMm(REFERENCE_LABEL_OFFSET_MM * scaleFactor),
+    clearanceHalfWidthMm: roundMm(REFERENCE_CLEARANCE_HALF_WIDTH_MM * scaleFactor),
+    verticalClearanceMm: roundMm(REFERENCE_VERTICAL_CLEARANCE_MM * scaleFactor),
+  }
+}
+
+const roundMm = (value: number) => Math.round(value * 10) / 10
@@ -0,0 +1,37 @@
+import { useCallback } from 'react'
+import type { TrackSystemDefinition } from '../types/trackSystem'
+import { useLocalStorageState } from '../hooks/useLocalStorageState'
+
+const STORAGE_KEY = 'track-planner-catalogs-v1'
+
+/**
+ * Imported catalogs live outside of projects so every project can switch to them.
+ * Once a project uses a catalog it keeps its own copy in `layout.trackSystems`.
+ */
+export function useCatalogLibraryState() {
+  const [catalogs, setCatalogs] = useLocalStorageState<TrackSystemDefinition[]>(STORAGE_KEY, [])
+
+  /** Adds a catalog, replacing an existing one with the same id. */
+  const saveCatalog = useCallback(
+    (trackSystem: TrackSystemDefinition) => {
+      setCatalogs((previous) => [
+        ...previous.filter((candidate) => candidate.id !== trackSystem.id),
+        trackSystem,
+      ])
+    },
+    [setCatalogs],
+  )
+
+  const removeCatalog = useCallback(
+    (trackSystemId: string) => {
+      setCatalogs((previous) => previous.filter((candidate) => candidate.id !== trackSystemId))
+    },
+    [setCatalogs],
+  )
+
+  return {
+    catalogs,
+    saveCatalog,
+    removeCatalog,
+  }
+}
@@ -14,5 +14,3 @@ export function createDefaultLayoutState(): LayoutState {
     shapes: [],
   }
 }
-
-// TODO: Support multiple selectable track systems per layout once the UI can switch between them.
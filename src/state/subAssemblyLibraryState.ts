@@ -0,0 +1,30 @@
+import { useCallback } from 'react'
+import type { SubAssembly } from '../types/subAssembly'
+import { useLocalStorageState } from '../hooks/useLocalStorageState'
+
+const STORAGE_KEY = 'track-planner-sub-assemblies-v1'
+
+/** Sub-assemblies are stored next to the projects and shared by all of them. */
+export function useSubAssemblyLibraryState() {
+  const [subAssemblies, setSubAssemblies] = useLocalStorageState<SubAssembly[]>(STORAGE_KEY, [])
+
+  const saveSubAssembly = useCallback(
+    (subAssembly: SubAssembly) => {
+      setSubAssemblies((previous) => [...previous.filter((candidate) => candidate.id !== subAssembly.id), subAssembly])
+    },
+    [setSubAssemblies],
+  )
+
+  const removeSubAssembly = useCallback(
+    (subAssemblyId: string) => {
+      setSubAssemblies((previous) => previous.filter((candidate) => candidate.id !== subAssemblyId))
+    },
+    [setSubAssemblies],
+  )
+
+  return {
+    subAssemblies,
+    saveSubAssembly,
+    removeSubAssembly,
+  }
+}
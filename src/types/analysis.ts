@@ -0,0 +1,22 @@
+import type { EndpointRef } from './trackSystem'
+
+/** Report panels that can be opened from the toolbar; only one is shown at a time. */
+export type ReportPanelType =
+  | 'closure'
+  | 'clearance'
+  | 'elevation'
+  | 'topology'
+  | 'route'
+  | 'polarity'
+  | 'blocks'
+  | 'switches'
+
+export interface EndpointGap {
+  endpoints: [EndpointRef, EndpointRef]
+  /** Component ids of both pieces, for display */
+  componentIds: [string, string]
+  positionGapMm: number
+  /** Deviation from the two ends facing each other exactly */
+  angleErrorDeg: number
+  connected: boolean
+}
@@ -1,4 +1,4 @@
-import type { EndpointRef, TrackSystemDefinition } from './trackSystem'
+import type { ConnectorKey, EndpointRef, TrackSystemDefinition, Vec2 } from './trackSystem'
 
 export interface PlacedItem {
   /** Unique instance identifier (e.g. uuid) */
@@ -9,6 +9,34 @@ export interface PlacedItem {
   y: number
   rotationDeg: number
   isGrounded?: boolean
+  /** Flex track only: Bézier control points P1..P3 in local coordinates (P0 is the origin) */
+  controlPoints?: [Vec2, Vec2, Vec2]
+  /** Electrical block the piece belongs to */
+  blockId?: string
+  /** Whether a feeder is soldered to this piece */
+  hasFeeder?: boolean
+  /** Switches only: how the switch is driven and addressed */
+  switchOperation?: SwitchOperation
+  /** Rail height above the baseboard at individual connectors (mm); the rest of the track is interpolated */
+  heightsMm?: Record<ConnectorKey, number>
+}
+
+export type SwitchMotorType = 'manual' | 'piko-55271' | 'solenoid' | 'stall-motor' | 'servo'
+
+export interface SwitchOperation {
+  name: string
+  /** DCC accessory addresses; three-way switches and double slips need two drives */
+  addresses: number[]
+  motorType: SwitchMotorType
+  /** Position the switch is thrown to at power-up, as shown in the route finder (e.g. "straight") */
+  defaultPosition: string
+}
+
+export interface ElectricalBlock {
+  id: string
+  name: string
+  /** Color used for the block on the canvas and in the wiring diagram */
+  color: string
 }
 
 export interface LayoutState {
@@ -22,10 +50,14 @@ export interface LayoutState {
   connections: EndpointConnection[]
   /** Simple shapes drawn on the canvas */
   shapes: CanvasShape[]
+  /** Electrical blocks pieces can be assigned to */
+  blocks?: ElectricalBlock[]
 }
 
 export interface EndpointConnection {
   endpoints: [EndpointRef, EndpointRef]
+  /** Both rails are joined with insulated joiners */
+  insulated?: boolean
 }
 
 export type ShapeType = 'rectangle' | 'circle' | 'text' | 'dimension'
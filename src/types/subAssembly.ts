@@ -0,0 +1,13 @@
+import type { LayoutState } from './layout'
+import type { EndpointRef } from './trackSystem'
+
+/** A saved group of pieces, e.g. a crossover or a yard ladder, that can be dropped into any project. */
+export interface SubAssembly {
+  id: string
+  name: string
+  createdAt: string
+  /** Pieces and their internal joints centred on the origin, plus the track systems the pieces use */
+  layout: LayoutState
+  /** Connectors that are not joined inside the assembly; it attaches to a layout through these */
+  openEndpoints: EndpointRef[]
+}
@@ -1,4 +1,13 @@
-export type TrackComponentType = 'straight' | 'curve' | 'switch' | 'crossing' | 'other'
+export type TrackComponentType =
+  | 'straight'
+  | 'curve'
+  | 'switch'
+  | 'crossing'
+  | 'flex'
+  | 'turntable'
+  | 'traverser'
+  | 'accessory'
+  | 'other'
 
 export interface Vec2 {
   x: number
@@ -16,6 +25,8 @@ export interface TrackComponentDefinition {
   article?: string
   color?: string
   meta?: Record<string, unknown>
+  /** Set for pieces created in the component editor; stored with the project instead of a bundled catalog */
+  isCustom?: boolean
 }
 
 export interface CrossingMeta {
@@ -23,6 +34,28 @@ export interface CrossingMeta {
   crossingAngleDeg: number
 }
 
+/** Radial tracks leave the pit every `connectorSpacingDeg`, counting round from the bridge's `end` */
+export interface TurntableMeta {
+  diameterMm: number
+  connectorSpacingDeg: number
+  connectorCount: number
+}
+
+/** Parallel tracks on both sides of the pit, `trackSpacingMm` apart from the bridge's `start`/`end` */
+export interface TraverserMeta {
+  bridgeLengthMm: number
+  trackSpacingMm: number
+  trackCount: number
+}
+
+export type AccessoryKind = 'buffer-stop' | 'uncoupler' | 'feeder' | 'isolating'
+
+/** Short pieces with a marker; a buffer stop has a single connector and `lengthMm` is its body beyond it */
+export interface AccessoryMeta {
+  kind: AccessoryKind
+  lengthMm: number
+}
+
 export interface TrackSystemDefinition {
   id: string
   name: string
@@ -31,6 +64,10 @@ export interface TrackSystemDefinition {
   gaugeMm: number
   parallelSpacingMm: number
   moduleLengthMm: number
+  /** Overrides the sleeper width otherwise derived from the gauge */
+  sleeperWidthMm?: number
+  /** Tightest radius flex track may be bent to */
+  minFlexRadiusMm?: number
   components: TrackComponentDefinition[]
 }
 
@@ -49,6 +86,8 @@ export interface ComponentGeometry {
   start: TrackConnector
   end: TrackConnector
   buildPathD(): string
+  /** Accessory symbol drawn over the track, sized to the system's sleeper width */
+  buildMarkerPathD?(widthMm: number): string
   extraConnectors?: Record<string, TrackConnector>
 }
 
@@ -1,11 +1,16 @@
 import type { TrackComponentType } from './trackSystem'
 
 export interface TrackUsageComponentCount {
+  trackSystemId: string
+  trackSystemName: string
   componentId: string
   label: string
   type: TrackComponentType
   article?: string
+  /** For flex track: stock pieces to buy, i.e. the used length rounded up to whole pieces */
   count: number
+  /** Total length laid, only set for flex track */
+  usedLengthMm?: number
 }
 
 export interface TrackUsageSummary {
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCatalogExport,
+  parseCatalogCsv,
+  parseCatalogImport,
+  type CatalogCsvOptions,
+} from './catalogSerialization'
+import { isBuiltInTrackSystemId } from './trackSystemUtils'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+const importExport = (system: TrackSystemDefinition) => {
+  const result = parseCatalogImport(buildCatalogExport(system))
+  if (!result.ok) throw new Error(result.error)
+  return result.trackSystem
+}
+
+describe('catalog export', () => {
+  it('gives an exported built-in catalog its own id so it can be imported again', () => {
+    const withCustom: TrackSystemDefinition = {
+      ...pikoA_H0,
+      components: [
+        ...pikoA_H0.components,
+        { id: 'G300', label: 'Cut straight', type: 'straight', lengthMm: 300, isCustom: true },
+      ],
+    }
+
+    const imported = importExport(withCustom)
+    expect(imported.id).not.toBe(pikoA_H0.id)
+    expect(isBuiltInTrackSystemId(imported.id)).toBe(false)
+    expect(imported.components.map((component) => component.id)).toContain('G300')
+    expect(imported.components.some((component) => component.isCustom)).toBe(false)
+  })
+
+  it('keeps the id of an imported catalog so a re-import replaces it', () => {
+    const catalog: TrackSystemDefinition = { ...pikoA_H0, id: 'catalog-my-pieces', name: 'My pieces' }
+    expect(importExport(catalog).id).toBe('catalog-my-pieces')
+  })
+})
+
+describe('parseCatalogCsv', () => {
+  const options: CatalogCsvOptions = { ...pikoA_H0, id: 'catalog-csv', name: 'CSV' }
+
+  it('reports every skipped row with its reason', () => {
+    const csv = [
+      'article;label;type;length;radius;angle',
+      '55200;Straight;straight;239,07;;',
+      '55211;Curve;;;360;30',
+      '55999;Mystery;turntable-ish;100;;',
+      '55201;Short straight;straight;;;',
+      '55200;Duplicate;straight;239,07;;',
+      ';No id;straight;100;;',
+    ].join('\n')
+
+    const result = parseCatalogCsv(csv, options)
+    if (!result.ok) throw new Error(result.error)
+    expect(result.trackSystem.components.map((component) => component.id)).toEqual(['55200', '55211'])
+    expect(result.skippedRows).toEqual([
+      { row: 4, reason: 'Unknown type "turntable-ish".' },
+      { row: 5, reason: 'Straight without a length.' },
+      { row: 6, reason: 'Duplicate id "55200".' },
+      { row: 7, reason: 'Missing id and article number.' },
+    ])
+  })
+
+  it('reports skipped rows by their line in the file when it has blank lines', () => {
+    const csv = ['article;type;length', '', '55200;straight;239,07', '', '55201;straight;', ''].join('\r\n')
+
+    const result = parseCatalogCsv(csv, options)
+    if (!result.ok) throw new Error(result.error)
+    expect(result.skippedRows).toEqual([{ row: 5, reason: 'Straight without a length.' }])
+  })
+
+  it('reads thousands separators in both delimiter styles', () => {
+    const semicolon = parseCatalogCsv('article;type;length\n55209;straight;1.234,5', options)
+    const comma = parseCatalogCsv('article,type,length\n55209,straight,"1,234.5"', options)
+    for (const result of [semicolon, comma]) {
+      if (!result.ok) throw new Error(result.error)
+      expect(result.trackSystem.components[0].lengthMm).toBe(1234.5)
+    }
+  })
+})
@@ -0,0 +1,290 @@
+import type { TrackComponentDefinition, TrackComponentType, TrackSystemDefinition } from '../types/trackSystem'
+import { TRACK_COMPONENT_TYPES } from '../constants/trackUsage'
+import { validateTrackComponent, validateTrackSystem } from './projectSerialization'
+import { isBuiltInTrackSystemId } from './trackSystemUtils'
+
+/** Catalog files are versioned independently from project exports. */
+const CATALOG_EXPORT_VERSION = 1
+const CATALOG_EXPORT_KIND = 'track-catalog'
+
+export type CatalogExportPayload = {
+  kind: typeof CATALOG_EXPORT_KIND
+  version: number
+  trackSystem: TrackSystemDefinition
+}
+
+export type CatalogImportResult = { ok: true; trackSystem: TrackSystemDefinition } | { ok: false; error: string }
+
+/** A CSV row the importer could not turn into a component; `row` is the 1-based line number in the file. */
+export type CatalogCsvSkippedRow = { row: number; reason: string }
+
+export type CatalogCsvImportResult =
+  | { ok: true; trackSystem: TrackSystemDefinition; skippedRows: CatalogCsvSkippedRow[] }
+  | { ok: false; error: string }
+
+/** Scale parameters a CSV article list cannot carry; the importer borrows them from an existing system. */
+export type CatalogCsvOptions = Omit<TrackSystemDefinition, 'components'>
+
+/**
+ * Serializes a track system as a shareable catalog. Built-in ids are reserved, so an exported built-in
+ * catalog gets its own id and can be imported back next to the bundled one.
+ */
+export function buildCatalogExport(trackSystem: TrackSystemDefinition): string {
+  const identity = isBuiltInTrackSystemId(trackSystem.id)
+    ? { id: `${trackSystem.id}-custom`, name: `${trackSystem.name} (custom)` }
+    : { id: trackSystem.id, name: trackSystem.name }
+  const payload: CatalogExportPayload = {
+    kind: CATALOG_EXPORT_KIND,
+    version: CATALOG_EXPORT_VERSION,
+    trackSystem: {
+      ...trackSystem,
+      ...identity,
+      // Custom pieces become regular catalog entries once they are shared as a catalog
+      components: trackSystem.components.map((component) => {
+        const copy = { ...component }
+        delete copy.isCustom
+        return copy
+      }),
+    },
+  }
+
+  return JSON.stringify(payload, null, 2)
+}
+
+export function parseCatalogImport(json: string): CatalogImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { ok: false, error: 'File is not valid JSON.' }
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return { ok: false, error: 'Catalog payload is missing.' }
+  }
+
+  const payload = parsed as Partial<CatalogExportPayload>
+  if (payload.kind !== undefined && payload.kind !== CATALOG_EXPORT_KIND) {
+    return { ok: false, error: 'File is not a track catalog.' }
+  }
+  if (typeof payload.version === 'number' && payload.version !== CATALOG_EXPORT_VERSION) {
+    return { ok: false, error: `Unsupported catalog version ${payload.version}.` }
+  }
+
+  // Bare TrackSystemDefinition objects are accepted too, e.g. copied out of a project export
+  const trackSystem = validateTrackSystem(payload.trackSystem ?? parsed)
+  if (!trackSystem) {
+    return { ok: false, error: 'Catalog is missing required fields or has no valid components.' }
+  }
+
+  return { ok: true, trackSystem }
+}
+
+type CsvColumn = 'id' | 'article' | 'label' | 'type' | 'length' | 'radius' | 'angle' | 'direction' | 'color'
+
+const CSV_COLUMN_ALIASES: Record<CsvColumn, string[]> = {
+  id: ['id', 'name', 'code'],
+  article: ['article', 'article number', 'art', 'art.-nr.', 'artikel', 'sku'],
+  label: ['label', 'description', 'bezeichnung'],
+  type: ['type', 'kind', 'typ'],
+  length: ['length', 'lengthmm', 'length mm', 'length (mm)', 'länge'],
+  radius: ['radius', 'radiusmm', 'radius mm', 'radius (mm)'],
+  angle: ['angle', 'angledeg', 'angle deg', 'angle (°)', 'winkel'],
+  direction: ['direction', 'hand', 'richtung'],
+  color: ['color', 'colour'],
+}
+
+/**
+ * Parses a manufacturer article list. The first row must be a header; recognised columns are listed in
+ * CSV_COLUMN_ALIASES. Rows without a type are classified from their dimensions (radius + angle = curve).
+ * Semicolon-separated files may use decimal commas.
+ */
+export function parseCatalogCsv(csv: string, options: CatalogCsvOptions): CatalogCsvImportResult {
+  // Line numbers are kept so skipped rows can be reported against the file as the user sees it
+  const lines = csv
+    .split(/\r?\n/)
+    .map((text, index) => ({ text, number: index + 1 }))
+    .filter((line) => line.text.trim().length > 0)
+  if (lines.length < 2) {
+    return { ok: false, error: 'CSV needs a header row and at least one article.' }
+  }
+
+  const delimiter = lines[0].text.includes(';') ? ';' : ','
+  const header = splitCsvLine(lines[0].text, delimiter).map((cell) => cell.trim().toLowerCase())
+  const columnIndex = new Map<CsvColumn, number>()
+  for (const column of Object.keys(CSV_COLUMN_ALIASES) as CsvColumn[]) {
+    const index = header.findIndex((cell) => CSV_COLUMN_ALIASES[column].includes(cell))
+    if (index !== -1) columnIndex.set(column, index)
+  }
+
+  if (!columnIndex.has('id') && !columnIndex.has('article')) {
+    return { ok: false, error: 'CSV needs an "id" or "article" column.' }
+  }
+
+  const components: TrackComponentDefinition[] = []
+  const skippedRows: CatalogCsvSkippedRow[] = []
+  const seenIds = new Set<string>()
+
+  lines.slice(1).forEach((line) => {
+    const cells = splitCsvLine(line.text, delimiter)
+    const read = (column: CsvColumn) => {
+      const index = columnIndex.get(column)
+      return index === undefined ? '' : (cells[index] ?? '').trim()
+    }
+    const readNumber = (column: CsvColumn) => parseCsvNumber(read(column), delimiter)
+
+    const built = buildCsvComponent({
+      id: read('id') || read('article'),
+      article: read('article'),
+      label: read('label'),
+      type: read('type').toLowerCase(),
+      lengthMm: readNumber('length'),
+      radiusMm: readNumber('radius'),
+      angleDeg: readNumber('angle'),
+      direction: read('direction').toLowerCase(),
+      color: read('color'),
+    })
+
+    const row = line.number
+    if ('error' in built) {
+      skippedRows.push({ row, reason: built.error })
+      return
+    }
+    if (seenIds.has(built.component.id)) {
+      skippedRows.push({ row, reason: `Duplicate id "${built.component.id}".` })
+      return
+    }
+    seenIds.add(built.component.id)
+    components.push(built.component)
+  })
+
+  if (components.length === 0) {
+    return { ok: false, error: 'No usable articles found in the CSV.' }
+  }
+
+  return { ok: true, trackSystem: { ...options, components }, skippedRows }
+}
+
+type CsvRow = {
+  id: string
+  article: string
+  label: string
+  type: string
+  lengthMm: number | null
+  radiusMm: number | null
+  angleDeg: number | null
+  direction: string
+  color: string
+}
+
+function buildCsvComponent(row: CsvRow): { component: TrackComponentDefinition } | { error: string } {
+  if (!row.id) return { error: 'Missing id and article number.' }
+  const type = resolveCsvType(row)
+  if (!type) {
+    return { error: row.type ? `Unknown type "${row.type}".` : 'No type and no length or radius to infer it from.' }
+  }
+
+  const label = row.label || defaultCsvLabel(row, type)
+  const candidate: TrackComponentDefinition = { id: row.id, label, type }
+  if (row.article) candidate.article = row.article
+  if (row.color) candidate.color = row.color
+
+  const { lengthMm, radiusMm, angleDeg } = row
+  switch (type) {
+    case 'straight':
+      if (lengthMm === null) return { error: 'Straight without a length.' }
+      candidate.lengthMm = lengthMm
+      break
+    case 'curve':
+      if (radiusMm === null || angleDeg === null) return { error: 'Curve without a radius and angle.' }
+      candidate.radiusMm = radiusMm
+      candidate.angleDeg = angleDeg
+      candidate.clockwise = false
+      break
+    case 'crossing':
+      if (lengthMm === null || angleDeg === null) return { error: 'Crossing without a length and angle.' }
+      candidate.lengthMm = lengthMm
+      candidate.meta = { lengthMm, crossingAngleDeg: angleDeg }
+      break
+    case 'switch':
+      if (lengthMm === null || radiusMm === null || angleDeg === null) {
+        return { error: 'Switch without a length, radius and angle.' }
+      }
+      candidate.lengthMm = lengthMm
+      candidate.meta = {
+        variant: 'simple-switch',
+        // Geometry directions are mirrored on screen: left-hand turnouts branch towards local -y
+        direction: row.direction.startsWith('r') ? 'left' : 'right',
+        straightLengthMm: lengthMm,
+        branchRadiusMm: radiusMm,
+        branchAngleDeg: angleDeg,
+      }
+      break
+    default:
+      if (lengthMm !== null) candidate.lengthMm = lengthMm
+  }
+
+  const component = validateTrackComponent(candidate)
+  return component ? { component } : { error: 'Dimensions do not describe a valid component.' }
+}
+
+function resolveCsvType(row: CsvRow): TrackComponentType | null {
+  if (row.type) {
+    return TRACK_COMPONENT_TYPES.includes(row.type as TrackComponentType) ? (row.type as TrackComponentType) : null
+  }
+  if (row.radiusMm !== null && row.angleDeg !== null) return 'curve'
+  if (row.lengthMm !== null) return 'straight'
+  return null
+}
+
+function defaultCsvLabel(row: CsvRow, type: TrackComponentType): string {
+  if (type === 'straight' && row.lengthMm !== null) return `${row.id} Straight ${row.lengthMm} mm`
+  if (type === 'curve' && row.radiusMm !== null && row.angleDeg !== null) {
+    return `${row.id} Curve ${row.angleDeg}° r=${row.radiusMm} mm`
+  }
+  return row.id
+}
+
+/**
+ * Reads a dimension cell. Semicolon files use decimal commas, so once a value has one its dots are
+ * thousands separators (`1.234,5`). In comma files a comma can only appear in a quoted cell, where it
+ * separates thousands (`"1,234.5"`).
+ */
+function parseCsvNumber(value: string, delimiter: string): number | null {
+  if (!value) return null
+  const normalized =
+    delimiter === ';' && value.includes(',') ? value.replace(/\./g, '').replace(/,/g, '.') : value.replace(/,/g, '')
+  const parsed = Number(normalized.replace(/[^\d.+-]/g, ''))
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/** Splits a CSV line honouring double-quoted cells (with "" as an escaped quote). */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      cells.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+
+  return cells
+}
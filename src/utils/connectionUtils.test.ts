@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { buildConnectionGraph, getConnectedItemIds } from './connectionUtils'
+import type { EndpointConnection } from '../types/layout'
+
+const join = (first: string, second: string, firstKey = 'end', secondKey = 'start'): EndpointConnection => ({
+  endpoints: [
+    { itemId: first, connectorKey: firstKey },
+    { itemId: second, connectorKey: secondKey },
+  ],
+})
+
+describe('getConnectedItemIds', () => {
+  const graph = buildConnectionGraph([join('a', 'b'), join('b', 'c'), join('c', 'a', 'branch'), join('x', 'y')])
+
+  it('collects every item reachable through connections', () => {
+    expect(getConnectedItemIds(graph, 'a').sort()).toEqual(['a', 'b', 'c'])
+    expect(getConnectedItemIds(graph, 'y').sort()).toEqual(['x', 'y'])
+  })
+
+  it('returns the item alone when it has no connections', () => {
+    expect(getConnectedItemIds(graph, 'loose')).toEqual(['loose'])
+  })
+
+  it('ignores connections between two endpoints of the same item', () => {
+    expect(buildConnectionGraph([join('loop', 'loop')]).size).toBe(0)
+  })
+})
@@ -16,3 +16,33 @@ export const connectionMatchesEndpoints = (connection: EndpointConnection, endpo
 
 export const connectionHasEndpoint = (connection: EndpointConnection, endpoint: EndpointRef) =>
   connection.endpoints.some((candidate) => endpointsEqual(candidate, endpoint))
+
+/** Undirected adjacency of placed items; connections between two endpoints of one item are ignored. */
+export type ConnectionGraph = Map<string, Set<string>>
+
+export const buildConnectionGraph = (connections: EndpointConnection[]): ConnectionGraph => {
+  const graph: ConnectionGraph = new Map()
+  connections.forEach(({ endpoints: [first, second] }) => {
+    if (first.itemId === second.itemId) return
+    if (!graph.has(first.itemId)) graph.set(first.itemId, new Set())
+    if (!graph.has(second.itemId)) graph.set(second.itemId, new Set())
+    graph.get(first.itemId)!.add(second.itemId)
+    graph.get(second.itemId)!.add(first.itemId)
+  })
+  return graph
+}
+
+/** Ids of every item joined to `itemId` through any chain of connections, including the item itself. */
+export const getConnectedItemIds = (graph: ConnectionGraph, itemId: string) => {
+  const result = new Set<string>([itemId])
+  const queue = [itemId]
+  while (queue.length) {
+    const current = queue.shift()!
+    graph.get(current)?.forEach((next) => {
+      if (result.has(next)) return
+      result.add(next)
+      queue.push(next)
+    })
+  }
+  return Array.from(result)
+}
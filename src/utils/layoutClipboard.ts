@@ -0,0 +1,115 @@
+import type { CanvasShape, EndpointConnection, LayoutState, PlacedItem } from '../types/layout'
+import type { TrackSystemDefinition } from '../types/trackSystem'
+import { cloneLayoutState } from './cloneLayout'
+
+/**
+ * Extracts the selected pieces and shapes from a layout, keeping only the connections between two
+ * copied pieces. The result still carries the layout's track systems so custom components survive
+ * a trip to another project.
+ */
+export function copyLayoutSelection(layout: LayoutState, itemIds: Set<string>, shapeIds: Set<string>): LayoutState {
+  return cloneLayoutState({
+    ...layout,
+    placedItems: layout.placedItems.filter((item) => itemIds.has(item.id)),
+    connections: layout.connections.filter((connection) =>
+      connection.endpoints.every((endpoint) => itemIds.has(endpoint.itemId)),
+    ),
+    shapes: layout.shapes.filter((shape) => shapeIds.has(shape.id)),
+  })
+}
+
+const getSelectionCenter = (items: PlacedItem[], shapes: CanvasShape[]) => {
+  const points = [...items, ...shapes]
+  if (points.length === 0) return { x: 0, y: 0 }
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  return {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  }
+}
+
+/** Adds missing track systems and custom components the pasted pieces rely on. */
+const mergeTrackSystems = (target: TrackSystemDefinition[], source: TrackSystemDefinition[], items: PlacedItem[]) => {
+  const usedSystemIds = new Set(items.map((item) => item.trackSystemId))
+  const merged = [...target]
+  source.forEach((system) => {
+    if (!usedSystemIds.has(system.id)) return
+    const index = merged.findIndex((candidate) => candidate.id === system.id)
+    if (index === -1) {
+      merged.push(system)
+      return
+    }
+    const existing = merged[index]
+    const knownIds = new Set(existing.components.map((component) => component.id))
+    const missing = system.components.filter((component) => component.isCustom && !knownIds.has(component.id))
+    if (missing.length > 0) {
+      merged[index] = { ...existing, components: [...existing.components, ...missing] }
+    }
+  })
+  return merged
+}
+
+/**
+ * Gives a copied selection fresh ids and moves it so its centre lands on `position`. Relative
+ * positions, rotations and the connections inside the selection are kept.
+ */
+export function instantiateClipboard(
+  clipboard: LayoutState,
+  position: { x: number; y: number },
+  createId: () => string,
+): LayoutState {
+  const center = getSelectionCenter(clipboard.placedItems, clipboard.shapes)
+  const dx = position.x - center.x
+  const dy = position.y - center.y
+  const copy = cloneLayoutState(clipboard)
+  const idMap = new Map(copy.placedItems.map((item) => [item.id, createId()]))
+
+  return {
+    ...copy,
+    placedItems: copy.placedItems.map((item) => ({
+      ...item,
+      id: idMap.get(item.id) ?? createId(),
+      x: item.x + dx,
+      y: item.y + dy,
+    })),
+    connections: copy.connections.flatMap((connection): EndpointConnection[] => {
+      const [a, b] = connection.endpoints
+      const aId = idMap.get(a.itemId)
+      const bId = idMap.get(b.itemId)
+      if (!aId || !bId) return []
+      return [
+        {
+          ...connection,
+          endpoints: [
+            { itemId: aId, connectorKey: a.connectorKey },
+            { itemId: bId, connectorKey: b.connectorKey },
+          ],
+        },
+      ]
+    }),
+    shapes: copy.shapes.map((shape) => ({ ...shape, id: createId(), x: shape.x + dx, y: shape.y + dy })),
+  }
+}
+
+/**
+ * Adds an instantiated selection to a layout, together with the track systems its pieces need. Block
+ * assignments are kept only when the layout has that block, i.e. when pasting back into the same project.
+ */
+export function mergeLayoutSelection(target: LayoutState, selection: LayoutState): LayoutState {
+  const blockIds = new Set((target.blocks ?? []).map((block) => block.id))
+  const placedItems = selection.placedItems.map((item) => {
+    if (!item.blockId || blockIds.has(item.blockId)) return item
+    const pasted = { ...item }
+    delete pasted.blockId
+    return pasted
+  })
+
+  return {
+    ...target,
+    trackSystems: mergeTrackSystems(target.trackSystems, selection.trackSystems, placedItems),
+    placedItems: [...target.placedItems, ...placedItems],
+    connections: [...target.connections, ...selection.connections],
+    shapes: [...target.shapes, ...selection.shapes],
+  }
+}
@@ -4,9 +4,11 @@ import type {
   CanvasPrimitiveShape,
   CanvasShape,
   CanvasTextShape,
+  ElectricalBlock,
   EndpointConnection,
   LayoutState,
   PlacedItem,
+  SwitchOperation,
 } from '../types/layout'
 import type {
   EndpointRef,
@@ -15,11 +17,12 @@ import type {
   TrackSystemDefinition,
 } from '../types/trackSystem'
 import { cloneLayoutState } from './cloneLayout'
+import { TRACK_COMPONENT_TYPES } from '../constants/trackUsage'
+import { SWITCH_MOTOR_TYPES } from '../constants/switchInventory'
+import { isFlexControlPoints } from '../geometry/flexTrack'
 
 const EXPORT_VERSION = 1
 
-const TRACK_COMPONENT_TYPES: TrackComponentType[] = ['straight', 'curve', 'switch', 'other']
-
 export type ProjectExportPayload = {
   version: number
   project: Project
@@ -69,6 +72,35 @@ export function parseProjectImport(json: string): { ok: true; project: ProjectIm
   return { ok: true, project: validatedProject.project }
 }
 
+const CLIPBOARD_FORMAT = 'track-plan/clipboard'
+
+export type ClipboardPayload = {
+  format: typeof CLIPBOARD_FORMAT
+  version: number
+  layout: LayoutState
+}
+
+/** Copied pieces and shapes travel through the system clipboard as a partial layout. */
+export function buildClipboardExport(layout: LayoutState): string {
+  const payload: ClipboardPayload = { format: CLIPBOARD_FORMAT, version: EXPORT_VERSION, layout: cloneLayoutState(layout) }
+  return JSON.stringify(payload)
+}
+
+/** Returns null for anything that is not a clipboard payload of this app, e.g. plain text. */
+export function parseClipboardImport(text: string): LayoutState | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  const payload = parsed as Partial<ClipboardPayload> | null
+  if (payload?.format !== CLIPBOARD_FORMAT || payload.version !== EXPORT_VERSION) return null
+  const result = validateLayout(payload.layout)
+  return result.ok ? result.layout : null
+}
+
 function validateProject(candidate: unknown): { ok: true; project: ProjectImportData } | { ok: false; error: string } {
   if (!candidate || typeof candidate !== 'object') {
     return { ok: false, error: 'Project payload is missing.' }
@@ -149,6 +181,14 @@ function validateLayout(candidate: unknown): { ok: true; layout: LayoutState } |
       .filter((shape): shape is CanvasShape => Boolean(shape))
     : []
 
+  const blocks: ElectricalBlock[] = Array.isArray(raw.blocks)
+    ? raw.blocks.map(validateBlock).filter((block): block is ElectricalBlock => Boolean(block))
+    : []
+  const blockIds = new Set(blocks.map((block) => block.id))
+  placedItems.forEach((item) => {
+    if (item.blockId && !blockIds.has(item.blockId)) delete item.blockId
+  })
+
   const activeTrackSystemId =
     typeof raw.activeTrackSystemId === 'string' && trackSystems.some((system) => system.id === raw.activeTrackSystemId)
       ? raw.activeTrackSystemId
@@ -161,11 +201,12 @@ function validateLayout(candidate: unknown): { ok: true; layout: LayoutState } |
     connections,
     shapes,
   }
+  if (blocks.length > 0) layout.blocks = blocks
 
   return { ok: true, layout }
 }
 
-function validateTrackSystem(candidate: unknown): TrackSystemDefinition | null {
+export function validateTrackSystem(candidate: unknown): TrackSystemDefinition | null {
   if (!candidate || typeof candidate !== 'object') return null
   const raw = candidate as TrackSystemDefinition
 
@@ -179,7 +220,7 @@ function validateTrackSystem(candidate: unknown): TrackSystemDefinition | null {
 
   if (components.length === 0) return null
 
-  return {
+  const system: TrackSystemDefinition = {
     id: raw.id,
     name: raw.name,
     scale: raw.scale,
@@ -189,9 +230,14 @@ function validateTrackSystem(candidate: unknown): TrackSystemDefinition | null {
     moduleLengthMm: raw.moduleLengthMm,
     components,
   }
+
+  if (isFiniteNumber(raw.sleeperWidthMm)) system.sleeperWidthMm = raw.sleeperWidthMm
+  if (isFiniteNumber(raw.minFlexRadiusMm)) system.minFlexRadiusMm = raw.minFlexRadiusMm
+
+  return system
 }
 
-function validateTrackComponent(candidate: unknown): TrackComponentDefinition | null {
+export function validateTrackComponent(candidate: unknown): TrackComponentDefinition | null {
   if (!candidate || typeof candidate !== 'object') return null
   const raw = candidate as TrackComponentDefinition
 
@@ -208,6 +254,8 @@ function validateTrackComponent(candidate: unknown): TrackComponentDefinition |
   if (isFiniteNumber(raw.angleDeg)) component.angleDeg = raw.angleDeg
   if (typeof raw.clockwise === 'boolean') component.clockwise = raw.clockwise
   if (isString(raw.article)) component.article = raw.article
+  if (isString(raw.color)) component.color = raw.color
+  if (raw.isCustom === true) component.isCustom = true
   if (raw.meta && typeof raw.meta === 'object') component.meta = raw.meta as Record<string, unknown>
 
   return component
@@ -220,7 +268,7 @@ function validatePlacedItem(candidate: unknown): PlacedItem | null {
   if (!isString(raw.id) || !isString(raw.trackSystemId) || !isString(raw.componentId)) return null
   if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y) || !isFiniteNumber(raw.rotationDeg)) return null
 
-  return {
+  const item: PlacedItem = {
     id: raw.id,
     trackSystemId: raw.trackSystemId,
     componentId: raw.componentId,
@@ -229,6 +277,25 @@ function validatePlacedItem(candidate: unknown): PlacedItem | null {
     rotationDeg: raw.rotationDeg,
     isGrounded: typeof raw.isGrounded === 'boolean' ? raw.isGrounded : undefined,
   }
+
+  if (isString(raw.blockId)) item.blockId = raw.blockId
+  if (raw.hasFeeder === true) item.hasFeeder = true
+  const switchOperation = validateSwitchOperation(raw.switchOperation)
+  if (switchOperation) item.switchOperation = switchOperation
+  const heightsMm = validateHeights(raw.heightsMm)
+  if (heightsMm) item.heightsMm = heightsMm
+
+  if (isFlexControlPoints(raw.controlPoints)) {
+    item.controlPoints = raw.controlPoints.map((point) => ({ x: point.x, y: point.y })) as PlacedItem['controlPoints']
+  }
+
+  return item
+}
+
+function validateHeights(candidate: unknown): PlacedItem['heightsMm'] | null {
+  if (!candidate || typeof candidate !== 'object') return null
+  const entries = Object.entries(candidate).filter(([, value]) => isFiniteNumber(value))
+  return entries.length > 0 ? Object.fromEntries(entries) : null
 }
 
 function validateConnection(candidate: unknown): EndpointConnection | null {
@@ -242,7 +309,23 @@ function validateConnection(candidate: unknown): EndpointConnection | null {
 
   if (endpoints.length !== 2) return null
 
-  return { endpoints }
+  return raw.insulated === true ? { endpoints, insulated: true } : { endpoints }
+}
+
+function validateSwitchOperation(candidate: unknown): SwitchOperation | null {
+  if (!candidate || typeof candidate !== 'object') return null
+  const raw = candidate as SwitchOperation
+  if (!isString(raw.name) || !isString(raw.defaultPosition)) return null
+  if (!SWITCH_MOTOR_TYPES.includes(raw.motorType)) return null
+  const addresses = Array.isArray(raw.addresses) ? raw.addresses.filter((address) => Number.isInteger(address)) : []
+  return { name: raw.name, addresses, motorType: raw.motorType, defaultPosition: raw.defaultPosition }
+}
+
+function validateBlock(candidate: unknown): ElectricalBlock | null {
+  if (!candidate || typeof candidate !== 'object') return null
+  const raw = candidate as ElectricalBlock
+  if (!isString(raw.id) || !isString(raw.name) || !isString(raw.color)) return null
+  return { id: raw.id, name: raw.name, color: raw.color }
 }
 
 function validateEndpointRef(candidate: unknown): EndpointRef | null {
@@ -0,0 +1,58 @@
+import type { LayoutState, PlacedItem } from '../types/layout'
+import type { SubAssembly } from '../types/subAssembly'
+import { listLayoutEndpoints } from '../analysis/layoutEndpoints'
+import { copyLayoutSelection, instantiateClipboard } from './layoutClipboard'
+import { resolveTrackSystems } from './trackSystemUtils'
+
+/** Drops what only makes sense inside one project: block, grounding and switch decoder settings. */
+const toLibraryItem = ({ id, trackSystemId, componentId, x, y, rotationDeg, controlPoints, hasFeeder }: PlacedItem) => {
+  const item: PlacedItem = { id, trackSystemId, componentId, x, y, rotationDeg }
+  if (controlPoints) item.controlPoints = controlPoints
+  if (hasFeeder) item.hasFeeder = true
+  return item
+}
+
+/**
+ * Builds a library entry from the selected pieces. Only joints between two selected pieces are kept;
+ * every other connector becomes one of the assembly's open endpoints.
+ */
+export function createSubAssembly(
+  layout: LayoutState,
+  itemIds: Set<string>,
+  name: string,
+  createId: () => string,
+): SubAssembly {
+  const copied = copyLayoutSelection(layout, itemIds, new Set())
+  const usedSystemIds = new Set(copied.placedItems.map((item) => item.trackSystemId))
+  const trackSystems = copied.trackSystems.filter((system) => usedSystemIds.has(system.id))
+  const centred = instantiateClipboard(
+    {
+      activeTrackSystemId: trackSystems[0]?.id ?? null,
+      trackSystems,
+      placedItems: copied.placedItems.map(toLibraryItem),
+      connections: copied.connections,
+      shapes: [],
+    },
+    { x: 0, y: 0 },
+    createId,
+  )
+
+  const connectedKeys = new Set(
+    centred.connections.flatMap((connection) =>
+      connection.endpoints.map((endpoint) => `${endpoint.itemId}:${endpoint.connectorKey}`),
+    ),
+  )
+  const openEndpoints = listLayoutEndpoints(centred, resolveTrackSystems(centred))
+    .filter(({ ref, aliasKeys }) =>
+      [ref.connectorKey, ...aliasKeys].every((key) => !connectedKeys.has(`${ref.itemId}:${key}`)),
+    )
+    .map(({ ref }) => ref)
+
+  return {
+    id: createId(),
+    name,
+    createdAt: new Date().toISOString(),
+    layout: centred,
+    openEndpoints,
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { activateTrackSystem } from './trackSystemUtils'
+import { createDefaultLayoutState } from '../state/layoutState'
+import { pikoA_H0 } from '../data/pikoA_H0'
+import type { TrackSystemDefinition } from '../types/trackSystem'
+
+const catalog = (components: TrackSystemDefinition['components']): TrackSystemDefinition => ({
+  ...pikoA_H0,
+  id: 'catalog-my-pieces',
+  name: 'My pieces',
+  components,
+})
+
+describe('activateTrackSystem', () => {
+  it('adds a missing system and makes it active', () => {
+    const system = catalog([{ id: 'S100', label: 'Straight', type: 'straight', lengthMm: 100 }])
+    const layout = activateTrackSystem(createDefaultLayoutState(), system)
+    expect(layout.activeTrackSystemId).toBe(system.id)
+    expect(layout.trackSystems.at(-1)).toBe(system)
+  })
+
+  it('replaces the copy of a re-imported catalog and keeps the project’s custom pieces', () => {
+    const first = catalog([{ id: 'S100', label: 'Straight', type: 'straight', lengthMm: 100 }])
+    const custom = { id: 'S37', label: 'Cut', type: 'straight' as const, lengthMm: 37, isCustom: true }
+    const layout = activateTrackSystem(createDefaultLayoutState(), {
+      ...first,
+      components: [...first.components, custom],
+    })
+
+    const second = catalog([{ id: 'S100', label: 'Straight', type: 'straight', lengthMm: 100.5 }])
+    const updated = activateTrackSystem(layout, second)
+    const stored = updated.trackSystems.filter((system) => system.id === second.id)
+    expect(stored).toHaveLength(1)
+    expect(stored[0].components).toEqual([...second.components, custom])
+  })
+})
@@ -0,0 +1,124 @@
+import type { LayoutState, PlacedItem } from '../types/layout'
+import type { TrackComponentDefinition, TrackSystemDefinition } from '../types/trackSystem'
+import { BUILT_IN_TRACK_SYSTEMS, findBuiltInTrackSystem } from '../data/trackSystems'
+
+export type ComponentLookup = Map<string, TrackComponentDefinition>
+
+/** Component ids are only unique inside a track system, so lookups are keyed by both ids. */
+export const getComponentKey = (trackSystemId: string, componentId: string) => `${trackSystemId}::${componentId}`
+
+export const getItemComponentKey = (item: PlacedItem) => getComponentKey(item.trackSystemId, item.componentId)
+
+/**
+ * Resolves the track systems stored in a layout, swapping built-in catalogs for their bundled
+ * definition so saved projects pick up the latest metadata (colors, articles, etc) while keeping
+ * the project's custom components.
+ */
+export function resolveTrackSystems(layout: LayoutState | null): TrackSystemDefinition[] {
+  if (!layout) return []
+  return layout.trackSystems.map((system) => {
+    const builtIn = findBuiltInTrackSystem(system.id)
+    if (!builtIn) return system
+    const customComponents = system.components.filter((component) => component.isCustom)
+    if (customComponents.length === 0) return builtIn
+    // Custom pieces live in the layout's copy of the catalog and are appended after the bundled components.
+    return { ...builtIn, components: [...builtIn.components, ...customComponents] }
+  })
+}
+
+/**
+ * Lists every system the user can switch to: the layout's own systems followed by unused built-ins
+ * and catalogs from the imported library.
+ */
+export function listAvailableTrackSystems(
+  layout: LayoutState | null,
+  libraryCatalogs: TrackSystemDefinition[] = [],
+): TrackSystemDefinition[] {
+  const available = [...resolveTrackSystems(layout)]
+  const knownIds = new Set(available.map((system) => system.id))
+  const candidates = [...BUILT_IN_TRACK_SYSTEMS, ...libraryCatalogs]
+  candidates.forEach((system) => {
+    if (knownIds.has(system.id)) return
+    knownIds.add(system.id)
+    available.push(system)
+  })
+  return available
+}
+
+export const isBuiltInTrackSystemId = (trackSystemId: string) => findBuiltInTrackSystem(trackSystemId) !== null
+
+export function buildComponentLookup(trackSystems: TrackSystemDefinition[]): ComponentLookup {
+  const lookup: ComponentLookup = new Map()
+  trackSystems.forEach((system) => {
+    system.components.forEach((component) => lookup.set(getComponentKey(system.id, component.id), component))
+  })
+  return lookup
+}
+
+/**
+ * Stores the system in the layout and marks it as the active one. An existing copy with the same id is
+ * replaced, so re-importing a catalog picks up its changes; custom pieces the project added to the old
+ * copy are kept unless the new definition has a component with the same id.
+ */
+export function activateTrackSystem(layout: LayoutState, system: TrackSystemDefinition): LayoutState {
+  const existing = layout.trackSystems.find((candidate) => candidate.id === system.id)
+  if (!existing) {
+    return { ...layout, activeTrackSystemId: system.id, trackSystems: [...layout.trackSystems, system] }
+  }
+
+  const componentIds = new Set(system.components.map((component) => component.id))
+  const keptCustom = existing.components.filter((component) => component.isCustom && !componentIds.has(component.id))
+  const replacement = keptCustom.length > 0 ? { ...system, components: [...system.components, ...keptCustom] } : system
+  return {
+    ...layout,
+    activeTrackSystemId: system.id,
+    trackSystems: layout.trackSystems.map((candidate) => (candidate.id === system.id ? replacement : candidate)),
+  }
+}
+
+const updateLayoutTrackSystem = (
+  layout: LayoutState,
+  trackSystemId: string,
+  updater: (components: TrackComponentDefinition[]) => TrackComponentDefinition[],
+): LayoutState => ({
+  ...layout,
+  trackSystems: layout.trackSystems.map((system) =>
+    system.id === trackSystemId ? { ...system, components: updater(system.components) } : system,
+  ),
+})
+
+/**
+ * Stores a custom component in the layout's copy of the track system. `previousId` lets the editor
+ * rename a component; placed items keep pointing at it.
+ */
+export function upsertCustomComponent(
+  layout: LayoutState,
+  trackSystemId: string,
+  component: TrackComponentDefinition,
+  previousId?: string,
+): LayoutState {
+  const replacedId = previousId ?? component.id
+  const customComponent: TrackComponentDefinition = { ...component, isCustom: true }
+  const updated = updateLayoutTrackSystem(layout, trackSystemId, (components) => {
+    const index = components.findIndex((candidate) => candidate.id === replacedId && candidate.isCustom)
+    if (index === -1) return [...components, customComponent]
+    return components.map((candidate, candidateIndex) => (candidateIndex === index ? customComponent : candidate))
+  })
+
+  if (replacedId === component.id) return updated
+
+  return {
+    ...updated,
+    placedItems: updated.placedItems.map((item) =>
+      item.trackSystemId === trackSystemId && item.componentId === replacedId
+        ? { ...item, componentId: component.id }
+        : item,
+    ),
+  }
+}
+
+export function removeCustomComponent(layout: LayoutState, trackSystemId: string, componentId: string): LayoutState {
+  return updateLayoutTrackSystem(layout, trackSystemId, (components) =>
+    components.filter((component) => !(component.isCustom && component.id === componentId)),
+  )
+}